@@ -0,0 +1,75 @@
+import { describe, expect, test } from 'bun:test'
+import { type BaseOptions, type BaseShape, generateBase } from './base'
+import type { Triangle } from './exporter'
+import type { NameplateOptions } from './nameplate'
+
+const SHAPES: BaseShape[] = ['round', 'oval', 'square', 'hex']
+
+const FEET = [
+  { x: -3, y: 0, z: 0, part: 0 },
+  { x: 3, y: 0, z: 0, part: 0 },
+]
+
+const VARIANTS: [string, Partial<BaseOptions>, NameplateOptions?][] = [
+  ['plain', {}],
+  ['magnet pocket', { magnetDiameter: 6 }],
+  ['foot pegs', { pegDiameter: 2 }],
+  ['top nameplate', {}, { text: 'HERO' }],
+  ['engraved rim nameplate', {}, { text: 'HERO', placement: 'rim', mode: 'engrave' }],
+  ['embossed rim nameplate', {}, { text: 'HERO', placement: 'rim' }],
+]
+
+/**
+ * Edges used by a single triangle, with corners welded at 0.001
+ */
+function countOpenEdges(triangles: Triangle[]): number {
+  const key = (v: { x: number; y: number; z: number }): string =>
+    `${Math.round(v.x * 1000)},${Math.round(v.y * 1000)},${Math.round(v.z * 1000)}`
+  const edges = new Map<string, number>()
+  for (const { v1, v2, v3 } of triangles) {
+    const corners = [key(v1), key(v2), key(v3)]
+    for (let i = 0; i < 3; i++) {
+      const edge = [corners[i], corners[(i + 1) % 3]].sort().join('|')
+      edges.set(edge, (edges.get(edge) ?? 0) + 1)
+    }
+  }
+  return [...edges.values()].filter((count) => count === 1).length
+}
+
+/**
+ * Move every corner up in place, as the exporter's later stages do
+ */
+function liftInPlace(triangles: Triangle[], dz: number): void {
+  for (const tri of triangles) {
+    for (const v of [tri.v1, tri.v2, tri.v3]) {
+      v.z += dz
+    }
+  }
+}
+
+describe('generateBase', () => {
+  for (const shape of SHAPES) {
+    for (const [label, options, nameplate] of VARIANTS) {
+      test(`${shape} base with ${label} stays closed when moved in place`, () => {
+        const {
+          triangles,
+          pegs,
+          nameplate: placed,
+        } = generateBase({ shape, height: 4, ...options }, { x: 0, y: 0 }, FEET, nameplate)
+        liftInPlace(triangles, 10)
+
+        expect(placed?.placement).toBe(nameplate ? (nameplate.placement ?? 'top') : undefined)
+
+        expect(countOpenEdges(triangles)).toBe(0)
+        const zs = triangles.flatMap(({ v1, v2, v3 }) => [v1.z, v2.z, v3.z])
+        expect(Math.min(...zs)).toBeCloseTo(10, 5)
+        expect(Math.max(...zs)).toBeLessThanOrEqual(14 + (nameplate ? 0.6 : 0) + 1e-6)
+
+        for (const peg of pegs) {
+          liftInPlace(peg.triangles, 10)
+          expect(countOpenEdges(peg.triangles)).toBe(0)
+        }
+      })
+    }
+  }
+})
@@ -0,0 +1,867 @@
+/**
+ * Base Generator
+ *
+ * Builds replacement bases in standard wargaming shapes and sizes, with a
+ * bevelled top edge, optional magnet pockets underneath and sockets for pegs
+ * under the character's feet. Geometry is generated in output units with
+ * Z up, the base bottom at z = 0.
+ */
+
+import type { Triangle, Vertex } from './exporter'
+import { GLYPH_HEIGHT } from './font'
+import {
+  GRID_EPSILON,
+  type NameplateOptions,
+  type NameplatePlacement,
+  type ReliefGrid,
+  type SurfaceMap,
+  addRelief,
+  layoutNameplate,
+  textGrid,
+} from './nameplate'
+
+// ============================================================
+// Type Definitions
+// ============================================================
+
+type BaseShape = 'round' | 'oval' | 'square' | 'hex'
+
+interface BaseOptions {
+  shape?: BaseShape
+  diameter?: number
+  minorDiameter?: number
+  height?: number
+  bevel?: number
+  magnetDiameter?: number
+  magnetDepth?: number
+  pegDiameter?: number
+  pegLength?: number
+  clearance?: number
+}
+
+interface Point2 {
+  x: number
+  y: number
+}
+
+interface Foot {
+  x: number
+  y: number
+  /** Lowest point of the foot */
+  z: number
+  /** Index of the triangle list the foot belongs to */
+  part: number
+}
+
+interface Circle {
+  point: Point2
+  radius: number
+}
+
+/** Relief grid running along the outer wall between two outline points */
+interface RimBand {
+  start: number
+  end: number
+  grid: ReliefGrid
+  /** Distance along the outline of every outline point */
+  positions: number[]
+  map: SurfaceMap
+}
+
+interface GeneratedBase {
+  triangles: Triangle[]
+  /** Peg cylinders to merge into the character, standing on the sockets */
+  pegs: { foot: Foot; triangles: Triangle[] }[]
+  /** Options that could not be met in full, like pockets deeper than the base */
+  warnings: string[]
+  /** Where the nameplate text went and how tall its letters came out, if it fit */
+  nameplate?: { placement: NameplatePlacement; letterHeight: number }
+}
+
+// Standard base diameters in mm
+const BASE_DIAMETERS = [25, 32, 40, 50, 60]
+
+// Material left between pockets and the base surface
+const MIN_FLOOR = 0.6
+
+const CIRCLE_SEGMENTS = 64
+const HOLE_SEGMENTS = 24
+
+// Nameplate text sizes in mm
+const LETTER_HEIGHT = 3
+const MIN_LETTER_HEIGHT = 1
+const TEXT_DEPTH = 0.6
+
+// ============================================================
+// Outlines
+// ============================================================
+
+/**
+ * Counter-clockwise outline of a base shape, shrunk by an inset on every side.
+ * Starts at the back, so the front is always in the middle of the list.
+ */
+function baseOutline(shape: BaseShape, diameter: number, minorDiameter: number, inset: number): Point2[] {
+  const points: Point2[] = []
+
+  if (shape === 'square') {
+    const half = diameter / 2 - inset
+    points.push({ x: half, y: half }, { x: -half, y: half }, { x: -half, y: -half }, { x: half, y: -half })
+  } else if (shape === 'hex') {
+    // Measured across flats, with a flat facing forwards
+    const radius = (diameter / 2 - inset) / Math.cos(Math.PI / 6)
+    for (let i = 0; i < 6; i++) {
+      const angle = (Math.PI / 3) * (i + 1)
+      points.push({ x: radius * Math.cos(angle), y: radius * Math.sin(angle) })
+    }
+  } else {
+    const rx = diameter / 2 - inset
+    const ry = (shape === 'oval' ? minorDiameter : diameter) / 2 - inset
+    for (let i = 0; i < CIRCLE_SEGMENTS; i++) {
+      const angle = Math.PI / 2 + (Math.PI * 2 * i) / CIRCLE_SEGMENTS
+      points.push({ x: rx * Math.cos(angle), y: ry * Math.sin(angle) })
+    }
+  }
+
+  return points
+}
+
+/**
+ * Radius of the largest circle around the centre that fits inside the outline
+ */
+function inscribedRadius(shape: BaseShape, diameter: number, minorDiameter: number): number {
+  return shape === 'oval' ? Math.min(diameter, minorDiameter) / 2 : diameter / 2
+}
+
+/**
+ * Clockwise circle, as used for holes in a face
+ */
+function holeOutline(center: Point2, radius: number): Point2[] {
+  const points: Point2[] = []
+  for (let i = 0; i < HOLE_SEGMENTS; i++) {
+    const angle = -(Math.PI * 2 * i) / HOLE_SEGMENTS
+    points.push({ x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) })
+  }
+  return points
+}
+
+// ============================================================
+// Triangulation
+// ============================================================
+
+function cross(a: Point2, b: Point2, c: Point2): number {
+  return (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x)
+}
+
+/**
+ * Strict point-in-triangle test for a counter-clockwise triangle
+ */
+function insideTriangle(p: Point2, a: Point2, b: Point2, c: Point2): boolean {
+  const epsilon = 1e-9
+  return cross(a, b, p) > epsilon && cross(b, c, p) > epsilon && cross(c, a, p) > epsilon
+}
+
+/**
+ * Whether a point lies strictly between the ends of a segment
+ */
+function onSegment(p: Point2, a: Point2, b: Point2): boolean {
+  if (Math.abs(cross(a, b, p)) > 1e-9) return false
+  const dot = (p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y)
+  return dot > 0 && dot < (b.x - a.x) ** 2 + (b.y - a.y) ** 2
+}
+
+/**
+ * Whether a point lies inside the corner of a counter-clockwise polygon at one
+ * of its vertices
+ */
+function insideCorner(points: Point2[], polygon: number[], i: number, p: Point2): boolean {
+  const prev = points[polygon[(i + polygon.length - 1) % polygon.length]]
+  const v = points[polygon[i]]
+  const next = points[polygon[(i + 1) % polygon.length]]
+  return cross(prev, v, next) > 0
+    ? cross(v, next, p) > 0 && cross(prev, v, p) > 0
+    : cross(v, next, p) > 0 || cross(prev, v, p) > 0
+}
+
+/**
+ * Join each hole to the outline with a zero-width bridge so the face becomes
+ * a single polygon. Returns indices into the concatenated point list.
+ */
+function bridgeHoles(points: Point2[], outerCount: number, holes: number[][]): number[] {
+  const polygon = Array.from({ length: outerCount }, (_, i) => i)
+
+  // Bridge the holes furthest to the right first so earlier bridges never block later ones
+  const ordered = [...holes].sort(
+    (a, b) => Math.max(...b.map((i) => points[i].x)) - Math.max(...a.map((i) => points[i].x)),
+  )
+
+  for (const hole of ordered) {
+    const start = hole.reduce((best, i) => (points[i].x > points[best].x ? i : best), hole[0])
+    const m = points[start]
+
+    // Cast a ray to the right and find the closest polygon edge it hits
+    let bridge = -1
+    let closest = Number.POSITIVE_INFINITY
+    for (let i = 0; i < polygon.length; i++) {
+      const a = points[polygon[i]]
+      const b = points[polygon[(i + 1) % polygon.length]]
+      if (a.y > m.y === b.y > m.y) continue
+      const x = a.x + ((m.y - a.y) / (b.y - a.y)) * (b.x - a.x)
+      if (x >= m.x && x - m.x < closest) {
+        closest = x - m.x
+        bridge = a.x > b.x ? i : (i + 1) % polygon.length
+      }
+    }
+    if (bridge < 0) continue
+
+    // A reflex vertex inside the ray triangle would block the bridge, so use the nearest one instead
+    const p = points[polygon[bridge]]
+    const hit = { x: m.x + closest, y: m.y }
+    let bestAngle = Number.POSITIVE_INFINITY
+    for (let i = 0; i < polygon.length; i++) {
+      const v = points[polygon[i]]
+      const inTriangle = p.y > m.y ? insideTriangle(v, m, hit, p) : insideTriangle(v, m, p, hit)
+      if (!inTriangle) continue
+      const angle = Math.abs(Math.atan2(v.y - m.y, v.x - m.x))
+      if (angle < bestAngle) {
+        bestAngle = angle
+        bridge = i
+      }
+    }
+
+    // Vertices that already anchor a bridge appear twice, only one copy faces the hole
+    const target = polygon[bridge]
+    const facing = polygon.findIndex((j, i) => j === target && insideCorner(points, polygon, i, m))
+    if (facing >= 0) bridge = facing
+
+    const holeStart = hole.indexOf(start)
+    const loop = [...hole.slice(holeStart), ...hole.slice(0, holeStart), start]
+    polygon.splice(bridge + 1, 0, ...loop, polygon[bridge])
+  }
+
+  return polygon
+}
+
+/**
+ * Ear-clip a counter-clockwise outline with clockwise holes
+ */
+function triangulateFace(outer: Point2[], holes: Point2[][]): { points: Point2[]; indices: number[] } {
+  const points = [...outer]
+  const holeIndices: number[][] = []
+  for (const hole of holes) {
+    holeIndices.push(hole.map((_, i) => points.length + i))
+    points.push(...hole)
+  }
+
+  const polygon = bridgeHoles(points, outer.length, holeIndices)
+  const indices: number[] = []
+
+  while (polygon.length > 3) {
+    let clipped = false
+    for (let i = 0; i < polygon.length; i++) {
+      const ia = polygon[(i + polygon.length - 1) % polygon.length]
+      const ib = polygon[i]
+      const ic = polygon[(i + 1) % polygon.length]
+      const a = points[ia]
+      const b = points[ib]
+      const c = points[ic]
+      if (cross(a, b, c) <= 1e-12) continue
+
+      // Vertices on the cut would be left as T-junctions, which happens along straight runs of points
+      const blocked = polygon.some(
+        (j) => j !== ia && j !== ib && j !== ic && (insideTriangle(points[j], a, b, c) || onSegment(points[j], a, c)),
+      )
+      if (blocked) continue
+
+      indices.push(ia, ib, ic)
+      polygon.splice(i, 1)
+      clipped = true
+      break
+    }
+
+    if (clipped) continue
+
+    // No ear left: drop a zero-area vertex (bridge seams collapse this way), or force one so the loop ends
+    const flat = polygon.findIndex((ib, i) => {
+      const ia = polygon[(i + polygon.length - 1) % polygon.length]
+      const ic = polygon[(i + 1) % polygon.length]
+      return Math.abs(cross(points[ia], points[ib], points[ic])) <= 1e-12
+    })
+    if (flat >= 0) {
+      polygon.splice(flat, 1)
+    } else {
+      indices.push(polygon[0], polygon[1], polygon[2])
+      polygon.splice(1, 1)
+    }
+  }
+
+  if (polygon.length === 3 && cross(points[polygon[0]], points[polygon[1]], points[polygon[2]]) > 1e-12) {
+    indices.push(polygon[0], polygon[1], polygon[2])
+  }
+
+  return { points, indices }
+}
+
+// ============================================================
+// Solid Building
+// ============================================================
+
+/**
+ * Triangulated flat face at a height, facing up or down
+ */
+function addFace(triangles: Triangle[], outer: Point2[], holes: Point2[][], z: number, up: boolean): void {
+  const { points, indices } = triangulateFace(outer, holes)
+  const vertex = (i: number): Vertex => ({ x: points[i].x, y: points[i].y, z })
+  for (let i = 0; i < indices.length; i += 3) {
+    const [a, b, c] = [indices[i], indices[i + 1], indices[i + 2]]
+    triangles.push(
+      up ? { v1: vertex(a), v2: vertex(b), v3: vertex(c) } : { v1: vertex(a), v2: vertex(c), v3: vertex(b) },
+    )
+  }
+}
+
+/**
+ * Quads between two rings with matching point counts. Counter-clockwise rings
+ * give outward-facing walls when the lower ring comes first.
+ */
+function addWall(triangles: Triangle[], lower: Point2[], lowerZ: number, upper: Point2[], upperZ: number): void {
+  for (let i = 0; i < lower.length; i++) {
+    const j = (i + 1) % lower.length
+    const a = { x: lower[i].x, y: lower[i].y, z: lowerZ }
+    const b = { x: lower[j].x, y: lower[j].y, z: lowerZ }
+    const c = { x: upper[j].x, y: upper[j].y, z: upperZ }
+    const d = { x: upper[i].x, y: upper[i].y, z: upperZ }
+    triangles.push({ v1: a, v2: b, v3: c }, { v1: { ...a }, v2: { ...c }, v3: d })
+  }
+}
+
+function translate(points: Point2[], offset: Point2): Point2[] {
+  return points.map((p) => ({ x: p.x + offset.x, y: p.y + offset.y }))
+}
+
+/**
+ * Closed cylinder between two heights
+ */
+function cylinder(center: Point2, radius: number, bottom: number, top: number): Triangle[] {
+  const triangles: Triangle[] = []
+  const ring = holeOutline(center, radius).reverse()
+  addWall(triangles, ring, bottom, ring, top)
+  addFace(triangles, ring, [], top, true)
+  addFace(triangles, ring, [], bottom, false)
+  return triangles
+}
+
+// ============================================================
+// Feet Detection
+// ============================================================
+
+/**
+ * Find where the character touches the ground: vertices within a slice above
+ * the lowest point, clustered on a grid in the XY plane
+ * @param parts - Triangle lists, feet remember which list they came from
+ * @param sliceHeight - Height of the slice above the lowest point (default: 1)
+ * @param cellSize - Cluster grid spacing (default: 2)
+ */
+function findFeet(parts: Triangle[][], sliceHeight = 1, cellSize = 2): Foot[] {
+  let minZ = Number.POSITIVE_INFINITY
+  for (const triangles of parts) {
+    for (const tri of triangles) {
+      minZ = Math.min(minZ, tri.v1.z, tri.v2.z, tri.v3.z)
+    }
+  }
+
+  // Gather contact vertices per grid cell
+  const cells = new Map<string, { x: number; y: number; z: number; count: number; parts: number[] }>()
+  parts.forEach((triangles, part) => {
+    for (const tri of triangles) {
+      for (const v of [tri.v1, tri.v2, tri.v3]) {
+        if (v.z > minZ + sliceHeight) continue
+        const key = `${Math.floor(v.x / cellSize)},${Math.floor(v.y / cellSize)}`
+        const cell = cells.get(key) ?? { x: 0, y: 0, z: Number.POSITIVE_INFINITY, count: 0, parts: [] }
+        cell.x += v.x
+        cell.y += v.y
+        cell.z = Math.min(cell.z, v.z)
+        cell.count++
+        cell.parts.push(part)
+        cells.set(key, cell)
+      }
+    }
+  })
+
+  // Merge touching cells into feet
+  const feet: Foot[] = []
+  const visited = new Set<string>()
+  for (const key of cells.keys()) {
+    if (visited.has(key)) continue
+    visited.add(key)
+
+    let x = 0
+    let y = 0
+    let z = Number.POSITIVE_INFINITY
+    let count = 0
+    const partCounts = new Map<number, number>()
+    const stack = [key]
+
+    while (stack.length > 0) {
+      const current = stack.pop() as string
+      const cell = cells.get(current)
+      if (!cell) continue
+      x += cell.x
+      y += cell.y
+      z = Math.min(z, cell.z)
+      count += cell.count
+      for (const part of cell.parts) partCounts.set(part, (partCounts.get(part) ?? 0) + 1)
+
+      const [cx, cy] = current.split(',').map(Number)
+      for (let dx = -1; dx <= 1; dx++) {
+        for (let dy = -1; dy <= 1; dy++) {
+          const neighbor = `${cx + dx},${cy + dy}`
+          if (!visited.has(neighbor) && cells.has(neighbor)) {
+            visited.add(neighbor)
+            stack.push(neighbor)
+          }
+        }
+      }
+    }
+
+    const part = [...partCounts.entries()].reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0]
+    feet.push({ x: x / count, y: y / count, z, part })
+  }
+
+  return feet
+}
+
+// ============================================================
+// Nameplates
+// ============================================================
+
+/**
+ * Whether a point lies inside a convex counter-clockwise outline, at least a
+ * margin away from every edge
+ */
+function insideConvex(p: Point2, outline: Point2[], margin: number): boolean {
+  return outline.every((a, i) => {
+    const b = outline[(i + 1) % outline.length]
+    return cross(a, b, p) / Math.hypot(b.x - a.x, b.y - a.y) >= margin
+  })
+}
+
+/**
+ * Stamp text on the top face, as far forward of the centre as it fits and
+ * clear of the given circles. Returns the clockwise outline of the text patch to
+ * cut from the top face with the letter height used, or null when the text does
+ * not fit.
+ */
+function addTopNameplate(
+  triangles: Triangle[],
+  nameplate: NameplateOptions,
+  top: Point2[],
+  center: Point2,
+  height: number,
+  offset: number,
+  keepClear: Circle[],
+): { outline: Point2[]; letterHeight: number } | null {
+  // Lowest patch position that keeps it inside the top face, or null when it has to sit behind the centre
+  const placePatch = (halfWidth: number, patchHeight: number): number | null => {
+    const fits = (bottom: number): boolean =>
+      [
+        { x: center.x - halfWidth, y: bottom },
+        { x: center.x + halfWidth, y: bottom },
+        { x: center.x + halfWidth, y: bottom + patchHeight },
+        { x: center.x - halfWidth, y: bottom + patchHeight },
+      ].every((corner) => insideConvex(corner, top, MIN_FLOOR))
+
+    let inside = center.y - patchHeight
+    if (!fits(inside)) return null
+    let outside = Math.min(...top.map((p) => p.y))
+    for (let i = 0; i < 32; i++) {
+      const middle = (inside + outside) / 2
+      if (fits(middle)) inside = middle
+      else outside = middle
+    }
+    return inside
+  }
+
+  const clearOfCircles = (halfWidth: number, bottom: number, patchHeight: number): boolean =>
+    keepClear.every(({ point, radius }) => {
+      const dx = Math.max(Math.abs(point.x - center.x) - halfWidth, 0)
+      const dy = Math.max(bottom - point.y, point.y - (bottom + patchHeight), 0)
+      return Math.hypot(dx, dy) >= radius + MIN_FLOOR
+    })
+
+  const block = layoutNameplate(
+    nameplate.text,
+    nameplate.letterHeight ?? LETTER_HEIGHT,
+    MIN_LETTER_HEIGHT,
+    (width, textHeight, cell) => {
+      const bottom = placePatch(width / 2 + cell, textHeight + cell * 2)
+      return bottom !== null && clearOfCircles(width / 2 + cell, bottom, textHeight + cell * 2)
+    },
+  )
+  if (!block) return null
+
+  // The patch keeps a blank cell around the text so it meets the top face at its own height
+  const { cell, width } = block
+  const bottom = placePatch(width / 2 + cell, block.height + cell * 2) as number
+  const left = center.x - width / 2
+  const grid = textGrid(
+    block,
+    left,
+    bottom + cell,
+    [left - cell, left + width + cell],
+    [bottom, bottom + block.height + cell * 2],
+  )
+  addRelief(triangles, grid, offset, (u, v, h) => ({ x: u, y: v, z: height + h }))
+
+  const { us, vs } = grid
+  const outline = [
+    ...vs.slice(0, -1).map((v) => ({ x: us[0], y: v })),
+    ...us.slice(0, -1).map((u) => ({ x: u, y: vs[vs.length - 1] })),
+    ...vs
+      .slice(1)
+      .reverse()
+      .map((v) => ({ x: us[us.length - 1], y: v })),
+    ...us
+      .slice(1)
+      .reverse()
+      .map((u) => ({ x: u, y: vs[0] })),
+  ]
+  return { outline, letterHeight: cell * GLYPH_HEIGHT }
+}
+
+/**
+ * Distance along a closed outline to each of its points, ending with the
+ * full perimeter
+ */
+function outlinePositions(outline: Point2[]): number[] {
+  const positions = [0]
+  outline.forEach((a, i) => {
+    const b = outline[(i + 1) % outline.length]
+    positions.push(positions[i] + Math.hypot(b.x - a.x, b.y - a.y))
+  })
+  return positions
+}
+
+/**
+ * Surface map of a vertical wall, from distance along a counter-clockwise
+ * outline and height to a point pushed out along the wall normal. Outline
+ * points map exactly onto themselves.
+ */
+function wallSurface(outline: Point2[], positions: number[]): SurfaceMap {
+  const count = outline.length
+  const normals = outline.map((a, i) => {
+    const b = outline[(i + 1) % count]
+    const length = Math.hypot(b.x - a.x, b.y - a.y)
+    return { x: (b.y - a.y) / length, y: -(b.x - a.x) / length }
+  })
+
+  return (u, v, offset) => {
+    const corner = positions.findIndex((position) => Math.abs(position - u) <= GRID_EPSILON)
+    if (corner >= 0) {
+      // Corners move along the average of their two wall normals
+      const i = corner % count
+      const before = normals[(i + count - 1) % count]
+      const after = normals[i]
+      const length = Math.hypot(before.x + after.x, before.y + after.y)
+      return {
+        x: outline[i].x + ((before.x + after.x) / length) * offset,
+        y: outline[i].y + ((before.y + after.y) / length) * offset,
+        z: v,
+      }
+    }
+
+    let i = 0
+    while (positions[i + 1] < u) i++
+    const a = outline[i]
+    const b = outline[(i + 1) % count]
+    const t = (u - positions[i]) / (positions[i + 1] - positions[i])
+    return {
+      x: a.x + (b.x - a.x) * t + normals[i].x * offset,
+      y: a.y + (b.y - a.y) * t + normals[i].y * offset,
+      z: v,
+    }
+  }
+}
+
+/**
+ * Stamp text on the outer wall below the bevel, centred at the front. Flat
+ * sided bases keep it on the front side. Returns the band of wall the text
+ * covers with the letter height used, or null when the text does not fit.
+ */
+function addRimNameplate(
+  triangles: Triangle[],
+  nameplate: NameplateOptions,
+  outer: Point2[],
+  flat: boolean,
+  center: Point2,
+  wallHeight: number,
+  offset: number,
+): { band: RimBand; letterHeight: number } | null {
+  const positions = outlinePositions(outer)
+
+  // The front is where the outline crosses the centre line going right
+  const side = outer.findIndex((a, i) => {
+    const b = outer[(i + 1) % outer.length]
+    return a.x <= center.x && b.x > center.x && a.y < center.y
+  })
+  if (side < 0) return null
+  const a = outer[side]
+  const b = outer[(side + 1) % outer.length]
+  const front = positions[side] + (positions[side + 1] - positions[side]) * ((center.x - a.x) / (b.x - a.x))
+  const [min, max] = flat ? [positions[side], positions[side + 1]] : [0, positions[outer.length - 1]]
+
+  const block = layoutNameplate(
+    nameplate.text,
+    nameplate.letterHeight ?? LETTER_HEIGHT,
+    MIN_LETTER_HEIGHT,
+    (width, textHeight, cell) =>
+      textHeight + cell * 2 <= wallHeight && front - width / 2 - cell >= min && front + width / 2 + cell <= max,
+  )
+  if (!block) return null
+
+  // The band runs between the outline points around the text, with a blank cell on either side
+  const { cell, width } = block
+  const left = front - width / 2
+  let start = 0
+  while (positions[start + 1] <= left - cell) start++
+  let end = start
+  while (positions[end] < left + width + cell) end++
+
+  const map = wallSurface(outer, positions)
+  const grid = textGrid(block, left, (wallHeight - block.height) / 2, positions.slice(start, end + 1), [0, wallHeight])
+  addRelief(triangles, grid, offset, map)
+
+  return { band: { start, end, grid, positions, map }, letterHeight: cell * GLYPH_HEIGHT }
+}
+
+/**
+ * Points of the rim band's grid columns that fall inside one outline side
+ */
+function bandPoints(band: RimBand, side: number, z: number): Vertex[] {
+  const { grid, positions, map } = band
+  if (side < band.start || side >= band.end) return []
+  return grid.us
+    .filter((u) => u > positions[side] + GRID_EPSILON && u < positions[side + 1] - GRID_EPSILON)
+    .map((u) => map(u, z, 0))
+}
+
+/**
+ * Outline with the rim band's grid columns added, so a face meets the band
+ * without T-junctions
+ */
+function withBandPoints(outline: Point2[], band: RimBand): Point2[] {
+  return outline.flatMap((p, i) => [p, ...bandPoints(band, i, 0).map((v) => ({ x: v.x, y: v.y }))])
+}
+
+/**
+ * Triangle fan from an apex over a chain of points, for convex faces
+ */
+function addFan(triangles: Triangle[], apex: Vertex, chain: Vertex[]): void {
+  for (let i = 0; i < chain.length - 1; i++) {
+    triangles.push({ v1: { ...apex }, v2: { ...chain[i] }, v3: { ...chain[i + 1] } })
+  }
+}
+
+/**
+ * Outer wall and bevel chamfer. Where a rim band takes over part of the wall,
+ * the sides next to it and the chamfer above it are fanned to meet its grid.
+ */
+function addOuterWalls(
+  triangles: Triangle[],
+  outer: Point2[],
+  top: Point2[],
+  height: number,
+  bevel: number,
+  band: RimBand | null,
+): void {
+  const wallHeight = height - bevel
+  const at = (p: Point2, z: number): Vertex => ({ x: p.x, y: p.y, z })
+
+  for (let i = 0; i < outer.length; i++) {
+    const j = (i + 1) % outer.length
+    const rows = band?.grid.vs ?? []
+
+    // Sides covered by the band are meshed with its relief grid
+    if (band && j === band.start) {
+      addFan(triangles, at(outer[i], 0), [...rows.map((z) => at(outer[j], z)), at(outer[i], wallHeight)])
+    } else if (band && i === band.end) {
+      addFan(triangles, at(outer[j], wallHeight), [
+        at(outer[i], wallHeight),
+        ...[...rows]
+          .reverse()
+          .slice(1)
+          .map((z) => at(outer[i], z)),
+        at(outer[j], 0),
+      ])
+    } else if (!band || i < band.start || i >= band.end) {
+      addFan(triangles, at(outer[i], 0), [at(outer[j], 0), at(outer[j], wallHeight), at(outer[i], wallHeight)])
+    }
+
+    if (bevel > 0) {
+      const lower = band ? bandPoints(band, i, wallHeight) : []
+      addFan(triangles, at(top[i], height), [
+        at(outer[i], wallHeight),
+        ...lower,
+        at(outer[j], wallHeight),
+        at(top[j], height),
+      ])
+    }
+  }
+}
+
+// ============================================================
+// Base Generation
+// ============================================================
+
+/**
+ * Generate a replacement base centred on a point, with sockets under the feet
+ * when pegs are enabled
+ * @param options.shape - 'round', 'oval', 'square' or 'hex' (default: 'round')
+ * @param options.diameter - Size in mm, across flats for hex and the long axis for oval (default: 25)
+ * @param options.minorDiameter - Short axis of oval bases in mm (default: 60% of diameter)
+ * @param options.height - Base height in mm (default: 4)
+ * @param options.bevel - Chamfer on the top edge in mm (default: 1)
+ * @param options.magnetDiameter - Diameter of a magnet pocket in the bottom, in mm (default: none)
+ * @param options.magnetDepth - Depth of the magnet pocket in mm (default: 2)
+ * @param options.pegDiameter - Diameter of pegs under each foot, in mm (default: none)
+ * @param options.pegLength - How far pegs reach into the base, in mm (default: 2)
+ * @param options.clearance - Extra room added to pockets and sockets, in mm (default: 0.2)
+ * @param nameplate.text - Text to stamp on the base, in capitals
+ * @param nameplate.mode - 'emboss' raises the letters, 'engrave' cuts them in (default: 'emboss')
+ * @param nameplate.placement - 'top' in front of the figure, or 'rim' on the front of the wall (default: 'top')
+ * @param nameplate.letterHeight - Capital height in mm, shrunk until the text fits (default: 3)
+ * @param nameplate.depth - How far letters stand out or cut in, in mm (default: 0.6)
+ */
+function generateBase(options: BaseOptions, center: Point2, feet: Foot[], nameplate?: NameplateOptions): GeneratedBase {
+  const {
+    shape = 'round',
+    diameter = 25,
+    minorDiameter = Math.round(diameter * 0.6),
+    height = 4,
+    magnetDiameter,
+    magnetDepth = 2,
+    pegDiameter,
+    pegLength = 2,
+    clearance = 0.2,
+  } = options
+  const bevel = Math.min(
+    Math.max(options.bevel ?? 1, 0),
+    height / 2,
+    inscribedRadius(shape, diameter, minorDiameter) / 2,
+  )
+
+  const triangles: Triangle[] = []
+  const warnings: string[] = []
+  const outer = translate(baseOutline(shape, diameter, minorDiameter, 0), center)
+  const top = translate(baseOutline(shape, diameter, minorDiameter, bevel), center)
+
+  // Magnet pocket in the middle of the bottom face
+  let pocketDepth = 0
+  let pocketRadius = 0
+  const bottomHoles: Point2[][] = []
+  if (magnetDiameter) {
+    pocketDepth = Math.min(magnetDepth + clearance, height - MIN_FLOOR)
+    if (pocketDepth < magnetDepth) {
+      warnings.push(`Base is too thin for a ${magnetDepth}mm magnet, pocket is ${pocketDepth.toFixed(1)}mm deep`)
+    }
+    pocketRadius = (magnetDiameter + clearance) / 2
+    const pocket = holeOutline(center, pocketRadius)
+    bottomHoles.push(pocket)
+    // A clockwise ring gives walls facing into the pocket
+    addWall(triangles, pocket, 0, pocket, pocketDepth)
+    addFace(triangles, [...pocket].reverse(), [], pocketDepth, false)
+  }
+
+  // Sockets for pegs under each foot, kept inside the top face and apart from each other
+  const pegs: GeneratedBase['pegs'] = []
+  const topHoles: Point2[][] = []
+  const socketCircles: Circle[] = []
+  if (pegDiameter) {
+    const socketRadius = (pegDiameter + clearance) / 2
+    const socketDepth = Math.min(pegLength + clearance, height - pocketDepth - MIN_FLOOR)
+    const maxOffset = inscribedRadius(shape, diameter, minorDiameter) - bevel - socketRadius - MIN_FLOOR
+    const sockets: { point: Point2; foot: Foot }[] = []
+
+    for (const foot of feet) {
+      let dx = foot.x - center.x
+      let dy = foot.y - center.y
+      const offset = Math.hypot(dx, dy)
+      if (offset > maxOffset) {
+        dx *= Math.max(maxOffset, 0) / offset
+        dy *= Math.max(maxOffset, 0) / offset
+      }
+      const point = { x: center.x + dx, y: center.y + dy }
+      if (sockets.some((s) => Math.hypot(s.point.x - point.x, s.point.y - point.y) < socketRadius * 2 + MIN_FLOOR)) {
+        continue
+      }
+      sockets.push({ point, foot })
+    }
+
+    if (socketDepth <= clearance) {
+      warnings.push('Base is too thin for peg sockets')
+    } else {
+      for (const { point, foot } of sockets) {
+        const socket = holeOutline(point, socketRadius)
+        topHoles.push(socket)
+        socketCircles.push({ point, radius: socketRadius })
+        addWall(triangles, socket, height - socketDepth, socket, height)
+        addFace(triangles, [...socket].reverse(), [], height - socketDepth, true)
+
+        // The peg fills the socket minus clearance and reaches into the foot
+        const length = socketDepth - clearance
+        pegs.push({
+          foot,
+          triangles: cylinder(point, pegDiameter / 2, height - length, height + Math.min(pegLength, 1)),
+        })
+      }
+    }
+  }
+
+  // Text on the top face is cut out of it; text on the rim replaces part of the outer wall
+  let band: RimBand | null = null
+  let placed: GeneratedBase['nameplate']
+  if (nameplate) {
+    const { mode = 'emboss', placement = 'top', depth = TEXT_DEPTH } = nameplate
+
+    // Engraving keeps a floor under the letters: on the rim towards the magnet pocket, on top the
+    // letters move out of the way of the pocket instead
+    const maxDepth =
+      placement === 'rim'
+        ? inscribedRadius(shape, diameter, minorDiameter) - pocketRadius - MIN_FLOOR
+        : height - MIN_FLOOR
+    if (mode === 'engrave' && depth > maxDepth) {
+      warnings.push(`Base is too small to engrave ${depth}mm deep, engraving ${maxDepth.toFixed(1)}mm`)
+    }
+    const offset = mode === 'engrave' ? -Math.min(depth, maxDepth) : depth
+    const keepClear =
+      mode === 'engrave' && pocketRadius > 0
+        ? [...socketCircles, { point: center, radius: pocketRadius }]
+        : socketCircles
+
+    if (placement === 'rim') {
+      const flat = shape === 'square' || shape === 'hex'
+      const rim = addRimNameplate(triangles, nameplate, outer, flat, center, height - bevel, offset)
+      if (rim) {
+        band = rim.band
+        placed = { placement, letterHeight: rim.letterHeight }
+      }
+    } else {
+      const patch = addTopNameplate(triangles, nameplate, top, center, height, offset, keepClear)
+      if (patch) {
+        topHoles.push(patch.outline)
+        placed = { placement, letterHeight: patch.letterHeight }
+      }
+    }
+    if (!placed) {
+      warnings.push(`Nameplate text does not fit on the ${placement} of the base`)
+    }
+  }
+
+  addOuterWalls(triangles, outer, top, height, bevel, band)
+  addFace(triangles, band ? withBandPoints(outer, band) : outer, bottomHoles, 0, false)
+  addFace(triangles, band && bevel === 0 ? withBandPoints(top, band) : top, topHoles, height, true)
+
+  return { triangles, pegs, warnings, nameplate: placed }
+}
+
+export { BASE_DIAMETERS, findFeet, generateBase, triangulateFace }
+export type { BaseOptions, BaseShape, Foot, GeneratedBase, Point2 }
@@ -0,0 +1,482 @@
+/**
+ * Plane Cutting
+ *
+ * Splits a model into pieces along planes so large prints fit on the build
+ * plate. Cut faces are capped from the loops where the surface crosses each
+ * plane, and matching alignment pins and sockets are added to the caps so the
+ * pieces glue back together in register.
+ */
+
+import { type Point2, triangulateFace } from './base'
+import type { Triangle, Vertex } from './exporter'
+
+// ============================================================
+// Type Definitions
+// ============================================================
+
+interface CutPlane {
+  /** A point on the plane, in output units */
+  x: number
+  y: number
+  z: number
+  /** Plane normal; pins stand on the piece behind it (default: +Z) */
+  normal?: Vertex
+}
+
+interface CutOptions {
+  planes: CutPlane[]
+  pinDiameter?: number
+  pinLength?: number
+  tolerance?: number
+  weldTolerance?: number
+}
+
+interface CutResult {
+  pieces: Triangle[][]
+  caps: number
+  pins: number
+  /** Cut outlines that did not close, left uncapped */
+  openLoops: number
+}
+
+/** Plane with an orthonormal frame; u x v = normal */
+interface PlaneFrame {
+  origin: Vertex
+  normal: Vertex
+  u: Vertex
+  v: Vertex
+}
+
+/** Cap outline in plane coordinates, with the cut points it came from */
+interface CapLoop {
+  points: Point2[]
+  vertices: Vertex[]
+  area: number
+}
+
+interface CapRegion {
+  outer: CapLoop
+  holes: CapLoop[]
+}
+
+// Signed distances below this count as on the plane
+const PLANE_EPSILON = 1e-9
+
+// Pins keep this much material between them and the edge of a cap
+const PIN_MARGIN = 1
+const PIN_SEGMENTS = 16
+
+// Samples across a cap when looking for room for pins
+const PIN_SEARCH_STEPS = 48
+
+// ============================================================
+// Vector Helpers
+// ============================================================
+
+function dot(a: Vertex, b: Vertex): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z
+}
+
+function crossVec(a: Vertex, b: Vertex): Vertex {
+  return { x: a.y * b.z - a.z * b.y, y: a.z * b.x - a.x * b.z, z: a.x * b.y - a.y * b.x }
+}
+
+function normalize(v: Vertex): Vertex {
+  const length = Math.hypot(v.x, v.y, v.z) || 1
+  return { x: v.x / length, y: v.y / length, z: v.z / length }
+}
+
+function planeFrame(plane: CutPlane): PlaneFrame {
+  const normal = normalize(plane.normal ?? { x: 0, y: 0, z: 1 })
+  // Start from the axis least aligned with the normal
+  const axis =
+    Math.abs(normal.x) <= Math.abs(normal.y) && Math.abs(normal.x) <= Math.abs(normal.z)
+      ? { x: 1, y: 0, z: 0 }
+      : Math.abs(normal.y) <= Math.abs(normal.z)
+        ? { x: 0, y: 1, z: 0 }
+        : { x: 0, y: 0, z: 1 }
+  const v = normalize(crossVec(normal, axis))
+  const u = crossVec(v, normal)
+  return { origin: { x: plane.x, y: plane.y, z: plane.z }, normal, u, v }
+}
+
+/**
+ * Point in plane coordinates, lifted along the normal
+ */
+function toWorld(frame: PlaneFrame, p: Point2, h: number): Vertex {
+  const { origin, normal, u, v } = frame
+  return {
+    x: origin.x + u.x * p.x + v.x * p.y + normal.x * h,
+    y: origin.y + u.y * p.x + v.y * p.y + normal.y * h,
+    z: origin.z + u.z * p.x + v.z * p.y + normal.z * h,
+  }
+}
+
+function toPlane(frame: PlaneFrame, p: Vertex): Point2 {
+  const offset = { x: p.x - frame.origin.x, y: p.y - frame.origin.y, z: p.z - frame.origin.z }
+  return { x: dot(offset, frame.u), y: dot(offset, frame.v) }
+}
+
+// ============================================================
+// Splitting
+// ============================================================
+
+/**
+ * Split triangles by a plane. Returns the triangles on either side and the cut
+ * segments, directed so they run counter-clockwise around the cap of the
+ * piece behind the plane when the mesh is closed and outward facing.
+ */
+function splitTriangles(
+  triangles: Triangle[],
+  frame: PlaneFrame,
+): { behind: Triangle[]; front: Triangle[]; segments: [Vertex, Vertex][] } {
+  const behind: Triangle[] = []
+  const front: Triangle[] = []
+  const segments: [Vertex, Vertex][] = []
+
+  const distance = (p: Vertex): number => {
+    const d =
+      (p.x - frame.origin.x) * frame.normal.x +
+      (p.y - frame.origin.y) * frame.normal.y +
+      (p.z - frame.origin.z) * frame.normal.z
+    return Math.abs(d) < PLANE_EPSILON ? 0 : d
+  }
+
+  // Points on the plane count as in front, so every crossing edge has one end strictly behind
+  const intersect = (a: Vertex, da: number, b: Vertex, db: number): Vertex => {
+    const [lo, dlo, hi, dhi] = da < 0 ? [a, da, b, db] : [b, db, a, da]
+    if (dhi === 0) return { ...hi }
+    const t = dlo / (dlo - dhi)
+    return { x: lo.x + (hi.x - lo.x) * t, y: lo.y + (hi.y - lo.y) * t, z: lo.z + (hi.z - lo.z) * t }
+  }
+
+  const addPolygon = (target: Triangle[], polygon: Vertex[]): void => {
+    const points = polygon.filter((p, i) => {
+      const next = polygon[(i + 1) % polygon.length]
+      return p.x !== next.x || p.y !== next.y || p.z !== next.z
+    })
+    for (let i = 1; i < points.length - 1; i++) {
+      target.push({ v1: { ...points[0] }, v2: { ...points[i] }, v3: { ...points[i + 1] } })
+    }
+  }
+
+  for (const tri of triangles) {
+    const vertices = [tri.v1, tri.v2, tri.v3]
+    const d = vertices.map(distance)
+    if (d.every((value) => value >= 0)) {
+      front.push(tri)
+      continue
+    }
+    if (d.every((value) => value < 0)) {
+      behind.push(tri)
+      continue
+    }
+
+    const back: Vertex[] = []
+    const ahead: Vertex[] = []
+    const crossings = new Set<Vertex>()
+    for (let i = 0; i < 3; i++) {
+      const j = (i + 1) % 3
+      if (d[i] < 0) back.push(vertices[i])
+      else ahead.push(vertices[i])
+      if (d[i] < 0 !== d[j] < 0) {
+        const point = intersect(vertices[i], d[i], vertices[j], d[j])
+        crossings.add(point)
+        back.push(point)
+        ahead.push(point)
+      }
+    }
+
+    // The cut runs between the two crossings that follow each other on the back polygon
+    for (let i = 0; i < back.length; i++) {
+      const p = back[i]
+      const q = back[(i + 1) % back.length]
+      if (crossings.has(p) && crossings.has(q)) {
+        if (p.x !== q.x || p.y !== q.y || p.z !== q.z) segments.push([q, p])
+        break
+      }
+    }
+
+    addPolygon(behind, back)
+    addPolygon(front, ahead)
+  }
+
+  return { behind, front, segments }
+}
+
+/**
+ * Chain directed cut segments into closed loops. Chains that never close,
+ * where the surface was open, are counted and dropped.
+ */
+function chainSegments(segments: [Vertex, Vertex][], tolerance: number): { loops: Vertex[][]; open: number } {
+  const key = (p: Vertex): string =>
+    `${Math.round(p.x / tolerance)},${Math.round(p.y / tolerance)},${Math.round(p.z / tolerance)}`
+
+  const outgoing = new Map<string, number[]>()
+  segments.forEach(([start], i) => {
+    const list = outgoing.get(key(start))
+    if (list) list.push(i)
+    else outgoing.set(key(start), [i])
+  })
+
+  const used = new Uint8Array(segments.length)
+  const loops: Vertex[][] = []
+  let open = 0
+
+  for (let first = 0; first < segments.length; first++) {
+    if (used[first]) continue
+    used[first] = 1
+    const loop = [segments[first][0]]
+    const startKey = key(segments[first][0])
+    let end = segments[first][1]
+    let closed = false
+
+    while (loop.length <= segments.length) {
+      if (key(end) === startKey) {
+        closed = true
+        break
+      }
+      const next = outgoing.get(key(end))?.find((i) => !used[i])
+      if (next === undefined) break
+      used[next] = 1
+      loop.push(segments[next][0])
+      end = segments[next][1]
+    }
+
+    if (closed && loop.length >= 3) loops.push(loop)
+    else open++
+  }
+
+  return { loops, open }
+}
+
+// ============================================================
+// Capping
+// ============================================================
+
+function signedArea(points: Point2[]): number {
+  let area = 0
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i]
+    const b = points[(i + 1) % points.length]
+    area += a.x * b.y - b.x * a.y
+  }
+  return area / 2
+}
+
+function insidePolygon(p: Point2, polygon: Point2[]): boolean {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]
+    const b = polygon[j]
+    if (a.y > p.y !== b.y > p.y && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+/**
+ * Group cut loops into cap regions: counter-clockwise loops are outlines and
+ * each clockwise loop is a hole in the smallest outline around it
+ */
+function capRegions(loops: Vertex[][], frame: PlaneFrame): CapRegion[] {
+  const capLoops = loops.map((vertices): CapLoop => {
+    const points = vertices.map((p) => toPlane(frame, p))
+    return { points, vertices, area: signedArea(points) }
+  })
+
+  const regions: CapRegion[] = capLoops
+    .filter((loop) => loop.area > 0)
+    .sort((a, b) => a.area - b.area)
+    .map((outer) => ({ outer, holes: [] }))
+
+  for (const hole of capLoops.filter((loop) => loop.area < 0)) {
+    const region = regions.find(({ outer }) => insidePolygon(hole.points[0], outer.points))
+    region?.holes.push(hole)
+  }
+
+  return regions
+}
+
+function segmentDistance(p: Point2, a: Point2, b: Point2): number {
+  const dx = b.x - a.x
+  const dy = b.y - a.y
+  const length = dx * dx + dy * dy
+  const t = length > 0 ? Math.min(Math.max(((p.x - a.x) * dx + (p.y - a.y) * dy) / length, 0), 1) : 0
+  return Math.hypot(p.x - a.x - dx * t, p.y - a.y - dy * t)
+}
+
+/**
+ * Pick up to two pin positions inside a cap region, each with enough material
+ * around it, the second as far from the first as possible
+ */
+function placePins(region: CapRegion, radius: number): Point2[] {
+  const loops = [region.outer, ...region.holes].map((loop) => loop.points)
+  const xs = region.outer.points.map((p) => p.x)
+  const ys = region.outer.points.map((p) => p.y)
+  const minX = Math.min(...xs)
+  const minY = Math.min(...ys)
+  const step = Math.max(Math.max(...xs) - minX, Math.max(...ys) - minY) / PIN_SEARCH_STEPS
+
+  const candidates: { point: Point2; clearance: number }[] = []
+  for (let i = 0; i <= PIN_SEARCH_STEPS; i++) {
+    for (let j = 0; j <= PIN_SEARCH_STEPS; j++) {
+      const point = { x: minX + i * step, y: minY + j * step }
+      if (!insidePolygon(point, region.outer.points)) continue
+      if (region.holes.some((hole) => insidePolygon(point, hole.points))) continue
+      let clearance = Number.POSITIVE_INFINITY
+      for (const loop of loops) {
+        for (let k = 0; k < loop.length; k++) {
+          clearance = Math.min(clearance, segmentDistance(point, loop[k], loop[(k + 1) % loop.length]))
+        }
+      }
+      if (clearance >= radius + PIN_MARGIN) candidates.push({ point, clearance })
+    }
+  }
+  if (candidates.length === 0) return []
+
+  const first = candidates.reduce((best, c) => (c.clearance > best.clearance ? c : best)).point
+  const spread = (p: Point2): number => Math.hypot(p.x - first.x, p.y - first.y)
+  const second = candidates.reduce((best, c) => (spread(c.point) > spread(best.point) ? c : best)).point
+  return spread(second) >= radius * 2 + PIN_MARGIN ? [first, second] : [first]
+}
+
+/**
+ * Clockwise circle in plane coordinates, as used for holes in a cap
+ */
+function pinOutline(center: Point2, radius: number): Point2[] {
+  return Array.from({ length: PIN_SEGMENTS }, (_, i) => {
+    const angle = -(Math.PI * 2 * i) / PIN_SEGMENTS
+    return { x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) }
+  })
+}
+
+/**
+ * Quads between two copies of a ring in plane coordinates, lifted to two
+ * heights along the normal
+ */
+function addTube(triangles: Triangle[], frame: PlaneFrame, ring: Point2[], lower: number, upper: number): void {
+  for (let i = 0; i < ring.length; i++) {
+    const j = (i + 1) % ring.length
+    const a = toWorld(frame, ring[i], lower)
+    const b = toWorld(frame, ring[j], lower)
+    const c = toWorld(frame, ring[j], upper)
+    const d = toWorld(frame, ring[i], upper)
+    triangles.push({ v1: a, v2: b, v3: c }, { v1: { ...a }, v2: { ...c }, v3: d })
+  }
+}
+
+/**
+ * Flat disk from a counter-clockwise ring in plane coordinates, at a height,
+ * facing along or against the normal
+ */
+function addDisk(triangles: Triangle[], frame: PlaneFrame, ring: Point2[], h: number, along: boolean): void {
+  const center = toWorld(frame, ring[0], h)
+  for (let i = 1; i < ring.length - 1; i++) {
+    const b = toWorld(frame, ring[i], h)
+    const c = toWorld(frame, ring[i + 1], h)
+    triangles.push(along ? { v1: { ...center }, v2: b, v3: c } : { v1: { ...center }, v2: c, v3: b })
+  }
+}
+
+/**
+ * Cap a region on both pieces. Pins stand out of the cap behind the plane and
+ * fit sockets sunk into the cap in front of it.
+ */
+function capRegion(
+  region: CapRegion,
+  frame: PlaneFrame,
+  behind: Triangle[],
+  front: Triangle[],
+  pins: Point2[],
+  options: { pinRadius: number; pinHeight: number; tolerance: number },
+): void {
+  const { pinRadius, pinHeight, tolerance } = options
+  const pinRings = pins.map((p) => pinOutline(p, pinRadius))
+  const socketRings = pins.map((p) => pinOutline(p, pinRadius + tolerance))
+
+  const addCap = (target: Triangle[], rings: Point2[][], along: boolean): void => {
+    const { indices } = triangulateFace(region.outer.points, [...region.holes.map((hole) => hole.points), ...rings])
+    // Cut points are reused as they are, so caps meet the split triangles exactly
+    const vertices = [
+      ...region.outer.vertices,
+      ...region.holes.flatMap((hole) => hole.vertices),
+      ...rings.flatMap((ring) => ring.map((p) => toWorld(frame, p, 0))),
+    ]
+    const at = (i: number): Vertex => ({ ...vertices[i] })
+    for (let i = 0; i < indices.length; i += 3) {
+      const [a, b, c] = [indices[i], indices[i + 1], indices[i + 2]]
+      target.push(along ? { v1: at(a), v2: at(b), v3: at(c) } : { v1: at(a), v2: at(c), v3: at(b) })
+    }
+  }
+
+  addCap(behind, pinRings, true)
+  addCap(front, socketRings, false)
+
+  for (const ring of pinRings) {
+    // Counter-clockwise rings give outward walls
+    const outward = [...ring].reverse()
+    addTube(behind, frame, outward, 0, pinHeight)
+    addDisk(behind, frame, outward, pinHeight, true)
+  }
+  for (const ring of socketRings) {
+    // Clockwise rings give walls facing into the socket
+    addTube(front, frame, ring, 0, pinHeight + tolerance)
+    addDisk(front, frame, [...ring].reverse(), pinHeight + tolerance, false)
+  }
+}
+
+// ============================================================
+// Cutting
+// ============================================================
+
+/**
+ * Cut a closed, outward-facing mesh into pieces along planes, capping every
+ * cut and adding alignment pins where the cap has room for them
+ * @param options.planes - Planes to cut along, each applied to every piece so far
+ * @param options.pinDiameter - Alignment pin diameter in output units, 0 for none (default: 4)
+ * @param options.pinLength - How far pins stand out of the cut, with sockets as deep plus the tolerance (default: 4)
+ * @param options.tolerance - Extra room in the sockets, radially and at the bottom (default: 0.2)
+ * @param options.weldTolerance - Distance at which cut points are joined into loops (default: 0.00001)
+ */
+function cutTriangles(triangles: Triangle[], options: CutOptions): CutResult {
+  const { planes, pinDiameter = 4, pinLength = 4, tolerance = 0.2, weldTolerance = 0.00001 } = options
+  let pieces = [triangles]
+  let caps = 0
+  let pins = 0
+  let openLoops = 0
+
+  for (const plane of planes) {
+    const frame = planeFrame(plane)
+    const next: Triangle[][] = []
+
+    for (const piece of pieces) {
+      const { behind, front, segments } = splitTriangles(piece, frame)
+      const { loops, open } = chainSegments(segments, weldTolerance)
+      openLoops += open
+
+      for (const region of capRegions(loops, frame)) {
+        const positions = pinDiameter > 0 ? placePins(region, pinDiameter / 2 + tolerance) : []
+        capRegion(region, frame, behind, front, positions, {
+          pinRadius: pinDiameter / 2,
+          pinHeight: pinLength,
+          tolerance,
+        })
+        caps++
+        pins += positions.length
+      }
+
+      for (const side of [behind, front]) {
+        if (side.length > 0) next.push(side)
+      }
+    }
+
+    pieces = next
+  }
+
+  return { pieces, caps, pins, openLoops }
+}
+
+export { cutTriangles }
+export type { CutOptions, CutPlane, CutResult }
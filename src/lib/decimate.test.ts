@@ -0,0 +1,106 @@
+import { describe, expect, test } from 'bun:test'
+import { decimateTriangles } from './decimate'
+import type { Triangle, Vertex } from './exporter'
+
+/**
+ * Closed box spanning the given corners, two outward-facing triangles per side
+ */
+function box(min: [number, number, number], max: [number, number, number]): Triangle[] {
+  const corner = (i: number): Vertex => ({
+    x: i & 1 ? max[0] : min[0],
+    y: i & 2 ? max[1] : min[1],
+    z: i & 4 ? max[2] : min[2],
+  })
+  const faces = [
+    0, 2, 1, 1, 2, 3, 4, 5, 6, 5, 7, 6, 0, 1, 4, 1, 5, 4, 2, 6, 3, 3, 6, 7, 0, 4, 2, 2, 4, 6, 1, 3, 5, 3, 7, 5,
+  ]
+  const triangles: Triangle[] = []
+  for (let i = 0; i < faces.length; i += 3) {
+    triangles.push({ v1: corner(faces[i]), v2: corner(faces[i + 1]), v3: corner(faces[i + 2]) })
+  }
+  return triangles
+}
+
+/**
+ * Closed UV sphere of the given radius, 2 · rings · (segments - 1) triangles
+ */
+function sphere(radius: number, rings = 40, segments = 40): Triangle[] {
+  const point = (ring: number, segment: number): Vertex => {
+    const theta = (ring / rings) * Math.PI
+    const phi = (segment / segments) * Math.PI * 2
+    if (ring === 0) return { x: 0, y: 0, z: radius }
+    if (ring === rings) return { x: 0, y: 0, z: -radius }
+    return {
+      x: radius * Math.sin(theta) * Math.cos(phi),
+      y: radius * Math.sin(theta) * Math.sin(phi),
+      z: radius * Math.cos(theta),
+    }
+  }
+  const triangles: Triangle[] = []
+  for (let ring = 0; ring < rings; ring++) {
+    for (let segment = 0; segment < segments; segment++) {
+      const [a, b, c, d] = [
+        point(ring, segment),
+        point(ring + 1, segment),
+        point(ring + 1, segment + 1),
+        point(ring, segment + 1),
+      ]
+      if (ring > 0) triangles.push({ v1: a, v2: b, v3: d })
+      if (ring < rings - 1) triangles.push({ v1: b, v2: c, v3: d })
+    }
+  }
+  return triangles
+}
+
+/**
+ * Edges not shared by exactly two triangles, with corners welded at 0.001
+ */
+function countBadEdges(triangles: Triangle[]): number {
+  const key = (v: Vertex): string => `${Math.round(v.x * 1000)},${Math.round(v.y * 1000)},${Math.round(v.z * 1000)}`
+  const edges = new Map<string, number>()
+  for (const { v1, v2, v3 } of triangles) {
+    const corners = [key(v1), key(v2), key(v3)]
+    for (let i = 0; i < 3; i++) {
+      const edge = [corners[i], corners[(i + 1) % 3]].sort().join('|')
+      edges.set(edge, (edges.get(edge) ?? 0) + 1)
+    }
+  }
+  return [...edges.values()].filter((count) => count !== 2).length
+}
+
+/**
+ * Furthest any triangle corner or centre lies from a sphere of the given radius
+ */
+function sphereDeviation(triangles: Triangle[], radius: number): number {
+  let deviation = 0
+  for (const { v1, v2, v3 } of triangles) {
+    const centre = { x: (v1.x + v2.x + v3.x) / 3, y: (v1.y + v2.y + v3.y) / 3, z: (v1.z + v2.z + v3.z) / 3 }
+    for (const v of [v1, v2, v3, centre]) {
+      deviation = Math.max(deviation, Math.abs(Math.hypot(v.x, v.y, v.z) - radius))
+    }
+  }
+  return deviation
+}
+
+describe('decimateTriangles', () => {
+  test('keeps every closed shell closed, down to a tetrahedron', () => {
+    const triangles = [...box([0, 0, 0], [1, 1, 1]), ...box([3, 0, 0], [5, 2, 2])]
+    const result = decimateTriangles(triangles, { targetTriangles: 2 })
+
+    expect(result.outputTriangles).toBe(8)
+    expect(countBadEdges(result.triangles)).toBe(0)
+  })
+
+  test('reads the error tolerance as a distance, whatever the model size', () => {
+    const counts = [1, 10, 100].map((radius) => {
+      const result = decimateTriangles(sphere(radius), { maxError: 0.05 * radius })
+      expect(sphereDeviation(result.triangles, radius)).toBeLessThanOrEqual(0.05 * radius)
+      expect(countBadEdges(result.triangles)).toBe(0)
+      return result.outputTriangles
+    })
+
+    // Ties between equal costs break differently at each size, so the counts are only close
+    expect(Math.abs(counts[1] - counts[0])).toBeLessThan(counts[0] * 0.05)
+    expect(Math.abs(counts[2] - counts[0])).toBeLessThan(counts[0] * 0.05)
+  })
+})
@@ -0,0 +1,438 @@
+/**
+ * Quadric Mesh Decimation
+ *
+ * Reduces the triangle count with quadric error metric edge collapses
+ * (Garland & Heckbert). Open borders are weighted heavily so silhouettes and
+ * part outlines survive, and collapses that would fold or flip faces are
+ * rejected to keep fine features intact.
+ */
+
+import type { Triangle } from './exporter'
+import { weldTriangles, weldedToTriangles } from './repair'
+
+// ============================================================
+// Type Definitions
+// ============================================================
+
+interface DecimateOptions {
+  targetTriangles?: number
+  maxError?: number
+  weldTolerance?: number
+}
+
+interface DecimateResult {
+  triangles: Triangle[]
+  inputTriangles: number
+  outputTriangles: number
+}
+
+interface Collapse {
+  cost: number
+  a: number
+  b: number
+  x: number
+  y: number
+  z: number
+  versionA: number
+  versionB: number
+}
+
+// Extra weight given to planes that pin open borders in place
+const BOUNDARY_WEIGHT = 1000
+
+// Smallest cosine allowed between a face normal before and after a collapse
+const MIN_NORMAL_COS = 0.2
+
+// ============================================================
+// Priority Queue
+// ============================================================
+
+/**
+ * Binary min-heap of edge collapses ordered by cost
+ */
+class CollapseHeap {
+  private items: Collapse[] = []
+
+  get size(): number {
+    return this.items.length
+  }
+
+  push(item: Collapse): void {
+    const items = this.items
+    items.push(item)
+    let i = items.length - 1
+    while (i > 0) {
+      const parent = (i - 1) >> 1
+      if (items[parent].cost <= items[i].cost) break
+      ;[items[parent], items[i]] = [items[i], items[parent]]
+      i = parent
+    }
+  }
+
+  pop(): Collapse | undefined {
+    const items = this.items
+    const top = items[0]
+    const last = items.pop()
+    if (items.length > 0 && last) {
+      items[0] = last
+      let i = 0
+      for (;;) {
+        const left = i * 2 + 1
+        const right = left + 1
+        let smallest = i
+        if (left < items.length && items[left].cost < items[smallest].cost) smallest = left
+        if (right < items.length && items[right].cost < items[smallest].cost) smallest = right
+        if (smallest === i) break
+        ;[items[smallest], items[i]] = [items[i], items[smallest]]
+        i = smallest
+      }
+    }
+    return top
+  }
+}
+
+// ============================================================
+// Quadrics
+// ============================================================
+
+/**
+ * Add the quadric of plane (a, b, c, d) with the given weight.
+ * Quadrics are stored as the 10 unique entries of a symmetric 4x4 matrix,
+ * with the summed weights kept alongside so errors can be read as distances.
+ */
+function addPlane(
+  quadrics: Float64Array,
+  weights: Float64Array,
+  v: number,
+  a: number,
+  b: number,
+  c: number,
+  d: number,
+  w: number,
+): void {
+  weights[v] += w
+  const q = v * 10
+  quadrics[q] += w * a * a
+  quadrics[q + 1] += w * a * b
+  quadrics[q + 2] += w * a * c
+  quadrics[q + 3] += w * a * d
+  quadrics[q + 4] += w * b * b
+  quadrics[q + 5] += w * b * c
+  quadrics[q + 6] += w * b * d
+  quadrics[q + 7] += w * c * c
+  quadrics[q + 8] += w * c * d
+  quadrics[q + 9] += w * d * d
+}
+
+/**
+ * Evaluate the error of a quadric at a point
+ */
+function quadricError(q: number[], x: number, y: number, z: number): number {
+  return (
+    q[0] * x * x +
+    2 * q[1] * x * y +
+    2 * q[2] * x * z +
+    2 * q[3] * x +
+    q[4] * y * y +
+    2 * q[5] * y * z +
+    2 * q[6] * y +
+    q[7] * z * z +
+    2 * q[8] * z +
+    q[9]
+  )
+}
+
+// ============================================================
+// Decimation
+// ============================================================
+
+/**
+ * Simplify a triangle soup down to a triangle budget or error tolerance
+ * @param options.targetTriangles - Stop once this many triangles remain (default: no limit)
+ * @param options.maxError - Largest allowed deviation in output units (default: no limit)
+ * @param options.weldTolerance - Distance used to weld the soup before decimating (default: 0.001)
+ */
+function decimateTriangles(triangles: Triangle[], options: DecimateOptions = {}): DecimateResult {
+  const { targetTriangles = 0, maxError = Number.POSITIVE_INFINITY, weldTolerance = 0.001 } = options
+  // Costs are weighted mean squared distances to the merged planes, so the tolerance is a distance
+  const maxCost = maxError * maxError
+
+  const welded = weldTriangles(triangles, weldTolerance)
+  const positions = Float64Array.from(welded.positions)
+  const faces = Int32Array.from(welded.indices)
+  const vertexCount = positions.length / 3
+  const faceCount = faces.length / 3
+
+  const faceAlive = new Uint8Array(faceCount).fill(1)
+  const vertexFaces: number[][] = Array.from({ length: vertexCount }, () => [])
+  const versions = new Uint32Array(vertexCount)
+  const removed = new Uint8Array(vertexCount)
+  const quadrics = new Float64Array(vertexCount * 10)
+  const weights = new Float64Array(vertexCount)
+  let aliveFaces = 0
+
+  const faceNormal = (f: number, replace = -1, x = 0, y = 0, z = 0): [number, number, number, number] => {
+    const p: number[][] = []
+    for (let c = 0; c < 3; c++) {
+      const v = faces[f * 3 + c]
+      p.push(v === replace ? [x, y, z] : [positions[v * 3], positions[v * 3 + 1], positions[v * 3 + 2]])
+    }
+    const ax = p[1][0] - p[0][0]
+    const ay = p[1][1] - p[0][1]
+    const az = p[1][2] - p[0][2]
+    const bx = p[2][0] - p[0][0]
+    const by = p[2][1] - p[0][1]
+    const bz = p[2][2] - p[0][2]
+    const nx = ay * bz - az * by
+    const ny = az * bx - ax * bz
+    const nz = ax * by - ay * bx
+    const len = Math.sqrt(nx * nx + ny * ny + nz * nz)
+    return len > 0 ? [nx / len, ny / len, nz / len, len / 2] : [0, 0, 0, 0]
+  }
+
+  // Face quadrics, weighted by area
+  for (let f = 0; f < faceCount; f++) {
+    const a = faces[f * 3]
+    const b = faces[f * 3 + 1]
+    const c = faces[f * 3 + 2]
+    if (a === b || b === c || a === c) {
+      faceAlive[f] = 0
+      continue
+    }
+    aliveFaces++
+
+    const [nx, ny, nz, area] = faceNormal(f)
+    const d = -(nx * positions[a * 3] + ny * positions[a * 3 + 1] + nz * positions[a * 3 + 2])
+    for (let i = 0; i < 3; i++) {
+      const v = faces[f * 3 + i]
+      vertexFaces[v].push(f)
+      addPlane(quadrics, weights, v, nx, ny, nz, d, area)
+    }
+  }
+
+  // Border quadrics: planes through open edges, perpendicular to their face
+  const edgeUse = new Map<string, number>()
+  const edgeKey = (a: number, b: number): string => (a < b ? `${a},${b}` : `${b},${a}`)
+  for (let f = 0; f < faceCount; f++) {
+    if (!faceAlive[f]) continue
+    for (let e = 0; e < 3; e++) {
+      const key = edgeKey(faces[f * 3 + e], faces[f * 3 + ((e + 1) % 3)])
+      edgeUse.set(key, (edgeUse.get(key) || 0) + 1)
+    }
+  }
+  for (let f = 0; f < faceCount; f++) {
+    if (!faceAlive[f]) continue
+    const [fx, fy, fz] = faceNormal(f)
+    for (let e = 0; e < 3; e++) {
+      const a = faces[f * 3 + e]
+      const b = faces[f * 3 + ((e + 1) % 3)]
+      if (edgeUse.get(edgeKey(a, b)) !== 1) continue
+
+      const ex = positions[b * 3] - positions[a * 3]
+      const ey = positions[b * 3 + 1] - positions[a * 3 + 1]
+      const ez = positions[b * 3 + 2] - positions[a * 3 + 2]
+      let nx = ey * fz - ez * fy
+      let ny = ez * fx - ex * fz
+      let nz = ex * fy - ey * fx
+      const len = Math.sqrt(nx * nx + ny * ny + nz * nz)
+      if (len === 0) continue
+      nx /= len
+      ny /= len
+      nz /= len
+      const d = -(nx * positions[a * 3] + ny * positions[a * 3 + 1] + nz * positions[a * 3 + 2])
+      const weight = BOUNDARY_WEIGHT * (ex * ex + ey * ey + ez * ez)
+      addPlane(quadrics, weights, a, nx, ny, nz, d, weight)
+      addPlane(quadrics, weights, b, nx, ny, nz, d, weight)
+    }
+  }
+
+  const heap = new CollapseHeap()
+
+  const computeCollapse = (a: number, b: number): Collapse => {
+    const q: number[] = []
+    for (let i = 0; i < 10; i++) {
+      q.push(quadrics[a * 10 + i] + quadrics[b * 10 + i])
+    }
+
+    const candidates: number[][] = []
+
+    // Optimal position solves the 3x3 system from the quadric
+    const det =
+      q[0] * (q[4] * q[7] - q[5] * q[5]) - q[1] * (q[1] * q[7] - q[5] * q[2]) + q[2] * (q[1] * q[5] - q[4] * q[2])
+    if (Math.abs(det) > 1e-12) {
+      const x =
+        (-q[3] * (q[4] * q[7] - q[5] * q[5]) +
+          q[6] * (q[1] * q[7] - q[2] * q[5]) -
+          q[8] * (q[1] * q[5] - q[2] * q[4])) /
+        det
+      const y =
+        (q[3] * (q[1] * q[7] - q[5] * q[2]) - q[6] * (q[0] * q[7] - q[2] * q[2]) + q[8] * (q[0] * q[5] - q[1] * q[2])) /
+        det
+      const z =
+        (-q[3] * (q[1] * q[5] - q[4] * q[2]) +
+          q[6] * (q[0] * q[5] - q[2] * q[1]) -
+          q[8] * (q[0] * q[4] - q[1] * q[1])) /
+        det
+      candidates.push([x, y, z])
+    }
+
+    const pa = [positions[a * 3], positions[a * 3 + 1], positions[a * 3 + 2]]
+    const pb = [positions[b * 3], positions[b * 3 + 1], positions[b * 3 + 2]]
+    const mid = [(pa[0] + pb[0]) / 2, (pa[1] + pb[1]) / 2, (pa[2] + pb[2]) / 2]
+
+    // Nearly singular quadrics can place the optimum far away, which creates spikes
+    if (candidates.length > 0) {
+      const [x, y, z] = candidates[0]
+      const reach = Math.hypot(pb[0] - pa[0], pb[1] - pa[1], pb[2] - pa[2]) * 2
+      if (Math.hypot(x - mid[0], y - mid[1], z - mid[2]) > reach) {
+        candidates.pop()
+      }
+    }
+    candidates.push(pa, pb, mid)
+
+    const weight = weights[a] + weights[b]
+    let best = candidates[0]
+    let bestCost = Number.POSITIVE_INFINITY
+    for (const candidate of candidates) {
+      const cost = weight > 0 ? quadricError(q, candidate[0], candidate[1], candidate[2]) / weight : 0
+      if (cost < bestCost) {
+        bestCost = cost
+        best = candidate
+      }
+    }
+
+    return {
+      cost: Math.max(bestCost, 0),
+      a,
+      b,
+      x: best[0],
+      y: best[1],
+      z: best[2],
+      versionA: versions[a],
+      versionB: versions[b],
+    }
+  }
+
+  const neighbors = (v: number): Set<number> => {
+    const result = new Set<number>()
+    for (const f of vertexFaces[v]) {
+      if (!faceAlive[f]) continue
+      for (let c = 0; c < 3; c++) {
+        const n = faces[f * 3 + c]
+        if (n !== v) result.add(n)
+      }
+    }
+    return result
+  }
+
+  for (const key of edgeUse.keys()) {
+    const [a, b] = key.split(',').map(Number)
+    heap.push(computeCollapse(a, b))
+  }
+
+  // Alive faces around v that also use n
+  const facesAround = (v: number, n: number): number[] =>
+    vertexFaces[v].filter(
+      (f) => faceAlive[f] && (faces[f * 3] === n || faces[f * 3 + 1] === n || faces[f * 3 + 2] === n),
+    )
+
+  const isBoundaryVertex = (v: number): boolean => [...neighbors(v)].some((n) => facesAround(v, n).length === 1)
+
+  // Reject collapses that flip faces, create non-manifold geometry or break a closed shell
+  const isValidCollapse = (collapse: Collapse): boolean => {
+    const { a, b, x, y, z } = collapse
+    const neighborsB = neighbors(b)
+    const shared = [...neighbors(a)].filter((n) => neighborsB.has(n))
+    const edgeFaces = facesAround(a, b)
+    // Link condition: the only vertices next to both ends are the ones across the edge's faces
+    if (shared.length > edgeFaces.length) return false
+
+    // Two border vertices may only merge along the border, or the surface gets pinched open
+    if (edgeFaces.length > 1 && isBoundaryVertex(a) && isBoundaryVertex(b)) return false
+
+    // A face of b moved onto a must not land on a face a already has, as a tetrahedron collapsing would
+    for (const f of vertexFaces[b]) {
+      if (!faceAlive[f] || edgeFaces.includes(f)) continue
+      const others = [0, 1, 2].map((c) => faces[f * 3 + c]).filter((v) => v !== b)
+      if (facesAround(a, others[0]).some((g) => facesAround(a, others[1]).includes(g))) return false
+    }
+
+    for (const v of [a, b]) {
+      for (const f of vertexFaces[v]) {
+        if (!faceAlive[f]) continue
+        let hasOther = false
+        for (let c = 0; c < 3; c++) {
+          if (faces[f * 3 + c] === (v === a ? b : a)) hasOther = true
+        }
+        if (hasOther) continue
+
+        const before = faceNormal(f)
+        const after = faceNormal(f, v, x, y, z)
+        if (after[3] === 0 || before[0] * after[0] + before[1] * after[1] + before[2] * after[2] < MIN_NORMAL_COS) {
+          return false
+        }
+      }
+    }
+    return true
+  }
+
+  while (heap.size > 0 && aliveFaces > targetTriangles) {
+    const collapse = heap.pop() as Collapse
+    const { a, b } = collapse
+    if (removed[a] || removed[b]) continue
+    if (collapse.versionA !== versions[a] || collapse.versionB !== versions[b]) continue
+    if (collapse.cost > maxCost) break
+    if (!isValidCollapse(collapse)) continue
+
+    // Move a to the new position and merge b into it
+    positions[a * 3] = collapse.x
+    positions[a * 3 + 1] = collapse.y
+    positions[a * 3 + 2] = collapse.z
+    for (let i = 0; i < 10; i++) {
+      quadrics[a * 10 + i] += quadrics[b * 10 + i]
+    }
+
+    for (const f of vertexFaces[b]) {
+      if (!faceAlive[f]) continue
+      let hasA = false
+      for (let c = 0; c < 3; c++) {
+        if (faces[f * 3 + c] === a) hasA = true
+      }
+      if (hasA) {
+        faceAlive[f] = 0
+        aliveFaces--
+      } else {
+        for (let c = 0; c < 3; c++) {
+          if (faces[f * 3 + c] === b) faces[f * 3 + c] = a
+        }
+        vertexFaces[a].push(f)
+      }
+    }
+
+    removed[b] = 1
+    vertexFaces[b] = []
+    vertexFaces[a] = vertexFaces[a].filter((f) => faceAlive[f])
+    versions[a]++
+
+    // Only edges touching a changed cost; validity of the others is checked when popped
+    for (const n of neighbors(a)) {
+      heap.push(computeCollapse(a, n))
+    }
+  }
+
+  const indices: number[] = []
+  for (let f = 0; f < faceCount; f++) {
+    if (faceAlive[f]) {
+      indices.push(faces[f * 3], faces[f * 3 + 1], faces[f * 3 + 2])
+    }
+  }
+
+  return {
+    triangles: weldedToTriangles({ positions: Array.from(positions), indices }),
+    inputTriangles: triangles.length,
+    outputTriangles: indices.length / 3,
+  }
+}
+
+export { decimateTriangles }
+export type { DecimateOptions, DecimateResult }
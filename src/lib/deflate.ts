@@ -0,0 +1,234 @@
+/**
+ * DEFLATE Compression
+ *
+ * Raw DEFLATE (RFC 1951) for ZIP entries. Uses the browser's CompressionStream
+ * when it supports 'deflate-raw', otherwise falls back to a small bundled
+ * encoder: LZ77 with hash chains and the fixed Huffman code.
+ */
+
+// ============================================================
+// Constants
+// ============================================================
+
+const WINDOW_SIZE = 32768
+const WINDOW_MASK = WINDOW_SIZE - 1
+const HASH_BITS = 15
+const HASH_SIZE = 1 << HASH_BITS
+const MIN_MATCH = 3
+const MAX_MATCH = 258
+const MAX_CHAIN = 64
+const NICE_MATCH = 128
+
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258,
+]
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0]
+const DIST_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145,
+  8193, 12289, 16385, 24577,
+]
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13]
+
+// ============================================================
+// Bit Output
+// ============================================================
+
+/**
+ * Growable LSB-first bit writer
+ */
+class BitWriter {
+  private buffer: Uint8Array
+  private length = 0
+  private bits = 0
+  private bitCount = 0
+
+  constructor(capacity: number) {
+    this.buffer = new Uint8Array(Math.max(capacity, 64))
+  }
+
+  /** Write the low `count` bits of `value`, least significant first */
+  writeBits(value: number, count: number): void {
+    this.bits |= value << this.bitCount
+    this.bitCount += count
+    while (this.bitCount >= 8) {
+      this.pushByte(this.bits & 0xff)
+      this.bits >>>= 8
+      this.bitCount -= 8
+    }
+  }
+
+  /** Write a Huffman code, which DEFLATE packs most significant bit first */
+  writeCode(code: number, count: number): void {
+    let reversed = 0
+    for (let i = 0; i < count; i++) {
+      reversed = (reversed << 1) | ((code >>> i) & 1)
+    }
+    this.writeBits(reversed, count)
+  }
+
+  finish(): Uint8Array {
+    if (this.bitCount > 0) {
+      this.pushByte(this.bits & 0xff)
+      this.bits = 0
+      this.bitCount = 0
+    }
+    return this.buffer.subarray(0, this.length)
+  }
+
+  private pushByte(byte: number): void {
+    if (this.length === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2)
+      grown.set(this.buffer)
+      this.buffer = grown
+    }
+    this.buffer[this.length++] = byte
+  }
+}
+
+// ============================================================
+// Fixed Huffman Encoding
+// ============================================================
+
+/**
+ * Write a literal/length symbol with the fixed Huffman code
+ */
+function writeLiteralCode(out: BitWriter, symbol: number): void {
+  if (symbol < 144) {
+    out.writeCode(0x30 + symbol, 8)
+  } else if (symbol < 256) {
+    out.writeCode(0x190 + symbol - 144, 9)
+  } else if (symbol < 280) {
+    out.writeCode(symbol - 256, 7)
+  } else {
+    out.writeCode(0xc0 + symbol - 280, 8)
+  }
+}
+
+/**
+ * Find the largest table index whose base does not exceed the value
+ */
+function findBase(bases: number[], value: number): number {
+  let index = bases.length - 1
+  while (bases[index] > value) index--
+  return index
+}
+
+function writeMatch(out: BitWriter, length: number, distance: number): void {
+  const lengthIndex = findBase(LENGTH_BASE, length)
+  writeLiteralCode(out, 257 + lengthIndex)
+  if (LENGTH_EXTRA[lengthIndex] > 0) {
+    out.writeBits(length - LENGTH_BASE[lengthIndex], LENGTH_EXTRA[lengthIndex])
+  }
+
+  const distIndex = findBase(DIST_BASE, distance)
+  out.writeCode(distIndex, 5)
+  if (DIST_EXTRA[distIndex] > 0) {
+    out.writeBits(distance - DIST_BASE[distIndex], DIST_EXTRA[distIndex])
+  }
+}
+
+// ============================================================
+// Compression
+// ============================================================
+
+/**
+ * Compress bytes to a single raw DEFLATE block using the fixed Huffman code
+ */
+function deflateRawSync(data: Uint8Array): Uint8Array {
+  const out = new BitWriter(data.length / 2 + 16)
+  const head = new Int32Array(HASH_SIZE).fill(-1)
+  const prev = new Int32Array(WINDOW_SIZE)
+  const end = data.length
+
+  const hashAt = (pos: number): number =>
+    (((data[pos] << 16) | (data[pos + 1] << 8) | data[pos + 2]) * 0x9e3779b1) >>> (32 - HASH_BITS)
+
+  const insert = (pos: number): void => {
+    if (pos + MIN_MATCH > end) return
+    const hash = hashAt(pos)
+    prev[pos & WINDOW_MASK] = head[hash]
+    head[hash] = pos
+  }
+
+  // BFINAL = 1, BTYPE = 01 (fixed Huffman)
+  out.writeBits(1, 1)
+  out.writeBits(1, 2)
+
+  let pos = 0
+  while (pos < end) {
+    let bestLength = 0
+    let bestDistance = 0
+
+    if (pos + MIN_MATCH <= end) {
+      const maxLength = Math.min(MAX_MATCH, end - pos)
+      let candidate = head[hashAt(pos)]
+      let chain = MAX_CHAIN
+
+      while (candidate >= 0 && pos - candidate <= WINDOW_SIZE && chain-- > 0) {
+        if (data[candidate + bestLength] === data[pos + bestLength]) {
+          let length = 0
+          while (length < maxLength && data[candidate + length] === data[pos + length]) length++
+          if (length > bestLength) {
+            bestLength = length
+            bestDistance = pos - candidate
+            if (length >= NICE_MATCH || length === maxLength) break
+          }
+        }
+        const next = prev[candidate & WINDOW_MASK]
+        if (next >= candidate) break
+        candidate = next
+      }
+    }
+
+    if (bestLength >= MIN_MATCH) {
+      writeMatch(out, bestLength, bestDistance)
+      for (let i = 0; i < bestLength; i++) insert(pos + i)
+      pos += bestLength
+    } else {
+      writeLiteralCode(out, data[pos])
+      insert(pos)
+      pos++
+    }
+  }
+
+  writeLiteralCode(out, 256)
+  return out.finish()
+}
+
+/**
+ * Check whether the platform can produce raw DEFLATE streams natively
+ */
+function supportsNativeDeflate(): boolean {
+  if (typeof CompressionStream === 'undefined') return false
+  try {
+    new CompressionStream('deflate-raw')
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Compress bytes to raw DEFLATE, natively when possible
+ */
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  if (supportsNativeDeflate()) {
+    const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'))
+    return new Uint8Array(await new Response(stream).arrayBuffer())
+  }
+  return deflateRawSync(data)
+}
+
+/**
+ * Compress a blob to raw DEFLATE, streaming it through the native compressor
+ * when possible; the fallback compressor needs the whole blob in memory
+ */
+async function deflateRawBlob(data: Blob): Promise<Blob> {
+  if (supportsNativeDeflate()) {
+    const stream = data.stream().pipeThrough(new CompressionStream('deflate-raw'))
+    return new Response(stream).blob()
+  }
+  return new Blob([deflateRawSync(new Uint8Array(await data.arrayBuffer()))])
+}
+
+export { deflateRaw, deflateRawBlob, deflateRawSync }
@@ -0,0 +1,122 @@
+import { describe, expect, test } from 'bun:test'
+import { type ExportOptions, type MeshSnapshot, runExport } from './exporter'
+
+/**
+ * Snapshot of a closed box spanning the given corners
+ */
+function box(name: string, min: [number, number, number], max: [number, number, number]): MeshSnapshot {
+  const positions = new Float32Array(24)
+  for (let i = 0; i < 8; i++) {
+    positions[i * 3] = i & 1 ? max[0] : min[0]
+    positions[i * 3 + 1] = i & 2 ? max[1] : min[1]
+    positions[i * 3 + 2] = i & 4 ? max[2] : min[2]
+  }
+  // Two outward-facing triangles per side
+  const indices = new Uint32Array([
+    0, 2, 1, 1, 2, 3, 4, 5, 6, 5, 7, 6, 0, 1, 4, 1, 5, 4, 2, 6, 3, 3, 6, 7, 0, 4, 2, 2, 4, 6, 1, 3, 5, 3, 7, 5,
+  ])
+  return { slotName: 'body', name, isBase: false, positions, indices }
+}
+
+/**
+ * Entry names listed in a ZIP file's central directory
+ */
+async function zipEntryNames(blob: Blob): Promise<string[]> {
+  const bytes = new Uint8Array(await blob.arrayBuffer())
+  const view = new DataView(bytes.buffer)
+  const names: string[] = []
+  for (let i = 0; i + 46 <= bytes.length; i++) {
+    if (view.getUint32(i, true) !== 0x02014b50) continue
+    const length = view.getUint16(i + 28, true)
+    names.push(new TextDecoder().decode(bytes.subarray(i + 46, i + 46 + length)))
+  }
+  return names
+}
+
+// A stem under a wide cap, whose underside overhangs, in HeroForge's Y-up units
+const MUSHROOM = [box('stem', [-1, 0, -1], [1, 10, 1]), box('cap', [-5, 10, -5], [5, 11, 5])]
+
+const run = (options: ExportOptions) => runExport(MUSHROOM, { scale: 1, ...options }, () => {})
+
+describe('runExport', () => {
+  test('counts input triangles as collected, before subdividing', async () => {
+    const { stats } = await run({ checkPrintability: false, subdivisions: 1 })
+
+    expect(stats.inputTriangles).toBe(24)
+    expect(stats.outputTriangles).toBe(96)
+  })
+
+  test('counts each part as collected, before subdividing', async () => {
+    const { parts } = await run({ checkPrintability: false, subdivisions: 1, format: 'obj' })
+
+    expect(parts.map((part) => [part.name, part.inputTriangles, part.triangles])).toEqual([
+      ['stem', 12, 48],
+      ['cap', 12, 48],
+    ])
+  })
+
+  test('keeps slots split into files of their own in place', async () => {
+    const [stem, cap] = MUSHROOM
+    const { parts } = await runExport(
+      [stem, { ...cap, slotName: 'hat' }],
+      { scale: 1, splitSlots: true, checkPrintability: false },
+      () => {},
+    )
+
+    expect(parts.map((part) => [part.name, part.boundingBox?.min.z])).toEqual([
+      ['body', 2.5],
+      ['hat', 12.5],
+    ])
+  })
+
+  test('returns printability findings as warnings', async () => {
+    const { warnings } = await run({ overhangAngle: 45 })
+
+    const overhangs = warnings.filter((warning) => warning.code === 'overhangs')
+    expect(overhangs).toHaveLength(1)
+    expect(overhangs[0].message).toContain('overhangs more than 45°')
+  })
+
+  test('leaves out printability warnings when the checks are off', async () => {
+    const { warnings } = await run({ checkPrintability: false })
+
+    expect(warnings.some((warning) => warning.code === 'overhangs')).toBe(false)
+  })
+
+  test('returns what the generated base had to give up as warnings', async () => {
+    const { warnings } = await run({
+      checkPrintability: false,
+      generatedBase: { shape: 'round', diameter: 25, height: 2, magnetDiameter: 6, magnetDepth: 3 },
+    })
+
+    const adjusted = warnings.filter((warning) => warning.code === 'base-adjusted')
+    expect(adjusted).toHaveLength(1)
+    expect(adjusted[0].message).toContain('too thin for a 3mm magnet')
+  })
+
+  test('returns sizing targets that had nothing to measure as warnings', async () => {
+    const { warnings } = await run({ checkPrintability: false, baseDiameter: 25 })
+
+    expect(warnings.map((warning) => warning.code)).toContain('sizing-ignored')
+  })
+
+  test('gives slots that only differ in case files of their own', async () => {
+    const [stem, cap] = MUSHROOM
+    const { files } = await runExport(
+      [
+        { ...stem, slotName: 'Hat' },
+        { ...cap, slotName: 'hat' },
+        { ...cap, slotName: 'plate' },
+      ],
+      { scale: 1, splitSlots: true, checkPrintability: false, plate: {} },
+      () => {},
+    )
+
+    expect(await zipEntryNames(files[0].blob)).toEqual([
+      'heroforge-character-hat.stl',
+      'heroforge-character-hat-2.stl',
+      'heroforge-character-plate-2.stl',
+      'heroforge-character-plate.stl',
+    ])
+  })
+})
@@ -3,12 +3,37 @@
  *
  * Exports the currently displayed HeroForge 3D character as STL files.
  * Separates base/pedestal meshes from character meshes and exports as a ZIP.
+ * Can also export a 3MF package with one named object per slot, or an OBJ
+ * with an object per slot and a group per mesh, or a rigged GLB.
  *
  * Usage:
  *   1. Import and call exportCharacter() from the browser console
  *   2. Or paste the compiled JS version directly
  */
 
+import { type BaseOptions, findFeet, generateBase } from './base'
+import { type CutPlane, cutTriangles } from './cut'
+import { decimateTriangles } from './decimate'
+import { deflateRaw, deflateRawBlob } from './deflate'
+import { type DrainHole, hollowTriangles } from './hollow'
+import { type PlateOptions, layoutPlate } from './layout'
+import type { NameplateOptions } from './nameplate'
+import { type Orientation, type OrientationCandidate, findOrientations, rotateTriangles } from './orient'
+import { type PrintabilityReport, analyzePrintability } from './printability'
+import { packTriangles, repairTriangles, unpackTriangles } from './repair'
+import {
+  type Bounds,
+  type MiniatureScale,
+  type SizingOptions,
+  measureBounds,
+  measurePositions,
+  resolveScale,
+} from './sizing'
+import { solidifyTriangles } from './solidify'
+import { subdivideTriangles } from './subdivide'
+import { generateSupports } from './supports'
+import { thickenTriangles } from './thicken'
+
 // ============================================================
 // Type Declarations for HeroForge/RenderKit globals
 // ============================================================
@@ -24,24 +49,12 @@ declare const CK: {
 
 declare const RK: {
   Matrix4: new () => Matrix4
-  Vec3: new (x: number, y: number, z: number) => Vec3
 }
 
 // ============================================================
 // Type Definitions
 // ============================================================
 
-interface Vec3 {
-  x: number
-  y: number
-  z: number
-  clone(): Vec3
-  copy(v: Vec3): Vec3
-  applyMatrix4(m: Matrix4): Vec3
-  addScaledVector(v: Vec3, s: number): Vec3
-  divideScalar(s: number): Vec3
-}
-
 interface Matrix4 {
   elements: number[]
   copy(m: Matrix4): Matrix4
@@ -74,6 +87,8 @@ interface BufferGeometry {
 }
 
 interface Bone {
+  name?: string
+  parent?: Bone | null
   matrixWorld: Matrix4
   getMatrixWorld?(): Matrix4
   updateMatrixWorld(force: boolean): void
@@ -112,25 +127,312 @@ interface Triangle {
   v3: Vertex
 }
 
+type ExportFormat = 'stl' | '3mf' | 'obj' | 'glb'
+
+type UpAxis = 'y' | 'z'
+
 interface ExportOptions {
   filename?: string
   scale?: number
+  targetHeight?: number
+  miniatureScale?: MiniatureScale
+  eyeHeight?: number
+  baseDiameter?: number
   separateBase?: boolean
+  splitSlots?: boolean
+  format?: ExportFormat
+  sharedFrame?: boolean
+  centerXY?: boolean
+  upAxis?: UpAxis
+  groundOffset?: number
+  repair?: boolean
+  weldTolerance?: number
+  solidify?: boolean
+  voxelSize?: number
+  targetTriangles?: number
+  maxError?: number
+  subdivisions?: number
+  thicken?: boolean
+  hollow?: boolean
+  wallThickness?: number
+  drainHoleDiameter?: number
+  autoDrainHoles?: boolean
+  drainHoles?: DrainHole[]
+  generatedBase?: BaseOptions
+  nameplate?: NameplateOptions
+  cutPlanes?: CutPlane[]
+  pinDiameter?: number
+  pinLength?: number
+  pinTolerance?: number
+  checkPrintability?: boolean
+  minWallThickness?: number
+  overhangAngle?: number
+  orientation?: Orientation | 'auto'
+  supports?: boolean
+  supportTipDiameter?: number
+  supportSpacing?: number
+  supportRaft?: boolean
+  plate?: PlateOptions
+  meshOverrides?: Record<string, MeshOverride>
+  download?: boolean
+}
+
+interface CollectedMesh {
+  slotName: string
+  mesh: Mesh
+  isBase: boolean
+}
+
+/** Manual choice for one mesh, overriding the name-based heuristics */
+interface MeshOverride {
+  include?: boolean
+  isBase?: boolean
+}
+
+/** A mesh found on the character, listed for choosing what to export */
+interface MeshListing {
+  /** Slot name followed by the child index path, stable while the character is unchanged */
+  id: string
+  slotName: string
+  name: string
+  triangles: number
+  /** Whether the mesh is exported, after overrides */
+  included: boolean
+  isBase: boolean
+}
+
+interface FoundMesh extends MeshListing {
+  mesh: Mesh
 }
 
 interface CollectedMeshes {
   characterMeshes: Mesh[]
   baseMeshes: Mesh[]
+  entries: CollectedMesh[]
+  /** Exportable meshes left out by name or by override */
+  excluded: MeshListing[]
+}
+
+/** Posed geometry of one included mesh, copied off the scene so it can be sent to a worker */
+interface MeshSnapshot {
+  slotName: string
+  name: string
+  isBase: boolean
+  /** World positions, three per vertex */
+  positions: Float32Array
+  indices: Uint32Array | null
+}
+
+interface ExportPart {
+  name: string
+  slotName?: string
+  /** Base-only parts stay flat when the character is reoriented */
+  isBase?: boolean
+  /** Part held up by these supports, which stay with it on a build plate */
+  supportFor?: ExportPart
+  /** Triangle corners, nine floats per triangle */
+  positions: Float32Array
+  /** Triangles collected from HeroForge for the part, before any stage changed them; 0 for generated parts */
+  inputTriangles: number
+}
+
+/** Printability findings for one written part */
+interface PartPrintability extends PrintabilityReport {
+  part: string
+}
+
+interface ExportStats {
+  inputTriangles: number
+  outputTriangles: number
+  /** Scale factor applied to HeroForge units */
+  scale: number
+  /** Bounds of the written geometry in mm, or null for the unposed GLB */
+  boundingBox: Bounds | null
+  /** Source triangles dropped for invalid coordinates */
+  skippedTriangles: number
+  /** Printability findings per written part, empty when the check is off */
+  printability: PartPrintability[]
+  /** Print orientation applied to the character, or null when left as posed */
+  orientation: Orientation | null
+}
+
+type ExportStage = 'posing' | 'collecting' | 'placing' | 'finishing' | 'cutting' | 'checking' | 'supporting' | 'writing'
+
+/** How far a running export has got */
+interface ExportProgress {
+  stage: ExportStage
+  /** Share of the whole export done, from 0 to 1 */
+  fraction: number
+}
+
+/** Hooks for following and stopping a running export */
+interface ExportControl {
+  onProgress?: (progress: ExportProgress) => void
+  /** Aborting stops the export, which then resolves to null */
+  signal?: AbortSignal
+  /** Starts a worker running worker.ts; without one the export runs on the main thread, pausing between stages */
+  createWorker?: () => Worker
+}
+
+/** One written part, as it went into the files */
+interface ExportPartSummary {
+  name: string
+  slotName?: string
+  /** Triangles collected from HeroForge for the part, before any stage changed them */
+  inputTriangles: number
+  triangles: number
+  /** Bounds in mm, or null for the unposed GLB */
+  boundingBox: Bounds | null
+}
+
+type ExportWarningCode =
+  | 'excluded-meshes'
+  | 'skipped-triangles'
+  | 'sizing-ignored'
+  | 'base-adjusted'
+  | 'nameplate-skipped'
+  | 'voxel-size-grown'
+  | 'hollow-adjusted'
+  | 'non-manifold-edges'
+  | 'open-cut-outlines'
+  | 'walls-unchecked'
+  | 'thin-walls'
+  | 'floating-islands'
+  | 'overhangs'
+  | 'off-plate'
+
+/** Something the export worked around rather than failed on */
+interface ExportWarning {
+  code: ExportWarningCode
+  message: string
+}
+
+type ExportErrorCode = 'ck-not-found' | 'no-meshes' | 'cancelled' | 'export-failed'
+
+interface ExportError {
+  code: ExportErrorCode
+  message: string
+}
+
+interface ExportFile {
+  name: string
+  blob: Blob
+}
+
+/** The written files and what went into them */
+interface ExportOutput {
+  files: ExportFile[]
+  stats: ExportStats
+  parts: ExportPartSummary[]
+  warnings: ExportWarning[]
+}
+
+/** Outcome of exportCharacter; warnings are kept even when it fails */
+type ExportResult = ({ ok: true } & ExportOutput) | { ok: false; error: ExportError; warnings: ExportWarning[] }
+
+/** Sent to the export worker with everything it needs from the scene */
+interface ExportWorkerRequest {
+  snapshots: MeshSnapshot[]
+  options: ExportOptions
+}
+
+/** Sent back by the export worker */
+type ExportWorkerMessage =
+  | { type: 'ready' }
+  | { type: 'progress'; progress: ExportProgress }
+  | { type: 'done'; output: ExportOutput }
+  | { type: 'error'; message: string }
+
+/** One included mesh as it will be written, for previewing */
+interface PreviewMesh {
+  id: string
+  slotName: string
+  name: string
+  isBase: boolean
+  triangles: Triangle[]
+}
+
+interface PreviewScene {
+  meshes: PreviewMesh[]
+  /** Source triangles dropped for invalid coordinates, in the same frame */
+  skipped: Triangle[]
+  /** Bounds of the included meshes in mm */
+  boundingBox: Bounds | null
+  scale: number
+}
+
+/** Running count of source triangles, added to while collecting */
+interface TriangleCounter {
+  triangles: number
+}
+
+/** Per-mesh processing applied while collecting triangles */
+interface CollectOptions {
+  /** Loop subdivision steps */
+  subdivisions?: number
+  /** Thicken features thinner than this, in the units collected into */
+  minThickness?: number
+  /** Scale factor into Z-up output units, applied as positions are read; HeroForge units if not given */
+  scale?: number
+  /** Adds up the triangles dropped for invalid coordinates */
+  skipped?: TriangleCounter
+  /** Adds up the triangles kept, as read and before any thickening or subdivision */
+  collected?: TriangleCounter
+  /** Receives the dropped triangles whose coordinates are at least finite */
+  rejected?: Triangle[]
+}
+
+interface IndexedMesh {
+  vertices: number[]
+  indices: number[]
+}
+
+type GLBComponentArray = Float32Array | Uint16Array | Uint32Array
+
+type GLBAccessorType = 'SCALAR' | 'VEC3' | 'VEC4' | 'MAT4'
+
+interface GLBNode {
+  name?: string
+  mesh?: number
+  skin?: number
+  matrix?: number[]
+  scale?: number[]
+  children?: number[]
+}
+
+interface GLBPrimitive {
+  attributes: Record<string, number>
+  indices?: number
+  targets?: Record<string, number>[]
+}
+
+interface GLBMesh {
+  name?: string
+  primitives: GLBPrimitive[]
+  weights?: number[]
+}
+
+interface GLBSkin {
+  name?: string
+  joints: number[]
+  inverseBindMatrices: number
 }
 
 interface ZipFile {
   name: string
-  data: Uint8Array
+  data: Uint8Array | Blob
+  date: Date
 }
 
-interface LocalHeader {
-  header: ArrayBuffer
-  data: Uint8Array
+interface ZipEntry {
+  nameBytes: Uint8Array
+  data: Uint8Array | Blob
+  method: number
+  crc: number
+  size: number
+  compressedSize: number
+  time: number
+  date: number
   offset: number
 }
 
@@ -138,115 +440,210 @@ interface LocalHeader {
 // SimpleZip - Minimal ZIP library
 // ============================================================
 
+const ZIP32_LIMIT = 0xffffffff
+const ZIP16_LIMIT = 0xffff
+const ZIP_STORE = 0
+const ZIP_DEFLATE = 8
+
 /**
  * Simple ZIP file creator
- * Creates uncompressed ZIP files (STORE method)
+ * Deflates entries when that makes them smaller and switches to ZIP64
+ * records once sizes, offsets or the entry count overflow
  */
 class SimpleZip {
   private files: ZipFile[] = []
   private static _crc32Table: Uint32Array | null = null
 
-  addFile(name: string, data: ArrayBuffer): void {
-    this.files.push({ name, data: new Uint8Array(data) })
+  addFile(name: string, data: ArrayBuffer | Blob, date: Date = new Date()): void {
+    this.files.push({ name, data: data instanceof Blob ? data : new Uint8Array(data), date })
   }
 
-  generate(): ArrayBuffer {
-    const localHeaders: LocalHeader[] = []
-    const centralHeaders: ArrayBuffer[] = []
+  async generate(): Promise<Blob> {
+    const parts: BlobPart[] = []
+    const entries: ZipEntry[] = []
     let offset = 0
 
-    // Create local file headers and file data
+    // Compress and write local file headers and file data
     for (const file of this.files) {
-      const nameBytes = new TextEncoder().encode(file.name)
-      const localHeader = this._createLocalHeader(nameBytes, file.data)
-      localHeaders.push({ header: localHeader, data: file.data, offset })
-      offset += localHeader.byteLength + file.data.byteLength
+      const { time, date } = this._toDosDateTime(file.date)
+      const entry: ZipEntry = {
+        nameBytes: new TextEncoder().encode(file.name),
+        ...(file.data instanceof Blob ? await this._compressBlob(file.data) : await this._compress(file.data)),
+        time,
+        date,
+        offset,
+      }
+      entries.push(entry)
+
+      const localHeader = this._createLocalHeader(entry)
+      parts.push(localHeader, entry.data)
+      offset += localHeader.byteLength + entry.compressedSize
     }
 
     // Create central directory
     const centralStart = offset
-    for (let i = 0; i < this.files.length; i++) {
-      const file = this.files[i]
-      const nameBytes = new TextEncoder().encode(file.name)
-      const centralHeader = this._createCentralHeader(nameBytes, file.data, localHeaders[i].offset)
-      centralHeaders.push(centralHeader)
+    for (const entry of entries) {
+      const centralHeader = this._createCentralHeader(entry)
+      parts.push(centralHeader)
       offset += centralHeader.byteLength
     }
-    const centralEnd = offset
+    const centralSize = offset - centralStart
+
+    // Add ZIP64 end records when the classic fields cannot hold the values
+    if (entries.length >= ZIP16_LIMIT || centralSize >= ZIP32_LIMIT || centralStart >= ZIP32_LIMIT) {
+      parts.push(this._createZip64EOCD(entries.length, centralSize, centralStart))
+      parts.push(this._createZip64Locator(offset))
+    }
 
     // Create end of central directory
-    const eocd = this._createEOCD(this.files.length, centralEnd - centralStart, centralStart)
-    offset += eocd.byteLength
+    parts.push(this._createEOCD(entries.length, centralSize, centralStart))
 
-    // Combine all parts
-    const result = new Uint8Array(offset)
-    let pos = 0
+    return new Blob(parts, { type: 'application/zip' })
+  }
 
-    for (const local of localHeaders) {
-      result.set(new Uint8Array(local.header), pos)
-      pos += local.header.byteLength
-      result.set(local.data, pos)
-      pos += local.data.byteLength
+  private async _compress(
+    data: Uint8Array,
+  ): Promise<Pick<ZipEntry, 'data' | 'method' | 'crc' | 'size' | 'compressedSize'>> {
+    const deflated = await deflateRaw(data)
+    const useDeflate = deflated.byteLength < data.byteLength
+    const stored = useDeflate ? deflated : data
+    return {
+      data: stored,
+      method: useDeflate ? ZIP_DEFLATE : ZIP_STORE,
+      crc: this._crc32(data),
+      size: data.byteLength,
+      compressedSize: stored.byteLength,
     }
+  }
 
-    for (const central of centralHeaders) {
-      result.set(new Uint8Array(central), pos)
-      pos += central.byteLength
+  /**
+   * Blob entries are streamed for the checksum and compressed into another blob,
+   * so a large file is never copied into one buffer
+   */
+  private async _compressBlob(
+    data: Blob,
+  ): Promise<Pick<ZipEntry, 'data' | 'method' | 'crc' | 'size' | 'compressedSize'>> {
+    const reader = data.stream().getReader()
+    let crc = 0xffffffff
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      crc = this._updateCrc32(crc, chunk.value)
     }
 
-    result.set(new Uint8Array(eocd), pos)
-
-    return result.buffer
+    const deflated = await deflateRawBlob(data)
+    const useDeflate = deflated.size < data.size
+    const stored = useDeflate ? deflated : data
+    return {
+      data: stored,
+      method: useDeflate ? ZIP_DEFLATE : ZIP_STORE,
+      crc: (crc ^ 0xffffffff) >>> 0,
+      size: data.size,
+      compressedSize: stored.size,
+    }
   }
 
-  private _createLocalHeader(nameBytes: Uint8Array, data: Uint8Array): ArrayBuffer {
-    const header = new ArrayBuffer(30 + nameBytes.length)
+  private _createLocalHeader(entry: ZipEntry): ArrayBuffer {
+    const zip64 = entry.size >= ZIP32_LIMIT || entry.compressedSize >= ZIP32_LIMIT
+    const extraLength = zip64 ? 20 : 0
+    const header = new ArrayBuffer(30 + entry.nameBytes.length + extraLength)
     const view = new DataView(header)
 
     view.setUint32(0, 0x04034b50, true) // Local file header signature
-    view.setUint16(4, 20, true) // Version needed
+    view.setUint16(4, zip64 ? 45 : 20, true) // Version needed
     view.setUint16(6, 0, true) // General purpose bit flag
-    view.setUint16(8, 0, true) // Compression method (STORE)
-    view.setUint16(10, 0, true) // File last mod time
-    view.setUint16(12, 0, true) // File last mod date
-    view.setUint32(14, this._crc32(data), true) // CRC-32
-    view.setUint32(18, data.byteLength, true) // Compressed size
-    view.setUint32(22, data.byteLength, true) // Uncompressed size
-    view.setUint16(26, nameBytes.length, true) // File name length
-    view.setUint16(28, 0, true) // Extra field length
-
-    new Uint8Array(header).set(nameBytes, 30)
+    view.setUint16(8, entry.method, true) // Compression method
+    view.setUint16(10, entry.time, true) // File last mod time
+    view.setUint16(12, entry.date, true) // File last mod date
+    view.setUint32(14, entry.crc, true) // CRC-32
+    view.setUint32(18, zip64 ? ZIP32_LIMIT : entry.compressedSize, true) // Compressed size
+    view.setUint32(22, zip64 ? ZIP32_LIMIT : entry.size, true) // Uncompressed size
+    view.setUint16(26, entry.nameBytes.length, true) // File name length
+    view.setUint16(28, extraLength, true) // Extra field length
+
+    new Uint8Array(header).set(entry.nameBytes, 30)
+
+    if (zip64) {
+      const extra = 30 + entry.nameBytes.length
+      view.setUint16(extra, 0x0001, true) // ZIP64 extended information
+      view.setUint16(extra + 2, 16, true) // Size of this extra block
+      this._setUint64(view, extra + 4, entry.size) // Uncompressed size
+      this._setUint64(view, extra + 12, entry.compressedSize) // Compressed size
+    }
 
     return header
   }
 
-  private _createCentralHeader(nameBytes: Uint8Array, data: Uint8Array, localOffset: number): ArrayBuffer {
-    const header = new ArrayBuffer(46 + nameBytes.length)
+  private _createCentralHeader(entry: ZipEntry): ArrayBuffer {
+    // ZIP64 extra fields only carry the values that overflow, in this order
+    const zip64Values: number[] = []
+    if (entry.size >= ZIP32_LIMIT) zip64Values.push(entry.size)
+    if (entry.compressedSize >= ZIP32_LIMIT) zip64Values.push(entry.compressedSize)
+    if (entry.offset >= ZIP32_LIMIT) zip64Values.push(entry.offset)
+    const zip64 = zip64Values.length > 0
+    const extraLength = zip64 ? 4 + zip64Values.length * 8 : 0
+
+    const header = new ArrayBuffer(46 + entry.nameBytes.length + extraLength)
     const view = new DataView(header)
 
     view.setUint32(0, 0x02014b50, true) // Central directory signature
-    view.setUint16(4, 20, true) // Version made by
-    view.setUint16(6, 20, true) // Version needed
+    view.setUint16(4, zip64 ? 45 : 20, true) // Version made by
+    view.setUint16(6, zip64 ? 45 : 20, true) // Version needed
     view.setUint16(8, 0, true) // General purpose bit flag
-    view.setUint16(10, 0, true) // Compression method (STORE)
-    view.setUint16(12, 0, true) // File last mod time
-    view.setUint16(14, 0, true) // File last mod date
-    view.setUint32(16, this._crc32(data), true) // CRC-32
-    view.setUint32(20, data.byteLength, true) // Compressed size
-    view.setUint32(24, data.byteLength, true) // Uncompressed size
-    view.setUint16(28, nameBytes.length, true) // File name length
-    view.setUint16(30, 0, true) // Extra field length
+    view.setUint16(10, entry.method, true) // Compression method
+    view.setUint16(12, entry.time, true) // File last mod time
+    view.setUint16(14, entry.date, true) // File last mod date
+    view.setUint32(16, entry.crc, true) // CRC-32
+    view.setUint32(20, Math.min(entry.compressedSize, ZIP32_LIMIT), true) // Compressed size
+    view.setUint32(24, Math.min(entry.size, ZIP32_LIMIT), true) // Uncompressed size
+    view.setUint16(28, entry.nameBytes.length, true) // File name length
+    view.setUint16(30, extraLength, true) // Extra field length
     view.setUint16(32, 0, true) // File comment length
     view.setUint16(34, 0, true) // Disk number start
     view.setUint16(36, 0, true) // Internal file attributes
     view.setUint32(38, 0, true) // External file attributes
-    view.setUint32(42, localOffset, true) // Relative offset of local header
+    view.setUint32(42, Math.min(entry.offset, ZIP32_LIMIT), true) // Relative offset of local header
 
-    new Uint8Array(header).set(nameBytes, 46)
+    new Uint8Array(header).set(entry.nameBytes, 46)
+
+    if (zip64) {
+      const extra = 46 + entry.nameBytes.length
+      view.setUint16(extra, 0x0001, true) // ZIP64 extended information
+      view.setUint16(extra + 2, zip64Values.length * 8, true) // Size of this extra block
+      zip64Values.forEach((value, i) => this._setUint64(view, extra + 4 + i * 8, value))
+    }
 
     return header
   }
 
+  private _createZip64EOCD(numFiles: number, centralSize: number, centralOffset: number): ArrayBuffer {
+    const record = new ArrayBuffer(56)
+    const view = new DataView(record)
+
+    view.setUint32(0, 0x06064b50, true) // ZIP64 EOCD signature
+    this._setUint64(view, 4, 44) // Size of the remaining record
+    view.setUint16(12, 45, true) // Version made by
+    view.setUint16(14, 45, true) // Version needed
+    view.setUint32(16, 0, true) // Disk number
+    view.setUint32(20, 0, true) // Disk with central directory
+    this._setUint64(view, 24, numFiles) // Number of entries on this disk
+    this._setUint64(view, 32, numFiles) // Total number of entries
+    this._setUint64(view, 40, centralSize) // Size of central directory
+    this._setUint64(view, 48, centralOffset) // Offset of central directory
+
+    return record
+  }
+
+  private _createZip64Locator(recordOffset: number): ArrayBuffer {
+    const locator = new ArrayBuffer(20)
+    const view = new DataView(locator)
+
+    view.setUint32(0, 0x07064b50, true) // ZIP64 EOCD locator signature
+    view.setUint32(4, 0, true) // Disk with the ZIP64 EOCD record
+    this._setUint64(view, 8, recordOffset) // Offset of the ZIP64 EOCD record
+    view.setUint32(16, 1, true) // Total number of disks
+
+    return locator
+  }
+
   private _createEOCD(numFiles: number, centralSize: number, centralOffset: number): ArrayBuffer {
     const eocd = new ArrayBuffer(22)
     const view = new DataView(eocd)
@@ -254,24 +651,44 @@ class SimpleZip {
     view.setUint32(0, 0x06054b50, true) // EOCD signature
     view.setUint16(4, 0, true) // Disk number
     view.setUint16(6, 0, true) // Disk with central directory
-    view.setUint16(8, numFiles, true) // Number of entries on this disk
-    view.setUint16(10, numFiles, true) // Total number of entries
-    view.setUint32(12, centralSize, true) // Size of central directory
-    view.setUint32(16, centralOffset, true) // Offset of central directory
+    view.setUint16(8, Math.min(numFiles, ZIP16_LIMIT), true) // Number of entries on this disk
+    view.setUint16(10, Math.min(numFiles, ZIP16_LIMIT), true) // Total number of entries
+    view.setUint32(12, Math.min(centralSize, ZIP32_LIMIT), true) // Size of central directory
+    view.setUint32(16, Math.min(centralOffset, ZIP32_LIMIT), true) // Offset of central directory
     view.setUint16(20, 0, true) // Comment length
 
     return eocd
   }
 
+  private _setUint64(view: DataView, offset: number, value: number): void {
+    view.setUint32(offset, value % 0x100000000, true)
+    view.setUint32(offset + 4, Math.floor(value / 0x100000000), true)
+  }
+
+  /**
+   * Convert a date to MS-DOS time and date fields (local time, 2 second precision)
+   */
+  private _toDosDateTime(value: Date): { time: number; date: number } {
+    const year = Math.min(Math.max(value.getFullYear(), 1980), 2107)
+    return {
+      time: (value.getHours() << 11) | (value.getMinutes() << 5) | (value.getSeconds() >> 1),
+      date: ((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+    }
+  }
+
   private _crc32(data: Uint8Array): number {
-    let crc = 0xffffffff
+    return (this._updateCrc32(0xffffffff, data) ^ 0xffffffff) >>> 0
+  }
+
+  private _updateCrc32(crc: number, data: Uint8Array): number {
     const table = SimpleZip._crc32Table || (SimpleZip._crc32Table = this._makeCRCTable())
 
+    let value = crc
     for (let i = 0; i < data.length; i++) {
-      crc = (crc >>> 8) ^ table[(crc ^ data[i]) & 0xff]
+      value = (value >>> 8) ^ table[(value ^ data[i]) & 0xff]
     }
 
-    return (crc ^ 0xffffffff) >>> 0
+    return value
   }
 
   private _makeCRCTable(): Uint32Array {
@@ -288,115 +705,167 @@ class SimpleZip {
 }
 
 // ============================================================
-// Skinning and Mesh Processing Functions
+// SimpleGLB - Minimal glTF binary builder
 // ============================================================
 
 /**
- * Decode HeroForge skin weight encoding
- * From shader: abs(mod(weight + 1.0, 2.0) - 1.0)
- */
-function decodeWeight(encodedWeight: number): number {
-  const mod = (n: number, m: number): number => ((n % m) + m) % m
-  return Math.abs(mod(encodedWeight + 1, 2) - 1)
-}
-
-/**
- * Get bone matrix - computes skinMatrix (bone.matrixWorld * boneInverse)
+ * Simple glTF 2.0 binary (GLB) creator
+ * Packs all accessors into a single binary buffer
  */
-function getBoneMatrix(skeleton: Skeleton, boneIndex: number): Matrix4 {
-  const tempMatrix = new RK.Matrix4()
-
-  const maxBoneIndex = skeleton.bones ? skeleton.bones.length - 1 : -1
-  if (boneIndex < 0 || boneIndex > maxBoneIndex) {
-    return tempMatrix
+class SimpleGLB {
+  nodes: GLBNode[] = []
+  meshes: GLBMesh[] = []
+  skins: GLBSkin[] = []
+  private accessors: Record<string, unknown>[] = []
+  private bufferViews: Record<string, unknown>[] = []
+  private chunks: Uint8Array[] = []
+  private byteLength = 0
+
+  addNode(node: GLBNode): number {
+    this.nodes.push(node)
+    return this.nodes.length - 1
   }
 
-  const bone = skeleton.bones[boneIndex]
-  const boneInverse = skeleton.boneInverses ? skeleton.boneInverses[boneIndex] : null
+  addAccessor(data: GLBComponentArray, type: GLBAccessorType, target?: number, withBounds = false): number {
+    const components = { SCALAR: 1, VEC3: 3, VEC4: 4, MAT4: 16 }[type]
+    const componentType = data instanceof Float32Array ? 5126 : data instanceof Uint16Array ? 5123 : 5125
 
-  if (bone && boneInverse) {
-    const boneWorld = bone.matrixWorld || (bone.getMatrixWorld ? bone.getMatrixWorld() : null)
-    if (boneWorld) {
-      tempMatrix.copy(boneWorld)
-      tempMatrix.multiply(boneInverse)
-      return tempMatrix
+    const bufferView: Record<string, unknown> = { buffer: 0, byteOffset: this.byteLength, byteLength: data.byteLength }
+    if (target !== undefined) {
+      bufferView.target = target
+    }
+    this.bufferViews.push(bufferView)
+
+    const bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+    this.chunks.push(bytes)
+    this.byteLength += data.byteLength
+    const padding = (4 - (this.byteLength % 4)) % 4
+    if (padding > 0) {
+      this.chunks.push(new Uint8Array(padding))
+      this.byteLength += padding
     }
-  }
-
-  return tempMatrix
-}
-
-/**
- * Apply skinning to a vertex with a custom position (for morph targets)
- */
-function skinVertexWithPosition(mesh: Mesh, vertexIndex: number, x: number, y: number, z: number): Vec3 {
-  const geometry = mesh.geometry
-  const skeleton = mesh.skeleton
-  const position = new RK.Vec3(x, y, z)
 
-  const skinAttrs: BufferAttribute[] = []
-  for (let i = 0; i < 4; i++) {
-    const attr = geometry.attributes[`skin${i}`]
-    if (attr) {
-      skinAttrs.push(attr)
+    const accessor: Record<string, unknown> = {
+      bufferView: this.bufferViews.length - 1,
+      componentType,
+      count: data.length / components,
+      type,
     }
+    if (withBounds) {
+      const min = new Array(components).fill(Number.POSITIVE_INFINITY)
+      const max = new Array(components).fill(Number.NEGATIVE_INFINITY)
+      for (let i = 0; i < data.length; i++) {
+        const c = i % components
+        min[c] = Math.min(min[c], data[i])
+        max[c] = Math.max(max[c], data[i])
+      }
+      accessor.min = min
+      accessor.max = max
+    }
+    this.accessors.push(accessor)
+    return this.accessors.length - 1
   }
 
-  if (skinAttrs.length === 0 || !skeleton) {
-    position.applyMatrix4(mesh.matrixWorld)
-    return position
-  }
+  generate(rootNodes: number[]): ArrayBuffer {
+    const json: Record<string, unknown> = {
+      asset: { version: '2.0', generator: 'HeroForge Exporter' },
+      scene: 0,
+      scenes: [{ nodes: rootNodes }],
+      nodes: this.nodes,
+      meshes: this.meshes,
+      accessors: this.accessors,
+      bufferViews: this.bufferViews,
+      buffers: [{ byteLength: this.byteLength }],
+    }
+    if (this.skins.length > 0) {
+      json.skins = this.skins
+    }
 
-  const bindIsIdentity = isIdentityMatrix(mesh.bindMatrix)
+    const jsonBytes = new TextEncoder().encode(JSON.stringify(json))
+    const jsonLength = Math.ceil(jsonBytes.length / 4) * 4
+    const totalLength = 12 + 8 + jsonLength + 8 + this.byteLength
+
+    const result = new Uint8Array(totalLength)
+    const view = new DataView(result.buffer)
+
+    view.setUint32(0, 0x46546c67, true) // Magic "glTF"
+    view.setUint32(4, 2, true) // Version
+    view.setUint32(8, totalLength, true) // Total length
+
+    view.setUint32(12, jsonLength, true) // JSON chunk length
+    view.setUint32(16, 0x4e4f534a, true) // JSON chunk type
+    result.fill(0x20, 20, 20 + jsonLength)
+    result.set(jsonBytes, 20)
+
+    let pos = 20 + jsonLength
+    view.setUint32(pos, this.byteLength, true) // BIN chunk length
+    view.setUint32(pos + 4, 0x004e4942, true) // BIN chunk type
+    pos += 8
+    for (const chunk of this.chunks) {
+      result.set(chunk, pos)
+      pos += chunk.byteLength
+    }
 
-  const skinVert = position.clone()
-  if (!bindIsIdentity && mesh.bindMatrix) {
-    skinVert.applyMatrix4(mesh.bindMatrix)
+    return result.buffer
   }
+}
 
-  const skinned = new RK.Vec3(0, 0, 0)
-  let skinSum = 0
-
-  for (const skinAttr of skinAttrs) {
-    const boneIdx0 = Math.floor(skinAttr.getX(vertexIndex))
-    const weight0 = decodeWeight(skinAttr.getY(vertexIndex))
-    const boneIdx1 = Math.floor(skinAttr.getZ(vertexIndex))
-    const weight1 = decodeWeight(skinAttr.getW(vertexIndex))
-
-    if (weight0 > 0.0001) {
-      const boneMatrix = getBoneMatrix(skeleton, boneIdx0)
-      const transformed = skinVert.clone()
-      transformed.applyMatrix4(boneMatrix)
-      skinned.addScaledVector(transformed, weight0)
-      skinSum += weight0
-    }
+// ============================================================
+// Skinning and Mesh Processing Functions
+// ============================================================
 
-    if (weight1 > 0.0001) {
-      const boneMatrix = getBoneMatrix(skeleton, boneIdx1)
-      const transformed = skinVert.clone()
-      transformed.applyMatrix4(boneMatrix)
-      skinned.addScaledVector(transformed, weight1)
-      skinSum += weight1
-    }
-  }
+/**
+ * Decode HeroForge skin weight encoding
+ * From shader: abs(mod(weight + 1.0, 2.0) - 1.0)
+ */
+function decodeWeight(encodedWeight: number): number {
+  const mod = (n: number, m: number): number => ((n % m) + m) % m
+  return Math.abs(mod(encodedWeight + 1, 2) - 1)
+}
 
-  if (skinSum > 0.0001) {
-    skinned.divideScalar(skinSum)
-  } else {
-    skinned.copy(skinVert)
-  }
+/**
+ * World matrix of a bone, from its getter where the property is missing
+ */
+function boneMatrixWorld(bone: Bone): Matrix4 | null {
+  return bone.matrixWorld || (bone.getMatrixWorld ? bone.getMatrixWorld() : null)
+}
 
-  if (!bindIsIdentity && mesh.bindMatrixInverse) {
-    skinned.applyMatrix4(mesh.bindMatrixInverse)
-  }
+/**
+ * Compute the skin matrix (bone.matrixWorld * boneInverse) of every bone in a
+ * skeleton, 16 column-major elements per bone. Bones without matrices get the identity.
+ */
+function computeSkinMatrices(skeleton: Skeleton): Float64Array {
+  const bones = skeleton.bones || []
+  const matrices = new Float64Array(bones.length * 16)
+
+  bones.forEach((bone, boneIndex) => {
+    const boneInverse = skeleton.boneInverses ? skeleton.boneInverses[boneIndex] : null
+    const boneWorld = bone ? boneMatrixWorld(bone) : null
+    matrices.set(
+      boneWorld && boneInverse
+        ? multiplyMatrixElements(boneWorld.elements, boneInverse.elements)
+        : [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1],
+      boneIndex * 16,
+    )
+  })
+
+  return matrices
+}
 
-  return skinned
+/**
+ * Apply a column-major 4x4 matrix to a point, with perspective divide, writing into out
+ */
+function applyMatrixElements(e: number[], x: number, y: number, z: number, out: Float64Array): void {
+  const w = 1 / (e[3] * x + e[7] * y + e[11] * z + e[15])
+  out[0] = (e[0] * x + e[4] * y + e[8] * z + e[12]) * w
+  out[1] = (e[1] * x + e[5] * y + e[9] * z + e[13]) * w
+  out[2] = (e[2] * x + e[6] * y + e[10] * z + e[14]) * w
 }
 
 /**
  * Check if a matrix is identity (or close to it)
  */
-function isIdentityMatrix(matrix: Matrix4 | undefined): boolean {
+function isIdentityMatrix(matrix: Pick<Matrix4, 'elements'> | undefined): boolean {
   if (!matrix) return true
   const e = matrix.elements
   const epsilon = 0.0001
@@ -420,6 +889,150 @@ function isIdentityMatrix(matrix: Matrix4 | undefined): boolean {
   )
 }
 
+/**
+ * Multiply two column-major 4x4 matrices (a * b)
+ */
+function multiplyMatrixElements(a: number[], b: number[]): number[] {
+  const result = new Array<number>(16)
+  for (let col = 0; col < 4; col++) {
+    for (let row = 0; row < 4; row++) {
+      let sum = 0
+      for (let k = 0; k < 4; k++) {
+        sum += a[k * 4 + row] * b[col * 4 + k]
+      }
+      result[col * 4 + row] = sum
+    }
+  }
+  return result
+}
+
+/**
+ * Invert a column-major 4x4 matrix, returning identity if it is singular
+ */
+function invertMatrixElements(m: number[]): number[] {
+  const inv = new Array<number>(16)
+
+  inv[0] =
+    m[5] * m[10] * m[15] -
+    m[5] * m[11] * m[14] -
+    m[9] * m[6] * m[15] +
+    m[9] * m[7] * m[14] +
+    m[13] * m[6] * m[11] -
+    m[13] * m[7] * m[10]
+  inv[4] =
+    -m[4] * m[10] * m[15] +
+    m[4] * m[11] * m[14] +
+    m[8] * m[6] * m[15] -
+    m[8] * m[7] * m[14] -
+    m[12] * m[6] * m[11] +
+    m[12] * m[7] * m[10]
+  inv[8] =
+    m[4] * m[9] * m[15] -
+    m[4] * m[11] * m[13] -
+    m[8] * m[5] * m[15] +
+    m[8] * m[7] * m[13] +
+    m[12] * m[5] * m[11] -
+    m[12] * m[7] * m[9]
+  inv[12] =
+    -m[4] * m[9] * m[14] +
+    m[4] * m[10] * m[13] +
+    m[8] * m[5] * m[14] -
+    m[8] * m[6] * m[13] -
+    m[12] * m[5] * m[10] +
+    m[12] * m[6] * m[9]
+  inv[1] =
+    -m[1] * m[10] * m[15] +
+    m[1] * m[11] * m[14] +
+    m[9] * m[2] * m[15] -
+    m[9] * m[3] * m[14] -
+    m[13] * m[2] * m[11] +
+    m[13] * m[3] * m[10]
+  inv[5] =
+    m[0] * m[10] * m[15] -
+    m[0] * m[11] * m[14] -
+    m[8] * m[2] * m[15] +
+    m[8] * m[3] * m[14] +
+    m[12] * m[2] * m[11] -
+    m[12] * m[3] * m[10]
+  inv[9] =
+    -m[0] * m[9] * m[15] +
+    m[0] * m[11] * m[13] +
+    m[8] * m[1] * m[15] -
+    m[8] * m[3] * m[13] -
+    m[12] * m[1] * m[11] +
+    m[12] * m[3] * m[9]
+  inv[13] =
+    m[0] * m[9] * m[14] -
+    m[0] * m[10] * m[13] -
+    m[8] * m[1] * m[14] +
+    m[8] * m[2] * m[13] +
+    m[12] * m[1] * m[10] -
+    m[12] * m[2] * m[9]
+  inv[2] =
+    m[1] * m[6] * m[15] -
+    m[1] * m[7] * m[14] -
+    m[5] * m[2] * m[15] +
+    m[5] * m[3] * m[14] +
+    m[13] * m[2] * m[7] -
+    m[13] * m[3] * m[6]
+  inv[6] =
+    -m[0] * m[6] * m[15] +
+    m[0] * m[7] * m[14] +
+    m[4] * m[2] * m[15] -
+    m[4] * m[3] * m[14] -
+    m[12] * m[2] * m[7] +
+    m[12] * m[3] * m[6]
+  inv[10] =
+    m[0] * m[5] * m[15] -
+    m[0] * m[7] * m[13] -
+    m[4] * m[1] * m[15] +
+    m[4] * m[3] * m[13] +
+    m[12] * m[1] * m[7] -
+    m[12] * m[3] * m[5]
+  inv[14] =
+    -m[0] * m[5] * m[14] +
+    m[0] * m[6] * m[13] +
+    m[4] * m[1] * m[14] -
+    m[4] * m[2] * m[13] -
+    m[12] * m[1] * m[6] +
+    m[12] * m[2] * m[5]
+  inv[3] =
+    -m[1] * m[6] * m[11] +
+    m[1] * m[7] * m[10] +
+    m[5] * m[2] * m[11] -
+    m[5] * m[3] * m[10] -
+    m[9] * m[2] * m[7] +
+    m[9] * m[3] * m[6]
+  inv[7] =
+    m[0] * m[6] * m[11] -
+    m[0] * m[7] * m[10] -
+    m[4] * m[2] * m[11] +
+    m[4] * m[3] * m[10] +
+    m[8] * m[2] * m[7] -
+    m[8] * m[3] * m[6]
+  inv[11] =
+    -m[0] * m[5] * m[11] +
+    m[0] * m[7] * m[9] +
+    m[4] * m[1] * m[11] -
+    m[4] * m[3] * m[9] -
+    m[8] * m[1] * m[7] +
+    m[8] * m[3] * m[5]
+  inv[15] =
+    m[0] * m[5] * m[10] -
+    m[0] * m[6] * m[9] -
+    m[4] * m[1] * m[10] +
+    m[4] * m[2] * m[9] +
+    m[8] * m[1] * m[6] -
+    m[8] * m[2] * m[5]
+
+  const det = m[0] * inv[0] + m[1] * inv[4] + m[2] * inv[8] + m[3] * inv[12]
+  if (Math.abs(det) < 1e-12) {
+    return [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1]
+  }
+
+  return inv.map((value) => value / det)
+}
+
 /**
  * Check if a slot/mesh name indicates it's part of the base/pedestal
  */
@@ -437,16 +1050,23 @@ function isBaseMesh(slotName: string | undefined, meshName: string | undefined):
 }
 
 /**
- * Check if a mesh should be included in export
+ * Check if a mesh is visible geometry that can be exported at all
  */
-function shouldIncludeMesh(mesh: Mesh, slotName: string | undefined): boolean {
+function isExportableMesh(mesh: Mesh, slotName: string | undefined): boolean {
   if (!mesh || !mesh.geometry) return false
   if (!mesh.visible) return false
   if (slotName?.startsWith('_')) return false
   if (mesh.name === 'facePads' || mesh.name === '_debugPass') return false
 
   const posAttr = mesh.geometry.attributes.position
-  if (!posAttr || posAttr.count < 3) return false
+  return !!posAttr && posAttr.count >= 3
+}
+
+/**
+ * Check if a mesh should be included in export
+ */
+function shouldIncludeMesh(mesh: Mesh, slotName: string | undefined): boolean {
+  if (!isExportableMesh(mesh, slotName)) return false
 
   if (mesh.geometry.type === 'PlaneBufferGeometry' || mesh.geometry.type === 'PlaneGeometry') {
     return false
@@ -478,54 +1098,165 @@ function shouldIncludeMesh(mesh: Mesh, slotName: string | undefined): boolean {
 }
 
 /**
- * Collect all visible meshes, separated into character and base meshes
+ * Find every exportable mesh, deciding inclusion and base membership by name
+ * unless overridden
  */
-function collectMeshes(): CollectedMeshes {
-  const characterMeshes: Mesh[] = []
-  const baseMeshes: Mesh[] = []
+function findMeshes(overrides: Record<string, MeshOverride> = {}): FoundMesh[] {
+  const found: FoundMesh[] = []
   const display = CK.activeDisplay
 
   if (!display || !display.meshes) {
     console.error('No active display found.')
-    return { characterMeshes, baseMeshes }
+    return found
   }
 
-  function collectRecursive(object: Mesh, slotName: string | undefined): void {
+  function findRecursive(object: Mesh, slotName: string, id: string): void {
     if (!object) return
-    if ((object.isMesh || object.isSkinnedMesh) && shouldIncludeMesh(object, slotName)) {
-      if (isBaseMesh(slotName, object.name)) {
-        baseMeshes.push(object)
-      } else {
-        characterMeshes.push(object)
-      }
+    if ((object.isMesh || object.isSkinnedMesh) && isExportableMesh(object, slotName)) {
+      const override = overrides[id] ?? {}
+      const { index, attributes } = object.geometry
+      found.push({
+        id,
+        slotName,
+        name: object.name,
+        triangles: (index ? index.array.length : attributes.position.count) / 3,
+        included: override.include ?? shouldIncludeMesh(object, slotName),
+        isBase: override.isBase ?? isBaseMesh(slotName, object.name),
+        mesh: object,
+      })
     }
     if (object.children) {
-      for (const child of object.children) {
+      object.children.forEach((child, childIndex) => {
         if (child.name !== 'facePads' && child.name !== '_debugPass') {
-          collectRecursive(child, slotName)
+          findRecursive(child, slotName, `${id}/${childIndex}`)
         }
-      }
+      })
     }
   }
 
   for (const [slotName, mesh] of Object.entries(display.meshes)) {
     if (!mesh || slotName.startsWith('_')) continue
-    collectRecursive(mesh, slotName)
+    findRecursive(mesh, slotName, slotName)
+  }
+
+  return found
+}
+
+/**
+ * Collect all included meshes, separated into character and base meshes
+ */
+function collectMeshes(overrides: Record<string, MeshOverride> = {}): CollectedMeshes {
+  const characterMeshes: Mesh[] = []
+  const baseMeshes: Mesh[] = []
+  const entries: CollectedMesh[] = []
+  const excluded: MeshListing[] = []
+
+  for (const { mesh, ...listing } of findMeshes(overrides)) {
+    const { slotName, included, isBase } = listing
+    if (!included) {
+      excluded.push(listing)
+      continue
+    }
+    if (isBase) {
+      baseMeshes.push(mesh)
+    } else {
+      characterMeshes.push(mesh)
+    }
+    entries.push({ slotName, mesh, isBase })
   }
 
   console.log(`Collected ${characterMeshes.length} character meshes, ${baseMeshes.length} base meshes`)
-  return { characterMeshes, baseMeshes }
+  return { characterMeshes, baseMeshes, entries, excluded }
+}
+
+/**
+ * Group collected meshes into one part per HeroForge slot
+ * @param options - Processing for non-base meshes; base meshes are only scaled. Each part counts its own triangles.
+ */
+function collectSlotParts(meshes: MeshSnapshot[], options: CollectOptions = {}): ExportPart[] {
+  const slots = new Map<string, MeshSnapshot[]>()
+  const characterSlots = new Set<string>()
+  for (const mesh of meshes) {
+    const { slotName, isBase } = mesh
+    if (!isBase) characterSlots.add(slotName)
+    const slotMeshes = slots.get(slotName)
+    if (slotMeshes) {
+      slotMeshes.push(mesh)
+    } else {
+      slots.set(slotName, [mesh])
+    }
+  }
+
+  const parts: ExportPart[] = []
+  for (const [name, slotMeshes] of slots) {
+    const collected: TriangleCounter = { triangles: 0 }
+    const positions = concatPositions(
+      slotMeshes.map((mesh) =>
+        collectTriangles(
+          [mesh],
+          mesh.isBase ? { skipped: options.skipped, collected, scale: options.scale } : { ...options, collected },
+        ),
+      ),
+    )
+    if (positions.length > 0) {
+      parts.push({ name, isBase: !characterSlots.has(name), positions, inputTriangles: collected.triangles })
+    }
+  }
+  return parts
 }
 
-interface ExtractedGeometry {
-  positions: number[]
-  indices: ArrayLike<number> | null
+/**
+ * Collect one part per mesh, tagged with its HeroForge slot
+ * @param options - Processing for non-base meshes; base meshes are only scaled. Each part counts its own triangles.
+ */
+function collectMeshParts(meshes: MeshSnapshot[], options: CollectOptions = {}): ExportPart[] {
+  const parts: ExportPart[] = []
+  const slotCounts = new Map<string, number>()
+
+  for (const mesh of meshes) {
+    const { slotName, isBase } = mesh
+    const index = slotCounts.get(slotName) || 0
+    slotCounts.set(slotName, index + 1)
+
+    const collected: TriangleCounter = { triangles: 0 }
+    const positions = collectTriangles(
+      [mesh],
+      isBase ? { skipped: options.skipped, collected, scale: options.scale } : { ...options, collected },
+    )
+    if (positions.length > 0) {
+      parts.push({
+        name: mesh.name || `${slotName}_${index}`,
+        slotName,
+        isBase,
+        positions,
+        inputTriangles: collected.triangles,
+      })
+    }
+  }
+
+  // Keep the meshes of each slot together
+  const slotOrder = [...slotCounts.keys()]
+  return parts.sort((a, b) => slotOrder.indexOf(a.slotName ?? '') - slotOrder.indexOf(b.slotName ?? ''))
+}
+
+/**
+ * Copy the posed geometry of every collected mesh off the scene, so it can be
+ * processed anywhere without touching the scene again. Skin matrices are
+ * computed once per skeleton and shared by the meshes bound to it.
+ */
+function snapshotMeshes(entries: CollectedMesh[]): MeshSnapshot[] {
+  const skinMatrices = new Map<Skeleton, Float64Array>()
+  return entries.map((entry) => snapshotMesh(entry, skinMatrices))
 }
 
 /**
- * Extract posed geometry from a mesh
+ * Pose one mesh into flat position and index buffers
+ * @param skinMatrices - Skin matrices by skeleton, filled in as skeletons are first met
  */
-function extractMeshGeometry(mesh: Mesh): ExtractedGeometry {
+function snapshotMesh(
+  { slotName, mesh, isBase }: CollectedMesh,
+  skinMatrices: Map<Skeleton, Float64Array>,
+): MeshSnapshot {
   const geometry = mesh.geometry
   const positionAttr = geometry.attributes.position
   const count = positionAttr.count
@@ -545,10 +1276,27 @@ function extractMeshGeometry(mesh: Mesh): ExtractedGeometry {
   const hasMorphTargets = geometry.morphAttributes?.position && geometry.morphAttributes.position.length > 0
   const morphInfluences = mesh.morphTargetInfluences || []
 
-  const positions: number[] = []
-  const indices = geometry.index ? geometry.index.array : null
+  const positions = new Float32Array(count * 3)
+  const indices = geometry.index ? Uint32Array.from(geometry.index.array) : null
 
-  const isSkinnedMesh = mesh.isSkinnedMesh && mesh.skeleton && geometry.attributes.skin0
+  // Skinning inputs are gathered up front, so posing a vertex allocates nothing
+  let boneMatrices: Float64Array | null = null
+  const skinAttrs: BufferAttribute[] = []
+  if (mesh.isSkinnedMesh && mesh.skeleton && geometry.attributes.skin0) {
+    boneMatrices = skinMatrices.get(mesh.skeleton) ?? computeSkinMatrices(mesh.skeleton)
+    skinMatrices.set(mesh.skeleton, boneMatrices)
+    for (let i = 0; i < 4; i++) {
+      const attr = geometry.attributes[`skin${i}`]
+      if (attr) {
+        skinAttrs.push(attr)
+      }
+    }
+  }
+  const boneCount = boneMatrices ? boneMatrices.length / 16 : 0
+  const bindIsIdentity = isIdentityMatrix(mesh.bindMatrix)
+  const bind = !bindIsIdentity && mesh.bindMatrix ? mesh.bindMatrix.elements : null
+  const bindInverse = !bindIsIdentity && mesh.bindMatrixInverse ? mesh.bindMatrixInverse.elements : null
+  const vertex = new Float64Array(3)
 
   for (let i = 0; i < count; i++) {
     let baseX = positionAttr.getX(i)
@@ -568,195 +1316,1361 @@ function extractMeshGeometry(mesh: Mesh): ExtractedGeometry {
       }
     }
 
-    let vertex: Vec3
-
-    if (isSkinnedMesh) {
-      vertex = skinVertexWithPosition(mesh, i, baseX, baseY, baseZ)
+    if (!boneMatrices) {
+      applyMatrixElements(mesh.matrixWorld.elements, baseX, baseY, baseZ, vertex)
     } else {
-      vertex = new RK.Vec3(baseX, baseY, baseZ)
-      vertex.applyMatrix4(mesh.matrixWorld)
+      if (bind) {
+        applyMatrixElements(bind, baseX, baseY, baseZ, vertex)
+      } else {
+        vertex[0] = baseX
+        vertex[1] = baseY
+        vertex[2] = baseZ
+      }
+      const skinX = vertex[0]
+      const skinY = vertex[1]
+      const skinZ = vertex[2]
+
+      let skinnedX = 0
+      let skinnedY = 0
+      let skinnedZ = 0
+      let skinSum = 0
+
+      for (const skinAttr of skinAttrs) {
+        // Each attribute holds two bone index and weight pairs
+        for (let pair = 0; pair < 2; pair++) {
+          const boneIndex = Math.floor(pair === 0 ? skinAttr.getX(i) : skinAttr.getZ(i))
+          const weight = decodeWeight(pair === 0 ? skinAttr.getY(i) : skinAttr.getW(i))
+          if (weight <= 0.0001) continue
+          skinSum += weight
+
+          // Bones outside the skeleton leave the vertex where it is
+          if (boneIndex < 0 || boneIndex >= boneCount) {
+            skinnedX += skinX * weight
+            skinnedY += skinY * weight
+            skinnedZ += skinZ * weight
+            continue
+          }
+
+          // Skin matrices are affine, so there is no perspective divide
+          const e = boneIndex * 16
+          const m = boneMatrices
+          skinnedX += (m[e] * skinX + m[e + 4] * skinY + m[e + 8] * skinZ + m[e + 12]) * weight
+          skinnedY += (m[e + 1] * skinX + m[e + 5] * skinY + m[e + 9] * skinZ + m[e + 13]) * weight
+          skinnedZ += (m[e + 2] * skinX + m[e + 6] * skinY + m[e + 10] * skinZ + m[e + 14]) * weight
+        }
+      }
+
+      if (skinSum > 0.0001) {
+        skinnedX /= skinSum
+        skinnedY /= skinSum
+        skinnedZ /= skinSum
+      } else {
+        skinnedX = skinX
+        skinnedY = skinY
+        skinnedZ = skinZ
+      }
+
+      if (bindInverse) {
+        applyMatrixElements(bindInverse, skinnedX, skinnedY, skinnedZ, vertex)
+      } else {
+        vertex[0] = skinnedX
+        vertex[1] = skinnedY
+        vertex[2] = skinnedZ
+      }
     }
 
-    positions.push(vertex.x, vertex.y, vertex.z)
+    positions[i * 3] = vertex[0]
+    positions[i * 3 + 1] = vertex[1]
+    positions[i * 3 + 2] = vertex[2]
   }
 
-  return { positions, indices }
+  return { slotName, name: mesh.name, isBase, positions, indices }
 }
 
 /**
- * Check if a vertex has valid coordinates
+ * Check if a vertex in a position buffer has valid coordinates
  */
-function isValidVertex(v: Vertex): boolean {
+function isValidPosition(positions: Float32Array, index: number): boolean {
   const MAX_COORD = 100
-  return Math.abs(v.x) < MAX_COORD && Math.abs(v.y) < MAX_COORD && Math.abs(v.z) < MAX_COORD
+  return (
+    Math.abs(positions[index * 3]) < MAX_COORD &&
+    Math.abs(positions[index * 3 + 1]) < MAX_COORD &&
+    Math.abs(positions[index * 3 + 2]) < MAX_COORD
+  )
 }
 
 /**
- * Merge mesh geometries into triangles
+ * Join packed triangle buffers into one
  */
-function collectTriangles(meshes: Mesh[]): Triangle[] {
-  const allTriangles: Triangle[] = []
-  let skippedTriangles = 0
-
-  for (const mesh of meshes) {
-    const { positions, indices } = extractMeshGeometry(mesh)
+function concatPositions(buffers: Float32Array[]): Float32Array {
+  if (buffers.length === 1) return buffers[0]
+
+  const positions = new Float32Array(buffers.reduce((sum, buffer) => sum + buffer.length, 0))
+  let offset = 0
+  for (const buffer of buffers) {
+    positions.set(buffer, offset)
+    offset += buffer.length
+  }
+  return positions
+}
 
-    const getVertex = (idx: number): Vertex => ({
-      x: positions[idx * 3],
-      y: positions[idx * 3 + 1],
-      z: positions[idx * 3 + 2],
-    })
+/**
+ * Merge posed mesh geometries into packed triangles, nine floats per triangle
+ * @param options.subdivisions - Loop subdivision steps applied to each mesh before merging (default: 0)
+ * @param options.minThickness - Thicken each mesh where it is thinner than this, before subdividing (default: off)
+ * @param options.scale - Scale into Z-up output units while reading the buffers (default: HeroForge units)
+ * @param options.skipped - Adds up the triangles dropped for invalid coordinates
+ * @param options.collected - Adds up the triangles kept, before thickening or subdivision
+ * @param options.rejected - Receives the dropped triangles that can still be drawn
+ */
+function collectTriangles(meshes: MeshSnapshot[], options: CollectOptions = {}): Float32Array {
+  const { subdivisions = 0, minThickness = 0, scale, skipped, collected, rejected } = options
+  const buffers: Float32Array[] = []
+  let skippedTriangles = 0
+  let keptTriangles = 0
+  let thickenedMeshes = 0
+
+  for (const { positions, indices } of meshes) {
+    const triangleCount = indices ? Math.floor(indices.length / 3) : Math.floor(positions.length / 9)
+    const meshPositions = new Float32Array(triangleCount * 9)
+    let kept = 0
+
+    // Output units are Z up, so HeroForge's (x, y, z) becomes (x, -z, y)
+    const getVertex =
+      scale === undefined
+        ? (idx: number): Vertex => ({
+            x: positions[idx * 3],
+            y: positions[idx * 3 + 1],
+            z: positions[idx * 3 + 2],
+          })
+        : (idx: number): Vertex => ({
+            x: positions[idx * 3] * scale,
+            y: -positions[idx * 3 + 2] * scale,
+            z: positions[idx * 3 + 1] * scale,
+          })
+
+    const writeVertex = (idx: number, offset: number): void => {
+      if (scale === undefined) {
+        meshPositions[offset] = positions[idx * 3]
+        meshPositions[offset + 1] = positions[idx * 3 + 1]
+        meshPositions[offset + 2] = positions[idx * 3 + 2]
+      } else {
+        meshPositions[offset] = positions[idx * 3] * scale
+        meshPositions[offset + 1] = -positions[idx * 3 + 2] * scale
+        meshPositions[offset + 2] = positions[idx * 3 + 1] * scale
+      }
+    }
 
     const addTriangle = (i0: number, i1: number, i2: number): void => {
-      const v1 = getVertex(i0)
-      const v2 = getVertex(i1)
-      const v3 = getVertex(i2)
-
-      if (!isValidVertex(v1) || !isValidVertex(v2) || !isValidVertex(v3)) {
+      if (!isValidPosition(positions, i0) || !isValidPosition(positions, i1) || !isValidPosition(positions, i2)) {
         skippedTriangles++
+        // Only the few dropped triangles are turned into objects
+        const corners = [getVertex(i0), getVertex(i1), getVertex(i2)]
+        if (rejected && corners.every((v) => Number.isFinite(v.x + v.y + v.z))) {
+          rejected.push({ v1: corners[0], v2: corners[1], v3: corners[2] })
+        }
         return
       }
 
-      allTriangles.push({ v1, v2, v3 })
+      writeVertex(i0, kept * 9)
+      writeVertex(i1, kept * 9 + 3)
+      writeVertex(i2, kept * 9 + 6)
+      kept++
     }
 
     if (indices) {
-      for (let i = 0; i < indices.length; i += 3) {
+      for (let i = 0; i + 2 < indices.length; i += 3) {
         addTriangle(indices[i], indices[i + 1], indices[i + 2])
       }
     } else {
-      const vertCount = positions.length / 3
-      for (let i = 0; i < vertCount; i += 3) {
+      for (let i = 0; i < triangleCount * 3; i += 3) {
         addTriangle(i, i + 1, i + 2)
       }
     }
+
+    keptTriangles += kept
+    const meshTriangles = kept < triangleCount ? meshPositions.slice(0, kept * 9) : meshPositions
+    if (minThickness <= 0 && subdivisions <= 0) {
+      buffers.push(meshTriangles)
+      continue
+    }
+
+    // Thin features grow on their own mesh, so nothing else around them moves
+    const thickened = thickenTriangles(unpackTriangles(meshTriangles), { minThickness })
+    if (thickened.vertices > 0) thickenedMeshes++
+
+    buffers.push(packTriangles(subdivideTriangles(thickened.triangles, { iterations: subdivisions })))
   }
 
   if (skippedTriangles > 0) {
     console.warn(`Skipped ${skippedTriangles} triangles with invalid coordinates`)
   }
+  if (skipped) skipped.triangles += skippedTriangles
+  if (collected) collected.triangles += keptTriangles
 
-  return allTriangles
-}
+  if (thickenedMeshes > 0) {
+    console.log(`Thickened thin features in ${thickenedMeshes} of ${meshes.length} meshes`)
+  }
+
+  return buffers.length === 0 ? new Float32Array(0) : concatPositions(buffers)
+}
 
 /**
- * Transform triangles to match HeroForge orientation and scale
+ * Move packed triangles together so their lowest point sits the ground offset above the ground plane
  */
-function transformTriangles(triangles: Triangle[], scale: number): Triangle[] {
-  // Transform to match HeroForge orientation (Z up)
-  for (const tri of triangles) {
-    for (const v of [tri.v1, tri.v2, tri.v3]) {
-      const oldY = v.y
-      const oldZ = v.z
-      v.y = -oldZ * scale
-      v.z = oldY * scale
-      v.x = v.x * scale
+function groundTriangles(buffers: Float32Array[], groundOffset: number): void {
+  const bounds = measurePositions(buffers)
+  if (!bounds) return
+
+  const zOffset = -bounds.min.z + groundOffset
+  for (const positions of buffers) {
+    for (let i = 2; i < positions.length; i += 3) {
+      positions[i] += zOffset
     }
   }
+}
 
-  // Move to ground plane
-  let minZ = Number.POSITIVE_INFINITY
-  for (const tri of triangles) {
-    for (const v of [tri.v1, tri.v2, tri.v3]) {
-      minZ = Math.min(minZ, v.z)
+/**
+ * Move packed triangles together so their bounding box is centred on the XY origin
+ */
+function centerTriangles(buffers: Float32Array[]): void {
+  const bounds = measurePositions(buffers)
+  if (!bounds) return
+
+  const xOffset = -(bounds.min.x + bounds.max.x) / 2
+  const yOffset = -(bounds.min.y + bounds.max.y) / 2
+  for (const positions of buffers) {
+    for (let i = 0; i + 1 < positions.length; i += 3) {
+      positions[i] += xOffset
+      positions[i + 1] += yOffset
     }
   }
+}
 
-  const zOffset = -minZ + 2.5
-  for (const tri of triangles) {
-    for (const v of [tri.v1, tri.v2, tri.v3]) {
-      v.z += zOffset
+/**
+ * Turn Z-up packed triangles to Y up, with the figure facing +Z
+ */
+function toYUp(buffers: Float32Array[]): void {
+  for (const positions of buffers) {
+    for (let i = 0; i + 2 < positions.length; i += 3) {
+      const oldY = positions[i + 1]
+      positions[i + 1] = positions[i + 2]
+      positions[i + 2] = -oldY
+    }
+  }
+}
+
+// Triangles written per STL chunk, about 800 KB each
+const STL_CHUNK_TRIANGLES = 16384
+
+/**
+ * Generate binary STL from packed triangles, written in chunks so no single
+ * buffer has to hold the whole file
+ */
+function trianglesToSTL(positions: Float32Array, headerText = 'HeroForge Export'): Blob {
+  const triangleCount = Math.floor(positions.length / 9)
+  const header = new ArrayBuffer(84)
+  const headerView = new DataView(header)
+
+  for (let i = 0; i < 80; i++) {
+    headerView.setUint8(i, i < headerText.length ? headerText.charCodeAt(i) : 0)
+  }
+
+  headerView.setUint32(80, triangleCount, true)
+
+  const chunks: BlobPart[] = [header]
+
+  for (let start = 0; start < triangleCount; start += STL_CHUNK_TRIANGLES) {
+    const end = Math.min(start + STL_CHUNK_TRIANGLES, triangleCount)
+    const chunk = new ArrayBuffer((end - start) * 50)
+    const dataView = new DataView(chunk)
+    let offset = 0
+
+    for (let t = start * 9; t < end * 9; t += 9) {
+      // Face normal
+      const ax = positions[t + 3] - positions[t]
+      const ay = positions[t + 4] - positions[t + 1]
+      const az = positions[t + 5] - positions[t + 2]
+      const bx = positions[t + 6] - positions[t]
+      const by = positions[t + 7] - positions[t + 1]
+      const bz = positions[t + 8] - positions[t + 2]
+      let nx = ay * bz - az * by
+      let ny = az * bx - ax * bz
+      let nz = ax * by - ay * bx
+      const len = Math.sqrt(nx * nx + ny * ny + nz * nz)
+      if (len > 0) {
+        nx /= len
+        ny /= len
+        nz /= len
+      }
+
+      dataView.setFloat32(offset, nx, true)
+      dataView.setFloat32(offset + 4, ny, true)
+      dataView.setFloat32(offset + 8, nz, true)
+      offset += 12
+
+      for (let i = 0; i < 9; i++) {
+        dataView.setFloat32(offset, positions[t + i], true)
+        offset += 4
+      }
+
+      dataView.setUint16(offset, 0, true)
+      offset += 2
+    }
+
+    chunks.push(chunk)
+  }
+
+  return new Blob(chunks, { type: 'application/octet-stream' })
+}
+
+/**
+ * Convert packed triangles into shared vertices and indices.
+ * Vertices with identical coordinates are merged.
+ */
+function indexTriangles(positions: Float32Array): IndexedMesh {
+  const vertices: number[] = []
+  const indices: number[] = []
+  const lookup = new Map<string, number>()
+
+  for (let i = 0; i + 2 < positions.length; i += 3) {
+    const key = `${positions[i]},${positions[i + 1]},${positions[i + 2]}`
+    let index = lookup.get(key)
+    if (index === undefined) {
+      index = vertices.length / 3
+      vertices.push(positions[i], positions[i + 1], positions[i + 2])
+      lookup.set(key, index)
     }
+    indices.push(index)
   }
 
-  return triangles
+  return { vertices, indices }
+}
+
+/**
+ * Make a slot or mesh name safe to use in a filename
+ */
+function toFileSafeName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_-]+/g, '_')
+}
+
+/**
+ * Escape a string for use in an XML attribute
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
 }
 
 /**
- * Calculate face normal
+ * Generate a 3MF package with one named object per part.
+ * Coordinates are written in millimetres and every part keeps its placement.
  */
-function calculateNormal(v1: Vertex, v2: Vertex, v3: Vertex): Vertex {
-  const ax = v2.x - v1.x
-  const ay = v2.y - v1.y
-  const az = v2.z - v1.z
-  const bx = v3.x - v1.x
-  const by = v3.y - v1.y
-  const bz = v3.z - v1.z
+function partsTo3MF(parts: ExportPart[], title = 'HeroForge Export'): Promise<Blob> {
+  const encoder = new TextEncoder()
+  const resources: string[] = []
+  const items: string[] = []
+
+  parts.forEach((part, i) => {
+    const id = i + 1
+    const { vertices, indices } = indexTriangles(part.positions)
+    const lines: string[] = []
+
+    lines.push(`    <object id="${id}" type="model" name="${escapeXml(part.name)}">`)
+    lines.push('      <mesh>')
+    lines.push('        <vertices>')
+    for (let v = 0; v < vertices.length; v += 3) {
+      lines.push(
+        `          <vertex x="${vertices[v].toFixed(4)}" y="${vertices[v + 1].toFixed(4)}" z="${vertices[v + 2].toFixed(4)}" />`,
+      )
+    }
+    lines.push('        </vertices>')
+    lines.push('        <triangles>')
+    for (let t = 0; t < indices.length; t += 3) {
+      // Merging can collapse tiny triangles, which 3MF does not allow
+      if (indices[t] === indices[t + 1] || indices[t + 1] === indices[t + 2] || indices[t] === indices[t + 2]) {
+        continue
+      }
+      lines.push(`          <triangle v1="${indices[t]}" v2="${indices[t + 1]}" v3="${indices[t + 2]}" />`)
+    }
+    lines.push('        </triangles>')
+    lines.push('      </mesh>')
+    lines.push('    </object>')
+
+    resources.push(lines.join('\n'))
+    items.push(`    <item objectid="${id}" />`)
+  })
+
+  const model = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<model unit="millimeter" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">',
+    `  <metadata name="Title">${escapeXml(title)}</metadata>`,
+    '  <metadata name="Application">HeroForge Exporter</metadata>',
+    '  <resources>',
+    ...resources,
+    '  </resources>',
+    '  <build>',
+    ...items,
+    '  </build>',
+    '</model>',
+  ].join('\n')
+
+  const contentTypes = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+    '  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml" />',
+    '  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml" />',
+    '</Types>',
+  ].join('\n')
+
+  const rels = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+    '  <Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel" />',
+    '</Relationships>',
+  ].join('\n')
+
+  const zip = new SimpleZip()
+  zip.addFile('[Content_Types].xml', encoder.encode(contentTypes).buffer)
+  zip.addFile('_rels/.rels', encoder.encode(rels).buffer)
+  zip.addFile('3D/3dmodel.model', encoder.encode(model).buffer)
+  return zip.generate()
+}
+
+/**
+ * Generate a Wavefront OBJ with an object per slot and a group per mesh.
+ * Vertices are shared within each mesh, and indices are global to the file.
+ */
+function partsToOBJ(parts: ExportPart[], headerText = 'HeroForge Export'): ArrayBuffer {
+  const objName = (name: string): string => name.replace(/\s+/g, '_')
+  const lines: string[] = [`# ${headerText}`, '# Units: millimeters']
+  let vertexOffset = 1
+  let currentSlot: string | undefined
+
+  for (const part of parts) {
+    const slotName = part.slotName ?? part.name
+    if (slotName !== currentSlot) {
+      lines.push(`o ${objName(slotName)}`)
+      currentSlot = slotName
+    }
+
+    const { vertices, indices } = indexTriangles(part.positions)
 
-  let nx = ay * bz - az * by
-  let ny = az * bx - ax * bz
-  let nz = ax * by - ay * bx
+    lines.push(`g ${objName(slotName)}/${objName(part.name)}`)
+    for (let v = 0; v < vertices.length; v += 3) {
+      lines.push(`v ${vertices[v].toFixed(4)} ${vertices[v + 1].toFixed(4)} ${vertices[v + 2].toFixed(4)}`)
+    }
+    for (let t = 0; t < indices.length; t += 3) {
+      if (indices[t] === indices[t + 1] || indices[t + 1] === indices[t + 2] || indices[t] === indices[t + 2]) {
+        continue
+      }
+      lines.push(`f ${indices[t] + vertexOffset} ${indices[t + 1] + vertexOffset} ${indices[t + 2] + vertexOffset}`)
+    }
 
-  const len = Math.sqrt(nx * nx + ny * ny + nz * nz)
-  if (len > 0) {
-    nx /= len
-    ny /= len
-    nz /= len
+    vertexOffset += vertices.length / 3
   }
 
-  return { x: nx, y: ny, z: nz }
+  lines.push('')
+  return new TextEncoder().encode(lines.join('\n')).buffer
 }
 
 /**
- * Generate binary STL
+ * Read a buffer attribute into a tightly packed Float32Array
  */
-function trianglesToSTL(triangles: Triangle[], headerText = 'HeroForge Export'): ArrayBuffer {
-  const triangleCount = triangles.length
-  const bufferLength = 80 + 4 + triangleCount * 50
-  const buffer = new ArrayBuffer(bufferLength)
-  const dataView = new DataView(buffer)
+function attributeToFloat32(attr: BufferAttribute, itemSize: 3 | 4): Float32Array {
+  const data = new Float32Array(attr.count * itemSize)
+  for (let i = 0; i < attr.count; i++) {
+    data[i * itemSize] = attr.getX(i)
+    data[i * itemSize + 1] = attr.getY(i)
+    data[i * itemSize + 2] = attr.getZ(i)
+    if (itemSize === 4) {
+      data[i * itemSize + 3] = attr.getW(i)
+    }
+  }
+  return data
+}
 
-  for (let i = 0; i < 80; i++) {
-    dataView.setUint8(i, i < headerText.length ? headerText.charCodeAt(i) : 0)
+/**
+ * Build JOINTS_n/WEIGHTS_n attributes from the HeroForge skin0..skin3 attributes.
+ * Each skin attribute holds two (bone index, encoded weight) pairs per vertex.
+ */
+function buildSkinAttributes(
+  geometry: BufferGeometry,
+  boneCount: number,
+): { joints: Uint16Array[]; weights: Float32Array[] } | null {
+  const skinAttrs: BufferAttribute[] = []
+  for (let i = 0; i < 4; i++) {
+    const attr = geometry.attributes[`skin${i}`]
+    if (attr) {
+      skinAttrs.push(attr)
+    }
+  }
+  if (skinAttrs.length === 0) return null
+
+  const count = geometry.attributes.position.count
+  const setCount = Math.ceil((skinAttrs.length * 2) / 4)
+  const joints = Array.from({ length: setCount }, () => new Uint16Array(count * 4))
+  const weights = Array.from({ length: setCount }, () => new Float32Array(count * 4))
+
+  for (let v = 0; v < count; v++) {
+    const influences: [number, number][] = []
+    for (const skinAttr of skinAttrs) {
+      influences.push([Math.floor(skinAttr.getX(v)), decodeWeight(skinAttr.getY(v))])
+      influences.push([Math.floor(skinAttr.getZ(v)), decodeWeight(skinAttr.getW(v))])
+    }
+
+    let sum = 0
+    for (const influence of influences) {
+      if (influence[0] < 0 || influence[0] >= boneCount || influence[1] <= 0.0001) {
+        influence[0] = 0
+        influence[1] = 0
+      }
+      sum += influence[1]
+    }
+
+    // glTF requires weights to sum to one, so unweighted vertices follow the first bone
+    if (sum <= 0.0001) {
+      influences[0] = [0, 1]
+      sum = 1
+    }
+
+    influences.forEach(([bone, weight], slot) => {
+      const set = Math.floor(slot / 4)
+      joints[set][v * 4 + (slot % 4)] = bone
+      weights[set][v * 4 + (slot % 4)] = weight / sum
+    })
+  }
+
+  return { joints, weights }
+}
+
+/**
+ * Generate a rigged GLB from the unposed meshes.
+ * Keeps skeletons, inverse bind matrices, skin weights, morph targets and the
+ * current morph influences, so the character can be re-posed in a DCC tool.
+ * Units are metres: one millimetre at the given scale is 0.001.
+ */
+function meshesToGLB(entries: CollectedMesh[], scale: number): ArrayBuffer {
+  const glb = new SimpleGLB()
+  const rootIndex = glb.addNode({ name: 'HeroForge', scale: [scale / 1000, scale / 1000, scale / 1000], children: [] })
+  const rootChildren: number[] = []
+  const boneNodes = new Map<Bone, number>()
+
+  // Create one node per bone, shared between meshes using the same skeleton
+  for (const { mesh } of entries) {
+    if (!mesh.isSkinnedMesh || !mesh.skeleton?.bones) continue
+    for (const bone of mesh.skeleton.bones) {
+      if (!bone || boneNodes.has(bone)) continue
+      boneNodes.set(bone, glb.addNode({ name: bone.name || `bone_${boneNodes.size}` }))
+    }
+  }
+
+  // Bones without world matrices are taken to sit at the root, as when skinning
+  const identity = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1]
+  for (const [bone, nodeIndex] of boneNodes) {
+    const node = glb.nodes[nodeIndex]
+    const world = boneMatrixWorld(bone)?.elements ?? identity
+    const parent = bone.parent ? boneNodes.get(bone.parent) : undefined
+
+    if (bone.parent && parent !== undefined) {
+      const parentWorld = boneMatrixWorld(bone.parent)?.elements ?? identity
+      node.matrix = multiplyMatrixElements(invertMatrixElements(parentWorld), world)
+      const parentNode = glb.nodes[parent]
+      parentNode.children = [...(parentNode.children || []), nodeIndex]
+    } else {
+      node.matrix = [...world]
+      rootChildren.push(nodeIndex)
+    }
+
+    if (isIdentityMatrix({ elements: node.matrix })) {
+      node.matrix = undefined
+    }
+  }
+
+  // Bones missing from a skeleton share one joint that never moves from the root,
+  // given an identity inverse bind so its vertices keep their bind pose
+  let unboundJoint: number | undefined
+  const jointFor = (bone: Bone | undefined): number => {
+    const nodeIndex = bone ? boneNodes.get(bone) : undefined
+    if (nodeIndex !== undefined) return nodeIndex
+    if (unboundJoint === undefined) {
+      unboundJoint = glb.addNode({ name: 'unbound' })
+      rootChildren.push(unboundJoint)
+    }
+    return unboundJoint
+  }
+
+  for (const { slotName, mesh } of entries) {
+    const geometry = mesh.geometry
+    const attributes: Record<string, number> = {
+      POSITION: glb.addAccessor(attributeToFloat32(geometry.attributes.position, 3), 'VEC3', 34962, true),
+    }
+    const primitive: GLBPrimitive = { attributes }
+    const gltfMesh: GLBMesh = { name: mesh.name || slotName, primitives: [primitive] }
+    const node: GLBNode = { name: mesh.name || slotName }
+
+    if (geometry.index) {
+      primitive.indices = glb.addAccessor(Uint32Array.from(geometry.index.array), 'SCALAR', 34963)
+    }
+
+    const morphPositions = geometry.morphAttributes?.position
+    if (morphPositions && morphPositions.length > 0) {
+      primitive.targets = morphPositions.map((morphAttr) => ({
+        POSITION: glb.addAccessor(attributeToFloat32(morphAttr, 3), 'VEC3', 34962, true),
+      }))
+      gltfMesh.weights = morphPositions.map((_, m) => mesh.morphTargetInfluences?.[m] || 0)
+    }
+
+    const skeleton = mesh.skeleton
+    const skin = mesh.isSkinnedMesh && skeleton ? buildSkinAttributes(geometry, skeleton.bones.length) : null
+
+    if (skeleton && skin) {
+      skin.joints.forEach((joints, set) => {
+        attributes[`JOINTS_${set}`] = glb.addAccessor(joints, 'VEC4', 34962)
+        attributes[`WEIGHTS_${set}`] = glb.addAccessor(skin.weights[set], 'VEC4', 34962)
+      })
+
+      // glTF skins have no bind matrix, so fold it into the inverse bind matrices
+      const bindMatrix = isIdentityMatrix(mesh.bindMatrix) ? null : mesh.bindMatrix?.elements
+      const inverseBindMatrices = new Float32Array(skeleton.bones.length * 16)
+      skeleton.bones.forEach((bone, b) => {
+        const boneInverse = (bone && boneNodes.has(bone) && skeleton.boneInverses?.[b]?.elements) || [
+          1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1,
+        ]
+        inverseBindMatrices.set(bindMatrix ? multiplyMatrixElements(boneInverse, bindMatrix) : boneInverse, b * 16)
+      })
+
+      glb.skins.push({
+        name: node.name,
+        joints: skeleton.bones.map(jointFor),
+        inverseBindMatrices: glb.addAccessor(inverseBindMatrices, 'MAT4'),
+      })
+      node.skin = glb.skins.length - 1
+    } else if (!isIdentityMatrix(mesh.matrixWorld)) {
+      node.matrix = [...mesh.matrixWorld.elements]
+    }
+
+    glb.meshes.push(gltfMesh)
+    node.mesh = glb.meshes.length - 1
+    rootChildren.push(glb.addNode(node))
+  }
+
+  glb.nodes[rootIndex].children = rootChildren
+  return glb.generate([rootIndex])
+}
+
+/**
+ * Resolve real-world size targets into a scale factor for the collected meshes
+ * @param warn - Receives the sizing targets that had to be ignored (default: the console)
+ */
+function resolveOutputScale(
+  meshes: MeshSnapshot[],
+  sizing: SizingOptions,
+  warn: (message: string) => void = console.warn,
+): number {
+  const { scale = 10, targetHeight, miniatureScale, eyeHeight, baseDiameter } = sizing
+  if (targetHeight === undefined && !miniatureScale && eyeHeight === undefined && baseDiameter === undefined) {
+    return scale
+  }
+
+  const { scale: outputScale, warnings } = resolveScale(
+    {
+      character: collectTriangles(meshes.filter((mesh) => !mesh.isBase)),
+      base: collectTriangles(meshes.filter((mesh) => mesh.isBase)),
+      head: collectTriangles(meshes.filter((mesh) => !mesh.isBase && /head/i.test(mesh.slotName))),
+    },
+    sizing,
+  )
+  for (const message of warnings) warn(message)
+  console.log(`Resolved scale: ${outputScale.toFixed(3)}x`)
+  return outputScale
+}
+
+/**
+ * Score print orientations of the posed character on its own, best first
+ */
+function rankOrientations(
+  characterMeshes: MeshSnapshot[],
+  scale: number,
+  overhangAngle: number,
+): OrientationCandidate[] {
+  const positions = collectTriangles(characterMeshes, { scale })
+  groundTriangles([positions], 0)
+  return findOrientations(unpackTriangles(positions), { overhangAngle })
+}
+
+/**
+ * Build a generated base under the transformed character parts. Pegs are merged
+ * into the part that owns each foot; the base is returned with its top at the
+ * feet, centred where the HeroForge base was or under the feet.
+ * @param warn - Receives the base options that could not be met in full
+ */
+function placeGeneratedBase(
+  parts: ExportPart[],
+  options: BaseOptions,
+  heroforgeBase: MeshSnapshot[],
+  scale: number,
+  warn: (message: string) => void,
+  nameplate?: NameplateOptions,
+): Float32Array {
+  const feet = findFeet(parts.map((part) => unpackTriangles(part.positions)))
+  if (feet.length === 0) return new Float32Array(0)
+
+  // Grounding only moves parts up and down, so the pedestal's centre lines up with them
+  const original = measurePositions([collectTriangles(heroforgeBase, { scale })])
+  const center = original
+    ? { x: (original.min.x + original.max.x) / 2, y: (original.min.y + original.max.y) / 2 }
+    : {
+        x: feet.reduce((sum, foot) => sum + foot.x, 0) / feet.length,
+        y: feet.reduce((sum, foot) => sum + foot.y, 0) / feet.length,
+      }
+
+  const generated = generateBase(options, center, feet, nameplate)
+  for (const message of generated.warnings) warn(message)
+  const positions = packTriangles(generated.triangles)
+  const top = measurePositions([positions])?.max.z ?? 0
+  const ground = Math.min(...feet.map((foot) => foot.z))
+  const lift = (buffer: Float32Array): void => {
+    for (let i = 2; i < buffer.length; i += 3) {
+      buffer[i] += ground - top
+    }
+  }
+
+  lift(positions)
+  for (const peg of generated.pegs) {
+    const pegPositions = packTriangles(peg.triangles)
+    lift(pegPositions)
+    const part = parts[peg.foot.part]
+    part.positions = concatPositions([part.positions, pegPositions])
+  }
+
+  console.log(
+    `Generated base: ${generated.triangles.length} triangles, ${generated.pegs.length} pegs on ${feet.length} feet`,
+  )
+  if (generated.nameplate) {
+    const { letterHeight, placement } = generated.nameplate
+    console.log(`Nameplate: ${letterHeight.toFixed(1)}mm letters on the ${placement}`)
+  }
+  return positions
+}
+
+// Share of a part's surface that has to overhang before an export warns about it
+const OVERHANG_WARNING_SHARE = 0.05
+
+/**
+ * Describe where a printability finding is
+ */
+function near({ x, y, z }: Vertex): string {
+  return `near (${x.toFixed(1)}, ${y.toFixed(1)}, ${z.toFixed(1)})`
+}
+
+// Share of the whole export taken by each stage, in the order they run
+const STAGE_WEIGHTS: Record<ExportStage, number> = {
+  posing: 0.05,
+  collecting: 0.15,
+  placing: 0.1,
+  finishing: 0.3,
+  cutting: 0.05,
+  checking: 0.15,
+  supporting: 0.05,
+  writing: 0.15,
+}
+
+/**
+ * Turn a stage and how much of it is done into the share of the whole export done
+ */
+function stageProgress(stage: ExportStage, done: number): ExportProgress {
+  let fraction = 0
+  for (const [name, weight] of Object.entries(STAGE_WEIGHTS)) {
+    if (name === stage) return { stage, fraction: fraction + weight * Math.min(Math.max(done, 0), 1) }
+    fraction += weight
+  }
+  return { stage, fraction }
+}
+
+/**
+ * Run everything after posing on the snapshots: collecting, transforms, clean-up,
+ * printability, supports and writing the file. Touches neither the scene nor the
+ * page, so it runs the same in the export worker and on the main thread.
+ * @param options - Export options as for exportCharacter
+ * @param onProgress - Called at the start of every stage and part; may return a promise to wait on
+ */
+export async function runExport(
+  snapshots: MeshSnapshot[],
+  options: ExportOptions,
+  onProgress: (progress: ExportProgress) => void | Promise<void>,
+): Promise<ExportOutput> {
+  const {
+    filename = 'heroforge-character',
+    scale = 10,
+    targetHeight,
+    miniatureScale,
+    eyeHeight,
+    baseDiameter,
+    separateBase = true,
+    splitSlots = false,
+    format = 'stl',
+    sharedFrame = false,
+    centerXY = false,
+    upAxis = 'z',
+    groundOffset = 2.5,
+    repair = false,
+    weldTolerance = 0.001,
+    solidify = false,
+    voxelSize = 0.2,
+    targetTriangles,
+    maxError,
+    subdivisions = 0,
+    thicken = false,
+    hollow = false,
+    wallThickness = 2,
+    drainHoleDiameter = 3,
+    autoDrainHoles = true,
+    drainHoles = [],
+    generatedBase,
+    nameplate,
+    cutPlanes = [],
+    pinDiameter = 4,
+    pinLength = 4,
+    pinTolerance = 0.2,
+    checkPrintability = true,
+    minWallThickness = 0.8,
+    overhangAngle = 60,
+    orientation,
+    supports = false,
+    supportTipDiameter = 0.4,
+    supportSpacing = 2.5,
+    supportRaft = true,
+    plate,
+  } = options
+
+  const progress = (stage: ExportStage, done = 0): void | Promise<void> => onProgress(stageProgress(stage, done))
+
+  // Warnings still go to the console, and are handed back with the files
+  const warnings: ExportWarning[] = []
+  const warn = (code: ExportWarningCode, message: string): void => {
+    console.warn(message)
+    warnings.push({ code, message })
+  }
+
+  await progress('collecting')
+  const outputScale = resolveOutputScale(
+    snapshots,
+    { scale, targetHeight, miniatureScale, eyeHeight, baseDiameter },
+    (message) => warn('sizing-ignored', message),
+  )
+  const characterMeshes = snapshots.filter((mesh) => !mesh.isBase)
+  const baseMeshes = snapshots.filter((mesh) => mesh.isBase)
+
+  // A generated base replaces the HeroForge pedestal, which is only used to place it
+  const sourceMeshes = generatedBase ? characterMeshes : snapshots
+  const sourceBaseMeshes = generatedBase ? [] : baseMeshes
+  const hasBase = generatedBase !== undefined || baseMeshes.length > 0
+
+  // Collect the parts that end up as separate files or objects
+  let parts: ExportPart[]
+  const skipped: TriangleCounter = { triangles: 0 }
+  const characterOptions: CollectOptions = {
+    subdivisions,
+    minThickness: thicken ? minWallThickness : 0,
+    scale: outputScale,
+    skipped,
+  }
+  const commonFrame = sharedFrame || format === '3mf' || format === 'obj'
+  // Slots split into files of their own still go back together, so they keep their places on one floor
+  const alignedParts = commonFrame || splitSlots
+  const zipOutput = format === 'stl' && (splitSlots || (separateBase && hasBase) || cutPlanes.length > 0 || supports)
+
+  if (format === '3mf' || (format === 'stl' && splitSlots)) {
+    parts = collectSlotParts(sourceMeshes, characterOptions)
+  } else if (format === 'obj') {
+    parts = collectMeshParts(sourceMeshes, characterOptions)
+  } else if (separateBase && hasBase) {
+    const character: TriangleCounter = { triangles: 0 }
+    const base: TriangleCounter = { triangles: 0 }
+    const characterPositions = collectTriangles(characterMeshes, { ...characterOptions, collected: character })
+    const basePositions = collectTriangles(sourceBaseMeshes, { skipped, collected: base, scale: outputScale })
+    parts = [
+      { name: 'Character', positions: characterPositions, inputTriangles: character.triangles },
+      { name: 'Base', isBase: true, positions: basePositions, inputTriangles: base.triangles },
+    ].filter((part) => part.positions.length > 0)
+  } else {
+    const collected: TriangleCounter = { triangles: 0 }
+    const positions = concatPositions([
+      collectTriangles(characterMeshes, { ...characterOptions, collected }),
+      collectTriangles(sourceBaseMeshes, { skipped, collected, scale: outputScale }),
+    ])
+    parts = [{ name: 'Model', positions, inputTriangles: collected.triangles }]
+  }
+  const inputTriangles = parts.reduce((sum, part) => sum + part.inputTriangles, 0)
+
+  await progress('placing')
+
+  // Aligned parts are grounded as one; other separate files are grounded on their own unless asked not to
+  const groundParts = (grounded: ExportPart[]): void => {
+    if (alignedParts) {
+      groundTriangles(
+        grounded.map((part) => part.positions),
+        groundOffset,
+      )
+    } else {
+      for (const part of grounded) {
+        groundTriangles([part.positions], groundOffset)
+      }
+    }
+  }
+  groundParts(parts)
+
+  if (nameplate && !generatedBase) {
+    warn('nameplate-skipped', 'Nameplate text needs a generated base, skipping it')
+  }
+
+  if (generatedBase) {
+    console.log('Generating base...')
+    const basePositions = placeGeneratedBase(
+      parts,
+      generatedBase,
+      baseMeshes,
+      outputScale,
+      (message) => warn('base-adjusted', message),
+      nameplate,
+    )
+
+    if (parts.length === 1 && parts[0].name === 'Model') {
+      parts[0].positions = concatPositions([parts[0].positions, basePositions])
+      groundTriangles([parts[0].positions], groundOffset)
+    } else {
+      // Slot parts are named after their slot, everything else gets a display name
+      const slotParts = format === '3mf' || (format === 'stl' && splitSlots)
+      parts.push({
+        name: slotParts ? 'base' : 'Base',
+        slotName: format === 'obj' ? 'base' : undefined,
+        isBase: true,
+        positions: basePositions,
+        inputTriangles: 0,
+      })
+      groundParts(parts)
+    }
+  }
+
+  // Turn the character to its print orientation before anything depends on which way is down
+  const printOrientation =
+    orientation === 'auto'
+      ? (rankOrientations(characterMeshes, outputScale, overhangAngle)[0]?.orientation ?? null)
+      : (orientation ?? null)
+  if (printOrientation) {
+    console.log(`Orienting for print: tilt ${printOrientation.tilt}°, spin ${printOrientation.spin}°`)
+
+    // A separate base stays flat, unless every part has to share one frame
+    const turned = commonFrame ? parts : parts.filter((part) => !part.isBase)
+    const bounds = measurePositions(turned.map((part) => part.positions))
+    if (bounds) {
+      const center = {
+        x: (bounds.min.x + bounds.max.x) / 2,
+        y: (bounds.min.y + bounds.max.y) / 2,
+        z: (bounds.min.z + bounds.max.z) / 2,
+      }
+      for (const part of turned) {
+        part.positions = packTriangles(rotateTriangles(unpackTriangles(part.positions), printOrientation, center))
+      }
+      groundParts(turned)
+    }
+  }
+
+  // The triangle budget is shared between parts in proportion to their size as they reach clean-up
+  const finishingTriangles = parts.reduce((sum, part) => sum + part.positions.length / 9, 0)
+  const budgetRatio = targetTriangles !== undefined ? Math.min(targetTriangles / finishingTriangles, 1) : 1
+
+  const simplify = targetTriangles !== undefined || maxError !== undefined
+
+  // Final clean-up stages, run on transformed triangles before they are written
+  // Large parts get coarser voxels so the grid stays within memory
+  const warnVoxelSize = (used: number, label: string): void => {
+    if (used > voxelSize) {
+      warn('voxel-size-grown', `${label}: voxel grid too large, used ${used.toFixed(3)} voxels instead of ${voxelSize}`)
+    }
+  }
+
+  const finishTriangles = (input: Float32Array, label: string): Float32Array => {
+    const inputCount = input.length / 9
+    if (inputCount === 0 || (!hollow && !solidify && !simplify && !repair)) return input
+
+    // The clean-up stages work on triangle objects, so parts are unpacked one at a time
+    let triangles: Triangle[]
+    if (hollow) {
+      const result = hollowTriangles(input, {
+        wallThickness,
+        voxelSize,
+        holeDiameter: drainHoleDiameter,
+        autoDrainHoles,
+        drainHoles,
+      })
+      console.log(
+        `${label}: hollowed ${inputCount} -> ${result.triangles.length} triangles ` +
+          `(${result.cavities} cavities, ${result.drainHoles} drain holes, ` +
+          `${result.dimensions.join('x')} voxels of ${result.voxelSize.toFixed(3)})`,
+      )
+      for (const message of result.warnings) warn('hollow-adjusted', `${label}: ${message}`)
+      warnVoxelSize(result.voxelSize, label)
+      triangles = result.triangles
+    } else if (solidify) {
+      const result = solidifyTriangles(input, { voxelSize })
+      console.log(
+        `${label}: solidified ${inputCount} -> ${result.triangles.length} triangles ` +
+          `(${result.dimensions.join('x')} voxels of ${result.voxelSize.toFixed(3)})`,
+      )
+      warnVoxelSize(result.voxelSize, label)
+      triangles = result.triangles
+    } else {
+      triangles = unpackTriangles(input)
+    }
+
+    if (simplify && triangles.length > 0) {
+      const result = decimateTriangles(triangles, {
+        targetTriangles: targetTriangles !== undefined ? Math.ceil(inputCount * budgetRatio) : undefined,
+        maxError,
+        weldTolerance,
+      })
+      console.log(`${label}: simplified ${result.inputTriangles} -> ${result.outputTriangles} triangles`)
+      triangles = result.triangles
+    }
+
+    if (!repair) return packTriangles(triangles)
+
+    const { triangles: repaired, report } = repairTriangles(triangles, { weldTolerance })
+    console.log(
+      `${label}: repaired ${report.inputTriangles} -> ${report.outputTriangles} triangles ` +
+        `(${report.degenerateRemoved} degenerate, ${report.duplicatesRemoved} duplicate, ` +
+        `${report.flippedTriangles} flipped, ${report.holesFilled}/${report.boundaryLoops} holes filled)`,
+    )
+    if (report.nonManifoldEdges > 0) {
+      warn('non-manifold-edges', `${label}: ${report.nonManifoldEdges} non-manifold edges remain`)
+    }
+    return packTriangles(repaired)
+  }
+
+  for (const [index, part] of parts.entries()) {
+    await progress('finishing', index / parts.length)
+    const label = part.slotName ? `${part.slotName}/${part.name}` : part.name
+    part.positions = finishTriangles(part.positions, label)
+    console.log(`${label}: ${part.positions.length / 9} triangles`)
+  }
+
+  // A remeshed surface comes out of the voxel grid a little off the ground
+  if (hollow || solidify) groundParts(parts)
+
+  // Cut pieces replace their part and are written as parts of their own
+  if (cutPlanes.length > 0) {
+    await progress('cutting')
+    parts = parts.flatMap((part) => {
+      const label = part.slotName ? `${part.slotName}/${part.name}` : part.name
+      const result = cutTriangles(unpackTriangles(part.positions), {
+        planes: cutPlanes,
+        pinDiameter,
+        pinLength,
+        tolerance: pinTolerance,
+      })
+      console.log(`${label}: cut into ${result.pieces.length} pieces (${result.caps} caps, ${result.pins} pins)`)
+      if (result.openLoops > 0) {
+        warn(
+          'open-cut-outlines',
+          `${label}: ${result.openLoops} cut outlines are open and left uncapped, try solidify or repair`,
+        )
+      }
+      if (result.pieces.length <= 1) return [part]
+      // The part's count stays with its first piece, so the counts still add up to the total
+      return result.pieces.map((triangles, index) => ({
+        name: `${part.name} piece ${index + 1}`,
+        slotName: part.slotName,
+        isBase: part.isBase,
+        positions: packTriangles(triangles),
+        inputTriangles: index === 0 ? part.inputTriangles : 0,
+      }))
+    })
+  }
+
+  // Check what will actually be printed, at its physical size
+  const printability: PartPrintability[] = []
+  if (checkPrintability) {
+    console.log('Checking printability...')
+    for (const [index, part] of parts.entries()) {
+      await progress('checking', index / parts.length)
+      const label = part.slotName ? `${part.slotName}/${part.name}` : part.name
+      const report = analyzePrintability(part.positions, { minWallThickness, overhangAngle })
+      printability.push({ part: label, ...report })
+
+      if (!report.wallsChecked && part.positions.length > 0) {
+        warn('walls-unchecked', `${label}: too large to check wall thickness at ${report.voxelSize.toFixed(3)} voxels`)
+      }
+      if (report.thinRegions.length > 0) {
+        const [thinnest] = report.thinRegions
+        warn(
+          'thin-walls',
+          `${label}: ${report.thinRegions.length} walls under ${minWallThickness} mm, ` +
+            `thinnest ${thinnest.thickness.toFixed(2)} mm ${near(thinnest.center)}`,
+        )
+      }
+      for (const { center, volume } of report.floatingIslands) {
+        warn('floating-islands', `${label}: floating island of ${volume.toFixed(1)} mm³ ${near(center)}`)
+      }
+      // Some overhang is normal for a figure, only call out a large share
+      const share = report.surfaceArea > 0 ? report.overhangArea / report.surfaceArea : 0
+      if (share >= OVERHANG_WARNING_SHARE) {
+        warn('overhangs', `${label}: ${Math.round(share * 100)}% of the surface overhangs more than ${overhangAngle}°`)
+      } else if (report.overhangArea > 0) {
+        console.log(
+          `${label}: ${report.overhangArea.toFixed(0)} of ${report.surfaceArea.toFixed(0)} surface overhangs ` +
+            `more than ${overhangAngle}°`,
+        )
+      }
+    }
+  }
+
+  // Supports go on last, as bodies of their own so they can be removed after printing
+  if (supports) {
+    await progress('supporting')
+    console.log('Generating supports...')
+    const supportOptions = {
+      tipDiameter: supportTipDiameter,
+      spacing: supportSpacing,
+      overhangAngle,
+      raft: supportRaft,
+      ground: groundOffset,
+    }
+
+    // A shared frame is raised as a whole, otherwise every part but the base gets its own supports
+    const supported = commonFrame
+      ? [{ name: 'supports', slotName: format === 'obj' ? 'supports' : undefined, supportFor: undefined, of: parts }]
+      : parts
+          .filter((part) => !part.isBase)
+          .map((part) => ({ name: `${part.name} supports`, slotName: part.slotName, supportFor: part, of: [part] }))
+
+    for (const { name, slotName, supportFor, of } of supported) {
+      const result = generateSupports(
+        of.flatMap((part) => unpackTriangles(part.positions)),
+        supportOptions,
+      )
+      // Supports raise unpacked copies, so the packed parts are raised to match
+      for (const part of of) {
+        for (let i = 2; i < part.positions.length; i += 3) {
+          part.positions[i] += result.lift
+        }
+      }
+      console.log(`${name}: ${result.tips} tips on ${result.trunks} trunks`)
+      if (result.triangles.length > 0) {
+        parts.push({ name, slotName, supportFor, positions: packTriangles(result.triangles), inputTriangles: 0 })
+      }
+    }
+  }
+
+  // Supports move together with the part they hold up
+  const groups = parts
+    .filter((part) => !part.supportFor)
+    .map((part) => [part, ...parts.filter((other) => other.supportFor === part)])
+
+  // Separately grounded parts would overlap at the origin, so the plate spreads them out
+  let platePositions: Float32Array | null = null
+  if (zipOutput && plate && parts.length > 1) {
+    const layout = layoutPlate(
+      groups.map((group) => group.map((part) => part.positions)),
+      plate,
+    )
+    console.log(`Plate: ${groups.length - layout.offPlate} of ${groups.length} parts laid out`)
+    if (layout.offPlate > 0) {
+      warn('off-plate', `${layout.offPlate} parts do not fit on the plate and were placed past its far edge`)
+    }
+    platePositions = layout.positions
   }
 
-  dataView.setUint32(80, triangleCount, true)
+  // Final placement in the written files, applied to whole groups so aligned parts stay aligned
+  // Drain holes and cut planes were placed before this, in the grounded Z-up frame
+  if (centerXY) {
+    for (const group of alignedParts ? [parts] : groups) {
+      centerTriangles(group.map((part) => part.positions))
+    }
+  }
+  if (upAxis === 'y') {
+    toYUp(parts.map((part) => part.positions))
+    if (platePositions) toYUp([platePositions])
+  }
 
-  let offset = 84
+  const outputTriangles = parts.reduce((sum, part) => sum + part.positions.length / 9, 0)
+  console.log(`Total triangles: ${inputTriangles} -> ${outputTriangles}`)
 
-  for (const tri of triangles) {
-    const normal = calculateNormal(tri.v1, tri.v2, tri.v3)
+  const boundingBox = measurePositions(parts.map((part) => part.positions))
+  if (boundingBox) {
+    const { min, max } = boundingBox
+    console.log(
+      `Bounding box: ${(max.x - min.x).toFixed(1)} x ${(max.y - min.y).toFixed(1)} x ${(max.z - min.z).toFixed(1)} mm`,
+    )
+  }
 
-    dataView.setFloat32(offset, normal.x, true)
-    offset += 4
-    dataView.setFloat32(offset, normal.y, true)
-    offset += 4
-    dataView.setFloat32(offset, normal.z, true)
-    offset += 4
+  // Collecting already logged each batch of dropped triangles
+  if (skipped.triangles > 0) {
+    warnings.push({
+      code: 'skipped-triangles',
+      message: `Skipped ${skipped.triangles} triangles with invalid coordinates`,
+    })
+  }
 
-    dataView.setFloat32(offset, tri.v1.x, true)
-    offset += 4
-    dataView.setFloat32(offset, tri.v1.y, true)
-    offset += 4
-    dataView.setFloat32(offset, tri.v1.z, true)
-    offset += 4
+  const summaries: ExportPartSummary[] = parts.map((part) => ({
+    name: part.name,
+    slotName: part.slotName,
+    inputTriangles: part.inputTriangles,
+    triangles: part.positions.length / 9,
+    boundingBox: measurePositions([part.positions]),
+  }))
+
+  await progress('writing')
+  const stats: ExportStats = {
+    inputTriangles,
+    outputTriangles,
+    scale: outputScale,
+    boundingBox,
+    skippedTriangles: skipped.triangles,
+    printability,
+    orientation: printOrientation,
+  }
+  const output = (name: string, blob: Blob): ExportOutput => ({
+    files: [{ name, blob }],
+    stats,
+    parts: summaries,
+    warnings,
+  })
+
+  if (format === '3mf') {
+    // Export every slot as its own object, all sharing one coordinate frame
+    return output(`${filename}.3mf`, await partsTo3MF(parts, filename))
+  }
 
-    dataView.setFloat32(offset, tri.v2.x, true)
-    offset += 4
-    dataView.setFloat32(offset, tri.v2.y, true)
-    offset += 4
-    dataView.setFloat32(offset, tri.v2.z, true)
-    offset += 4
+  if (format === 'obj') {
+    // Export every slot as an object, with a group per mesh
+    return output(`${filename}.obj`, new Blob([partsToOBJ(parts)], { type: 'text/plain' }))
+  }
 
-    dataView.setFloat32(offset, tri.v3.x, true)
-    offset += 4
-    dataView.setFloat32(offset, tri.v3.y, true)
-    offset += 4
-    dataView.setFloat32(offset, tri.v3.z, true)
-    offset += 4
+  if (zipOutput) {
+    // Export as ZIP with separate files
+    const zip = new SimpleZip()
 
-    dataView.setUint16(offset, 0, true)
-    offset += 2
+    // Distinct slots can share a file name once lowercased and made safe, so later ones get a number
+    const usedNames = new Set(platePositions ? ['plate'] : [])
+    const entryName = (name: string): string => {
+      const base = toFileSafeName(name.toLowerCase())
+      let unique = base
+      for (let n = 2; usedNames.has(unique); n++) unique = `${base}-${n}`
+      usedNames.add(unique)
+      return unique
+    }
+
+    for (const part of parts) {
+      const partSTL = trianglesToSTL(part.positions, `HeroForge ${part.name}`)
+      zip.addFile(`${filename}-${entryName(part.name)}.stl`, partSTL)
+    }
+
+    if (platePositions) {
+      zip.addFile(`${filename}-plate.stl`, trianglesToSTL(platePositions, 'HeroForge plate'))
+    }
+
+    return output(`${filename}.zip`, await zip.generate())
   }
 
-  return buffer
+  // Export as single STL (combine all meshes)
+  return output(`${filename}.stl`, trianglesToSTL(parts[0].positions))
+}
+
+/**
+ * Run the export in a worker, forwarding its progress and terminating it when
+ * cancelled. Resolves to null if the worker could not start, so the caller can
+ * export on the main thread instead.
+ */
+function exportInWorker(
+  createWorker: () => Worker,
+  request: ExportWorkerRequest,
+  control: ExportControl,
+): Promise<ExportOutput | null> {
+  const { onProgress, signal } = control
+
+  return new Promise((resolve, reject) => {
+    // An abort event never fires again for a signal that has already been aborted
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+
+    let worker: Worker
+    try {
+      worker = createWorker()
+    } catch (error) {
+      console.warn('Could not start the export worker, exporting on the page instead:', error)
+      resolve(null)
+      return
+    }
+
+    let started = false
+    const stop = (): void => {
+      worker.terminate()
+      signal?.removeEventListener('abort', cancel)
+    }
+    const cancel = (): void => {
+      stop()
+      reject(signal?.reason)
+    }
+    signal?.addEventListener('abort', cancel)
+
+    worker.onmessage = (event: MessageEvent<ExportWorkerMessage>) => {
+      const message = event.data
+      if (message.type === 'ready') {
+        if (signal?.aborted) {
+          cancel()
+          return
+        }
+        // Snapshots are handed over rather than copied, so only once the worker is known to run
+        started = true
+        const buffers = request.snapshots.flatMap(({ positions, indices }) =>
+          indices ? [positions.buffer, indices.buffer] : [positions.buffer],
+        )
+        worker.postMessage(request, buffers)
+      } else if (message.type === 'progress') {
+        onProgress?.(message.progress)
+      } else if (message.type === 'done') {
+        stop()
+        resolve(message.output)
+      } else {
+        stop()
+        reject(new Error(message.message))
+      }
+    }
+
+    worker.onerror = (event) => {
+      stop()
+      if (started) {
+        reject(new Error(event.message))
+      } else {
+        // Pages can refuse workers, which only shows once the worker fails to load
+        console.warn('Could not start the export worker, exporting on the page instead:', event.message)
+        resolve(null)
+      }
+    }
+  })
+}
+
+/**
+ * Log an export error and wrap it as a failed result
+ */
+function exportFailure(code: ExportErrorCode, message: string, warnings: ExportWarning[] = []): ExportResult {
+  console.error(message)
+  return { ok: false, error: { code, message }, warnings }
 }
 
 /**
  * Download file
  */
-function downloadFile(buffer: ArrayBuffer, filename: string): void {
-  const blob = new Blob([buffer], { type: 'application/octet-stream' })
+function downloadFile(data: ArrayBuffer | Blob, filename: string): void {
+  const blob = data instanceof Blob ? data : new Blob([data], { type: 'application/octet-stream' })
   const link = document.createElement('a')
   link.href = URL.createObjectURL(blob)
   link.download = filename
@@ -770,74 +2684,309 @@ function downloadFile(buffer: ArrayBuffer, filename: string): void {
  * Main export function
  * @param options.filename - Output filename (default: 'heroforge-character')
  * @param options.scale - Scale factor (default: 10 to match HeroForge export size)
+ * @param options.targetHeight - Size the figure to this height in mm, feet to top, overriding scale (default: off)
+ * @param options.miniatureScale - Size to a miniature scale: '28mm', '32mm', '54mm' or '75mm' to eye level (default: off)
+ * @param options.eyeHeight - Size the figure to this feet-to-eye height in mm (default: off)
+ * @param options.baseDiameter - Size the model so the base is this wide in mm (default: off)
  * @param options.separateBase - Export base and character separately in a ZIP (default: true)
+ * @param options.splitSlots - Export one STL per HeroForge slot in a ZIP, each where it sits on the figure (default: false)
+ * @param options.format - Output format, 'stl', '3mf', 'obj' or 'glb' (default: 'stl')
+ * @param options.sharedFrame - Keep every written part in one frame so they line up, always on for 3MF and OBJ (default: false)
+ * @param options.centerXY - Centre the output on the XY origin (default: false)
+ * @param options.upAxis - Axis pointing up in the written files (default: 'z')
+ * @param options.groundOffset - Height of the lowest point above the ground plane (default: 2.5)
+ * @param options.repair - Weld, clean up and close small holes before writing (default: false)
+ * @param options.weldTolerance - Repair weld distance in output units (default: 0.001)
+ * @param options.solidify - Union each output into one watertight shell via voxels (default: false)
+ * @param options.voxelSize - Solidify and hollow voxel size in output units (default: 0.2)
+ * @param options.targetTriangles - Simplify the whole export down to this many triangles (default: off)
+ * @param options.maxError - Simplify until the deviation would exceed this, in output units (default: off)
+ * @param options.subdivisions - Loop subdivision steps for character meshes; the base stays crisp (default: 0)
+ * @param options.thicken - Grow character features thinner than minWallThickness, mesh by mesh (default: false)
+ * @param options.hollow - Hollow every output into a shell for resin printing, remeshed via voxels (default: false)
+ * @param options.wallThickness - Hollow shell thickness in output units (default: 2)
+ * @param options.drainHoleDiameter - Drain hole diameter in output units (default: 3)
+ * @param options.autoDrainHoles - Drill a drain hole below the lowest point of each cavity (default: true)
+ * @param options.drainHoles - Extra drain or vent holes, each opening at a point in mm on the grounded figure, Z up, before centerXY and upAxis apply (default: none)
+ * @param options.generatedBase - Replace the HeroForge base with a generated one, see generateBase (default: off)
+ * @param options.nameplate - Emboss or engrave text on the generated base, see generateBase (default: off)
+ * @param options.cutPlanes - Cut every output into capped pieces along these planes, in mm on the grounded figure, Z up, before centerXY and upAxis apply (default: none)
+ * @param options.pinDiameter - Alignment pin diameter on cut faces, 0 for none (default: 4)
+ * @param options.pinLength - How far alignment pins stand out of a cut, with sockets as deep (default: 4)
+ * @param options.pinTolerance - Extra room in pin sockets (default: 0.2)
+ * @param options.checkPrintability - Check written parts for thin walls, floating islands and overhangs (default: true)
+ * @param options.minWallThickness - Thinnest wall the printer holds, in output units (default: 0.8)
+ * @param options.overhangAngle - Steepest overhang printed without supports, in degrees from vertical (default: 60)
+ * @param options.orientation - Rotate the character for printing, or 'auto' for the best candidate (default: as posed)
+ * @param options.supports - Raise the character and add tree supports as a separate body (default: false)
+ * @param options.supportTipDiameter - Diameter where supports touch the model (default: 0.4)
+ * @param options.supportSpacing - Distance between support points under overhangs (default: 2.5)
+ * @param options.supportRaft - Stand the supports on a raft instead of separate feet (default: true)
+ * @param options.plate - Also lay out separately written parts on one build plate file, see layoutPlate (default: off)
+ * @param options.meshOverrides - Include, exclude or reassign meshes by listing id, see listMeshes (default: none)
+ * @param options.download - Download the written files; either way they are returned as Blobs (default: true)
+ * @param control.onProgress - Called as the export moves from stage to stage
+ * @param control.signal - Cancels the export when aborted
+ * @param control.createWorker - Starts a worker running worker.ts to export in (default: main thread, pausing between stages)
+ * @returns The files with triangle counts, sizes, printability findings and warnings, or an error code if it failed
  */
-export function exportCharacter(options: ExportOptions = {}): void {
-  const { filename = 'heroforge-character', scale = 10, separateBase = true } = options
+export async function exportCharacter(options: ExportOptions = {}, control: ExportControl = {}): Promise<ExportResult> {
+  const {
+    filename = 'heroforge-character',
+    scale = 10,
+    targetHeight,
+    miniatureScale,
+    eyeHeight,
+    baseDiameter,
+    separateBase = true,
+    format = 'stl',
+    meshOverrides = {},
+    download = true,
+  } = options
 
   console.log('Starting HeroForge character export...')
   console.log(`  Scale: ${scale}x`)
   console.log(`  Separate base: ${separateBase}`)
 
+  // Anything that throws, from collecting to writing, ends up as a failed result
+  const warnings: ExportWarning[] = []
+  try {
+    if (typeof CK === 'undefined' || typeof RK === 'undefined') {
+      return exportFailure('ck-not-found', 'CK or RK not found. Make sure you are on the HeroForge character page.')
+    }
+
+    if (CK.scene) {
+      CK.scene.updateMatrixWorld(true)
+    }
+
+    const { characterMeshes, baseMeshes, entries, excluded } = collectMeshes(meshOverrides)
+
+    if (excluded.length > 0) {
+      const names = excluded.map(({ slotName, name }) => `${slotName}/${name || 'unnamed'}`)
+      warnings.push({ code: 'excluded-meshes', message: `Left out ${excluded.length} meshes: ${names.join(', ')}` })
+    }
+
+    if (characterMeshes.length === 0 && baseMeshes.length === 0) {
+      return exportFailure('no-meshes', 'No meshes found.', warnings)
+    }
+
+    // Hand the files over, and download them unless the caller takes care of that
+    const finish = (output: ExportOutput): ExportResult => {
+      for (const file of output.files) {
+        if (download) downloadFile(file.blob, file.name)
+        console.log(
+          `Export complete! ${download ? 'Downloaded ' : ''}${file.name} (${(file.blob.size / 1024 / 1024).toFixed(2)} MB)`,
+        )
+      }
+      return { ok: true, ...output, warnings: [...warnings, ...output.warnings] }
+    }
+
+    if (format === 'glb') {
+      const outputScale = resolveOutputScale(
+        snapshotMeshes(entries),
+        { scale, targetHeight, miniatureScale, eyeHeight, baseDiameter },
+        (message) => {
+          console.warn(message)
+          warnings.push({ code: 'sizing-ignored', message })
+        },
+      )
+
+      // Export the unposed, rigged meshes without baking skinning or morphs
+      console.log('Writing skeletons, skin weights and morph targets...')
+
+      const glbBuffer = meshesToGLB(entries, outputScale)
+
+      const parts: ExportPartSummary[] = entries.map(({ slotName, mesh }) => {
+        const { index, attributes } = mesh.geometry
+        const triangles = (index ? index.array.length : attributes.position.count) / 3
+        return { name: mesh.name || slotName, slotName, inputTriangles: triangles, triangles, boundingBox: null }
+      })
+      const triangleCount = parts.reduce((sum, part) => sum + part.triangles, 0)
+
+      return finish({
+        files: [{ name: `${filename}.glb`, blob: new Blob([glbBuffer], { type: 'model/gltf-binary' }) }],
+        stats: {
+          inputTriangles: triangleCount,
+          outputTriangles: triangleCount,
+          scale: outputScale,
+          boundingBox: null,
+          skippedTriangles: 0,
+          printability: [],
+          orientation: null,
+        },
+        parts,
+        warnings: [],
+      })
+    }
+
+    // Pose every mesh in one go, before the page gets a chance to move the character
+    console.log('Applying bone transforms...')
+    control.onProgress?.(stageProgress('posing', 0))
+    const snapshots = snapshotMeshes(entries)
+
+    let output = control.createWorker
+      ? await exportInWorker(control.createWorker, { snapshots, options }, control)
+      : null
+    if (!output) {
+      output = await runExport(snapshots, options, async (progress) => {
+        control.signal?.throwIfAborted()
+        control.onProgress?.(progress)
+        // Let the page repaint and take a cancel before the next stage
+        await new Promise((resolve) => setTimeout(resolve, 0))
+      })
+    }
+
+    return finish(output)
+  } catch (error) {
+    if (control.signal?.aborted) {
+      console.log('Export cancelled')
+      return { ok: false, error: { code: 'cancelled', message: 'Export cancelled' }, warnings }
+    }
+    const message = error instanceof Error ? error.message : String(error)
+    return exportFailure('export-failed', `Export failed: ${message}`, warnings)
+  }
+}
+
+/**
+ * Score print orientations for the displayed character without exporting it,
+ * so one can be picked and passed back as the orientation option
+ * @param options - Sizing and overhang options as for exportCharacter
+ * @returns Candidates, best first, or an empty list if the character was not found
+ */
+export function suggestOrientations(options: ExportOptions = {}): OrientationCandidate[] {
+  const { scale = 10, targetHeight, miniatureScale, eyeHeight, baseDiameter, overhangAngle = 60 } = options
+
   if (typeof CK === 'undefined' || typeof RK === 'undefined') {
     console.error('CK or RK not found. Make sure you are on the HeroForge character page.')
-    return
+    return []
   }
 
   if (CK.scene) {
     CK.scene.updateMatrixWorld(true)
   }
 
-  const { characterMeshes, baseMeshes } = collectMeshes()
-
-  if (characterMeshes.length === 0 && baseMeshes.length === 0) {
-    console.error('No meshes found.')
-    return
+  const collected = collectMeshes(options.meshOverrides)
+  if (collected.characterMeshes.length === 0) {
+    console.error('No character meshes found.')
+    return []
   }
 
-  console.log('Applying bone transforms...')
-
-  if (separateBase && baseMeshes.length > 0) {
-    // Export as ZIP with separate files
-    const zip = new SimpleZip()
+  const snapshots = snapshotMeshes(collected.entries)
+  const outputScale = resolveOutputScale(snapshots, { scale, targetHeight, miniatureScale, eyeHeight, baseDiameter })
+  const candidates = rankOrientations(
+    snapshots.filter((mesh) => !mesh.isBase),
+    outputScale,
+    overhangAngle,
+  )
+  for (const { orientation, supportArea, height } of candidates.slice(0, 5)) {
+    console.log(
+      `  tilt ${orientation.tilt}°, spin ${orientation.spin}°: ` +
+        `${supportArea.toFixed(0)} supported, ${height.toFixed(1)} tall`,
+    )
+  }
+  return candidates
+}
 
-    // Process character meshes
-    if (characterMeshes.length > 0) {
-      const charTriangles = collectTriangles(characterMeshes)
-      transformTriangles(charTriangles, scale)
-      const charSTL = trianglesToSTL(charTriangles, 'HeroForge Character')
-      zip.addFile(`${filename}-character.stl`, charSTL)
-      console.log(`Character: ${charTriangles.length} triangles`)
-    }
+/**
+ * List every exportable mesh of the displayed character, so meshes can be
+ * included, excluded or moved between character and base with meshOverrides
+ * @param options - Mesh overrides as for exportCharacter; without them the name-based choices are listed
+ * @returns Meshes in slot order, or an empty list if the character was not found
+ */
+export function listMeshes(options: ExportOptions = {}): MeshListing[] {
+  if (typeof CK === 'undefined' || typeof RK === 'undefined') {
+    console.error('CK or RK not found. Make sure you are on the HeroForge character page.')
+    return []
+  }
 
-    // Process base meshes
-    if (baseMeshes.length > 0) {
-      const baseTriangles = collectTriangles(baseMeshes)
-      transformTriangles(baseTriangles, scale)
-      const baseSTL = trianglesToSTL(baseTriangles, 'HeroForge Base')
-      zip.addFile(`${filename}-base.stl`, baseSTL)
-      console.log(`Base: ${baseTriangles.length} triangles`)
-    }
+  return findMeshes(options.meshOverrides).map(({ mesh, ...listing }) => listing)
+}
 
-    // Generate and download ZIP
-    const zipBuffer = zip.generate()
-    downloadFile(zipBuffer, `${filename}.zip`)
+/**
+ * Collect and transform the displayed character as exportCharacter does,
+ * before any of the clean-up stages, so it can be checked before exporting
+ * @param options - Sizing, mesh overrides and ground offset as for exportCharacter
+ * @returns Every included mesh and the dropped triangles in one frame, or null if nothing was found
+ */
+export function previewCharacter(options: ExportOptions = {}): PreviewScene | null {
+  const { scale = 10, targetHeight, miniatureScale, eyeHeight, baseDiameter, groundOffset = 2.5 } = options
 
-    console.log(`Export complete! Downloaded ${filename}.zip`)
-  } else {
-    // Export as single STL (combine all meshes)
-    const allMeshes = [...characterMeshes, ...baseMeshes]
-    const triangles = collectTriangles(allMeshes)
-    transformTriangles(triangles, scale)
+  if (typeof CK === 'undefined' || typeof RK === 'undefined') {
+    console.error('CK or RK not found. Make sure you are on the HeroForge character page.')
+    return null
+  }
 
-    console.log(`Total triangles: ${triangles.length}`)
+  if (CK.scene) {
+    CK.scene.updateMatrixWorld(true)
+  }
 
-    const stlBuffer = trianglesToSTL(triangles)
-    downloadFile(stlBuffer, `${filename}.stl`)
+  const found = findMeshes(options.meshOverrides).filter((entry) => entry.included)
+  if (found.length === 0) {
+    console.error('No meshes found.')
+    return null
+  }
 
-    console.log(`Export complete! ${triangles.length} triangles, ${(stlBuffer.byteLength / 1024 / 1024).toFixed(2)} MB`)
+  const snapshots = snapshotMeshes(found)
+  const outputScale = resolveOutputScale(snapshots, { scale, targetHeight, miniatureScale, eyeHeight, baseDiameter })
+
+  const skipped: Triangle[] = []
+  const meshes: PreviewMesh[] = found.map(({ id, slotName, name, isBase }, index) => ({
+    id,
+    slotName,
+    name,
+    isBase,
+    triangles: unpackTriangles(collectTriangles([snapshots[index]], { scale: outputScale, rejected: skipped })),
+  }))
+
+  // Dropped triangles are often far off, so only the included ones decide where the ground is
+  const triangles = meshes.flatMap((mesh) => mesh.triangles)
+  const lift = groundOffset - (measureBounds(triangles)?.min.z ?? 0)
+  for (const tri of [...triangles, ...skipped]) {
+    for (const v of [tri.v1, tri.v2, tri.v3]) {
+      v.z += lift
+    }
   }
+
+  console.log(`Preview: ${meshes.length} meshes, ${triangles.length} triangles, ${skipped.length} skipped`)
+  return { meshes, skipped, boundingBox: measureBounds(triangles), scale: outputScale }
 }
 
 // Export types for module consumers
-export type { ExportOptions, Triangle, Vertex, CollectedMeshes }
+export type {
+  BaseOptions,
+  Bounds,
+  CutPlane,
+  DrainHole,
+  ExportControl,
+  ExportFormat,
+  ExportOptions,
+  ExportError,
+  ExportErrorCode,
+  ExportFile,
+  ExportOutput,
+  ExportPartSummary,
+  ExportProgress,
+  ExportResult,
+  ExportStage,
+  ExportStats,
+  ExportWarning,
+  ExportWarningCode,
+  ExportWorkerMessage,
+  ExportWorkerRequest,
+  MeshListing,
+  MeshOverride,
+  MeshSnapshot,
+  MiniatureScale,
+  NameplateOptions,
+  Orientation,
+  OrientationCandidate,
+  PartPrintability,
+  PlateOptions,
+  PreviewMesh,
+  PreviewScene,
+  PrintabilityReport,
+  Triangle,
+  UpAxis,
+  Vertex,
+  CollectedMeshes,
+}
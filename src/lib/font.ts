@@ -0,0 +1,130 @@
+/**
+ * Block Font
+ *
+ * A bundled 5x7 block font for stamping text into models. Glyph outlines are
+ * made of whole cells, which keeps strokes thick enough to print at the few
+ * millimetres a base has room for. Lowercase letters use the capitals.
+ */
+
+// ============================================================
+// Type Definitions
+// ============================================================
+
+interface TextBitmap {
+  columns: number
+  rows: number
+  /** Row-major cells, row 0 at the bottom; 1 where there is ink */
+  cells: Uint8Array
+}
+
+// ============================================================
+// Glyphs
+// ============================================================
+
+const GLYPH_WIDTH = 5
+const GLYPH_HEIGHT = 7
+const GLYPH_SPACING = 1
+
+// Each glyph is seven rows of five cells, top row first
+const GLYPHS: Record<string, string> = {
+  A: '.###. #...# #...# ##### #...# #...# #...#',
+  B: '####. #...# #...# ####. #...# #...# ####.',
+  C: '.###. #...# #.... #.... #.... #...# .###.',
+  D: '####. #...# #...# #...# #...# #...# ####.',
+  E: '##### #.... #.... ####. #.... #.... #####',
+  F: '##### #.... #.... ####. #.... #.... #....',
+  G: '.###. #...# #.... #.### #...# #...# .####',
+  H: '#...# #...# #...# ##### #...# #...# #...#',
+  I: '.###. ..#.. ..#.. ..#.. ..#.. ..#.. .###.',
+  J: '..### ...#. ...#. ...#. ...#. #..#. .##..',
+  K: '#...# #..#. #.#.. ##... #.#.. #..#. #...#',
+  L: '#.... #.... #.... #.... #.... #.... #####',
+  M: '#...# ##.## #.#.# #.#.# #...# #...# #...#',
+  N: '#...# #...# ##..# #.#.# #..## #...# #...#',
+  O: '.###. #...# #...# #...# #...# #...# .###.',
+  P: '####. #...# #...# ####. #.... #.... #....',
+  Q: '.###. #...# #...# #...# #.#.# #..#. .##.#',
+  R: '####. #...# #...# ####. #.#.. #..#. #...#',
+  S: '.#### #.... #.... .###. ....# ....# ####.',
+  T: '##### ..#.. ..#.. ..#.. ..#.. ..#.. ..#..',
+  U: '#...# #...# #...# #...# #...# #...# .###.',
+  V: '#...# #...# #...# #...# #...# .#.#. ..#..',
+  W: '#...# #...# #...# #.#.# #.#.# #.#.# .#.#.',
+  X: '#...# #...# .#.#. ..#.. .#.#. #...# #...#',
+  Y: '#...# #...# .#.#. ..#.. ..#.. ..#.. ..#..',
+  Z: '##### ....# ...#. ..#.. .#... #.... #####',
+  '0': '.###. #...# #..## #.#.# ##..# #...# .###.',
+  '1': '..#.. .##.. ..#.. ..#.. ..#.. ..#.. .###.',
+  '2': '.###. #...# ....# ...#. ..#.. .#... #####',
+  '3': '##### ...#. ..#.. ...#. ....# #...# .###.',
+  '4': '...#. ..##. .#.#. #..#. ##### ...#. ...#.',
+  '5': '##### #.... ####. ....# ....# #...# .###.',
+  '6': '..##. .#... #.... ####. #...# #...# .###.',
+  '7': '##### ....# ...#. ..#.. .#... .#... .#...',
+  '8': '.###. #...# #...# .###. #...# #...# .###.',
+  '9': '.###. #...# #...# .#### ....# ...#. .##..',
+  ' ': '..... ..... ..... ..... ..... ..... .....',
+  '.': '..... ..... ..... ..... ..... .##.. .##..',
+  ',': '..... ..... ..... ..... .##.. ..#.. .#...',
+  '-': '..... ..... ..... ##### ..... ..... .....',
+  "'": '..#.. ..#.. .#... ..... ..... ..... .....',
+  '!': '..#.. ..#.. ..#.. ..#.. ..#.. ..... ..#..',
+  '?': '.###. #...# ....# ...#. ..#.. ..... ..#..',
+  ':': '..... .##.. .##.. ..... .##.. .##.. .....',
+  '/': '..... ....# ...#. ..#.. .#... #.... .....',
+  '&': '.##.. #..#. #.#.. .#... #.#.# #..#. .##.#',
+  '(': '...#. ..#.. .#... .#... .#... ..#.. ...#.',
+  ')': '.#... ..#.. ...#. ...#. ...#. ..#.. .#...',
+  '#': '.#.#. .#.#. ##### .#.#. ##### .#.#. .#.#.',
+  '+': '..... ..#.. ..#.. ##### ..#.. ..#.. .....',
+}
+
+// ============================================================
+// Layout
+// ============================================================
+
+/**
+ * Fill one cell of every diagonal-only contact, so strokes always share an
+ * edge and the extruded text stays manifold
+ */
+function joinDiagonals(bitmap: TextBitmap): void {
+  const { columns, rows, cells } = bitmap
+  for (let r = 0; r < rows - 1; r++) {
+    for (let c = 0; c < columns - 1; c++) {
+      const a = cells[r * columns + c]
+      const b = cells[r * columns + c + 1]
+      const d = cells[(r + 1) * columns + c]
+      const e = cells[(r + 1) * columns + c + 1]
+      if (a && e && !b && !d) cells[r * columns + c + 1] = 1
+      if (b && d && !a && !e) cells[r * columns + c] = 1
+    }
+  }
+}
+
+/**
+ * Lay a single line of text out as a cell bitmap. Characters without a glyph
+ * are skipped.
+ */
+function layoutText(text: string): TextBitmap {
+  const glyphs = [...text.toUpperCase()].map((char) => GLYPHS[char]).filter((glyph) => glyph !== undefined)
+  const columns = Math.max(glyphs.length * (GLYPH_WIDTH + GLYPH_SPACING) - GLYPH_SPACING, 0)
+  const rows = GLYPH_HEIGHT
+  const cells = new Uint8Array(columns * rows)
+
+  glyphs.forEach((glyph, index) => {
+    const left = index * (GLYPH_WIDTH + GLYPH_SPACING)
+    glyph.split(' ').forEach((line, fromTop) => {
+      const row = GLYPH_HEIGHT - 1 - fromTop
+      for (let x = 0; x < GLYPH_WIDTH; x++) {
+        if (line[x] === '#') cells[row * columns + left + x] = 1
+      }
+    })
+  })
+
+  const bitmap = { columns, rows, cells }
+  joinDiagonals(bitmap)
+  return bitmap
+}
+
+export { GLYPH_HEIGHT, layoutText }
+export type { TextBitmap }
@@ -0,0 +1,77 @@
+import { describe, expect, test } from 'bun:test'
+import type { Triangle } from './exporter'
+import { hollowTriangles } from './hollow'
+
+/**
+ * Packed triangles of a closed box spanning the given corners
+ */
+function box(min: [number, number, number], max: [number, number, number]): Float32Array {
+  const corner = (i: number): number[] => [i & 1 ? max[0] : min[0], i & 2 ? max[1] : min[1], i & 4 ? max[2] : min[2]]
+  const faces = [
+    0, 2, 1, 1, 2, 3, 4, 5, 6, 5, 7, 6, 0, 1, 4, 1, 5, 4, 2, 6, 3, 3, 6, 7, 0, 4, 2, 2, 4, 6, 1, 3, 5, 3, 7, 5,
+  ]
+  return new Float32Array(faces.flatMap(corner))
+}
+
+/**
+ * Edges not shared by exactly two triangles, with corners welded at 0.001
+ */
+function countBadEdges(triangles: Triangle[]): number {
+  const key = (v: { x: number; y: number; z: number }): string =>
+    `${Math.round(v.x * 1000)},${Math.round(v.y * 1000)},${Math.round(v.z * 1000)}`
+  const edges = new Map<string, number>()
+  for (const { v1, v2, v3 } of triangles) {
+    const corners = [key(v1), key(v2), key(v3)]
+    for (let i = 0; i < 3; i++) {
+      const edge = [corners[i], corners[(i + 1) % 3]].sort().join('|')
+      edges.set(edge, (edges.get(edge) ?? 0) + 1)
+    }
+  }
+  return [...edges.values()].filter((count) => count !== 2).length
+}
+
+/**
+ * Enclosed volume of a closed, outward-facing surface
+ */
+function volume(triangles: Triangle[]): number {
+  let sum = 0
+  for (const { v1, v2, v3 } of triangles) {
+    sum += v1.x * (v2.y * v3.z - v2.z * v3.y) + v1.y * (v2.z * v3.x - v2.x * v3.z) + v1.z * (v2.x * v3.y - v2.y * v3.x)
+  }
+  return sum / 6
+}
+
+describe('hollowTriangles', () => {
+  const cube = box([0.1, 0.1, 0.1], [20.1, 20.1, 20.1])
+
+  test('leaves a closed shell around a drained cavity', () => {
+    const result = hollowTriangles(cube, { wallThickness: 2, voxelSize: 0.5 })
+
+    expect(result.cavities).toBe(1)
+    expect(result.drainHoles).toBe(1)
+    expect(result.warnings).toEqual([])
+    expect(countBadEdges(result.triangles)).toBe(0)
+  })
+
+  test('keeps the outside and the wall thickness close to what was asked', () => {
+    const { triangles } = hollowTriangles(cube, { wallThickness: 2, voxelSize: 0.5, autoDrainHoles: false })
+
+    const zs = triangles.flatMap(({ v1, v2, v3 }) => [v1.z, v2.z, v3.z])
+    expect(Math.max(...zs) - Math.min(...zs)).toBeCloseTo(20, 0)
+    // A 20 cube with walls of 2 keeps 20³ - 16³ of material
+    expect(volume(triangles) / (20 ** 3 - 16 ** 3)).toBeCloseTo(1, 1)
+  })
+
+  test('reports a drain hole that reaches no cavity', () => {
+    const result = hollowTriangles(cube, { wallThickness: 2, voxelSize: 0.5, drainHoles: [{ x: 10, y: 10, z: 0.1 }] })
+
+    expect(result.warnings.length).toBe(0)
+    const missed = hollowTriangles(cube, {
+      wallThickness: 2,
+      voxelSize: 0.5,
+      drainHoles: [{ x: 10, y: 10, z: 0.1, direction: { x: 0, y: 0, z: -1 } }],
+    })
+    expect(missed.warnings).toHaveLength(1)
+    expect(countBadEdges(missed.triangles)).toBe(0)
+  })
+})
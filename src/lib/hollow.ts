@@ -0,0 +1,461 @@
+/**
+ * Hollowing
+ *
+ * Turns a model into a shell for resin printing. The model is voxelised as in
+ * solidify, every voxel deeper than the wall thickness becomes part of an
+ * internal cavity, and drain holes are drilled from each cavity to the outside
+ * so uncured resin can flow out. The shell is then extracted with surface nets.
+ */
+
+import type { Triangle, Vertex } from './exporter'
+import { type VoxelGrid, createSolidGrid, extractSurface, smoothField } from './solidify'
+
+// ============================================================
+// Type Definitions
+// ============================================================
+
+interface DrainHole {
+  /** Where the hole opens on the outside of the model, in output units */
+  x: number
+  y: number
+  z: number
+  /** Drilling direction into the model (default: towards the nearest cavity) */
+  direction?: Vertex
+}
+
+interface HollowOptions {
+  wallThickness?: number
+  voxelSize?: number
+  maxVoxels?: number
+  holeDiameter?: number
+  autoDrainHoles?: boolean
+  drainHoles?: DrainHole[]
+  minCavityVolume?: number
+}
+
+interface HollowResult {
+  triangles: Triangle[]
+  voxelSize: number
+  dimensions: [number, number, number]
+  cavities: number
+  drainHoles: number
+  /** What had to be given up, like drain holes that reach no cavity */
+  warnings: string[]
+}
+
+/** Working state shared by the cavity and drilling steps */
+interface HollowGrid extends VoxelGrid {
+  /** Id of the connected cavity, starting at 1, or 0 outside cavities */
+  cavity: Int32Array
+  /** 1 for voxels removed by drain holes */
+  drilled: Uint8Array
+}
+
+// Candidate drilling directions for automatic holes, most preferred first
+const DRILL_DIRECTIONS: Vertex[] = [
+  { x: 0, y: 0, z: -1 },
+  { x: 1, y: 0, z: -1 },
+  { x: -1, y: 0, z: -1 },
+  { x: 0, y: 1, z: -1 },
+  { x: 0, y: -1, z: -1 },
+  { x: 1, y: 0, z: 0 },
+  { x: -1, y: 0, z: 0 },
+  { x: 0, y: 1, z: 0 },
+  { x: 0, y: -1, z: 0 },
+]
+
+// Lowest-layer voxels tried per cavity when looking for the shortest drill path
+const MAX_DRILL_STARTS = 32
+
+// ============================================================
+// Distance Transform
+// ============================================================
+
+/**
+ * One-dimensional squared Euclidean distance transform (Felzenszwalb and Huttenlocher)
+ */
+function distanceTransform1D(f: Float32Array, n: number, d: Float32Array, v: Int32Array, z: Float32Array): void {
+  let k = 0
+  v[0] = 0
+  z[0] = Number.NEGATIVE_INFINITY
+  z[1] = Number.POSITIVE_INFINITY
+
+  for (let q = 1; q < n; q++) {
+    let s = (f[q] + q * q - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k])
+    while (s <= z[k]) {
+      k--
+      s = (f[q] + q * q - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k])
+    }
+    k++
+    v[k] = q
+    z[k] = s
+    z[k + 1] = Number.POSITIVE_INFINITY
+  }
+
+  k = 0
+  for (let q = 0; q < n; q++) {
+    while (z[k + 1] < q) k++
+    d[q] = (q - v[k]) * (q - v[k]) + f[v[k]]
+  }
+}
+
+/**
+ * Squared distance, in voxels, from every solid voxel to the nearest empty one
+ */
+function depthField(grid: VoxelGrid): Float32Array {
+  const { nx, ny, nz, data } = grid
+  const depth = new Float32Array(nx * ny * nz)
+  for (let i = 0; i < depth.length; i++) {
+    depth[i] = data[i] ? 1e20 : 0
+  }
+
+  const longest = Math.max(nx, ny, nz)
+  const f = new Float32Array(longest)
+  const d = new Float32Array(longest)
+  const v = new Int32Array(longest)
+  const z = new Float32Array(longest + 1)
+  const strides = [1, nx, nx * ny]
+  const sizes = [nx, ny, nz]
+
+  for (let axis = 0; axis < 3; axis++) {
+    const stride = strides[axis]
+    const n = sizes[axis]
+
+    for (let start = 0; start < depth.length; start++) {
+      // Visit each line once, starting from its first voxel
+      if (Math.floor(start / stride) % n !== 0) continue
+
+      for (let q = 0; q < n; q++) f[q] = depth[start + q * stride]
+      distanceTransform1D(f, n, d, v, z)
+      for (let q = 0; q < n; q++) depth[start + q * stride] = d[q]
+    }
+  }
+
+  return depth
+}
+
+// ============================================================
+// Cavities
+// ============================================================
+
+/**
+ * Mark voxels deeper than the wall thickness as cavity and label connected
+ * cavities. Cavities below the minimum size stay solid.
+ */
+function findCavities(grid: VoxelGrid, wallVoxels: number, minVoxels: number): HollowGrid {
+  const { nx, ny, nz } = grid
+  const total = nx * ny * nz
+  const depth = depthField(grid)
+  const threshold = wallVoxels * wallVoxels
+  const cavity = new Int32Array(total)
+  const queue = new Int32Array(total)
+  let components = 0
+
+  for (let seed = 0; seed < total; seed++) {
+    if (depth[seed] <= threshold || cavity[seed] !== 0) continue
+
+    const id = ++components
+    let head = 0
+    let tail = 0
+    cavity[seed] = id
+    queue[tail++] = seed
+
+    while (head < tail) {
+      const index = queue[head++]
+      const i = index % nx
+      const j = Math.floor(index / nx) % ny
+      const k = Math.floor(index / (nx * ny))
+
+      const visit = (neighbor: number): void => {
+        if (cavity[neighbor] === 0 && depth[neighbor] > threshold) {
+          cavity[neighbor] = id
+          queue[tail++] = neighbor
+        }
+      }
+
+      if (i > 0) visit(index - 1)
+      if (i < nx - 1) visit(index + 1)
+      if (j > 0) visit(index - nx)
+      if (j < ny - 1) visit(index + nx)
+      if (k > 0) visit(index - nx * ny)
+      if (k < nz - 1) visit(index + nx * ny)
+    }
+
+    // Pockets too small to be worth draining are left solid
+    if (tail < minVoxels) {
+      for (let q = 0; q < tail; q++) cavity[queue[q]] = -1
+      components--
+    }
+  }
+
+  // Renumber the kept cavities so ids are contiguous
+  const remap = new Map<number, number>()
+  for (let i = 0; i < total; i++) {
+    if (cavity[i] === -1) {
+      cavity[i] = 0
+    } else if (cavity[i] > 0) {
+      let id = remap.get(cavity[i])
+      if (id === undefined) {
+        id = remap.size + 1
+        remap.set(cavity[i], id)
+      }
+      cavity[i] = id
+    }
+  }
+
+  return { ...grid, cavity, drilled: new Uint8Array(total) }
+}
+
+// ============================================================
+// Drain Holes
+// ============================================================
+
+/**
+ * Drill a round hole along a ray, starting at a point in voxel coordinates.
+ * Drilling stops once `done` reports true for the voxel on the axis; if it never
+ * does before leaving the grid the hole is undone.
+ */
+function drillHole(
+  grid: HollowGrid,
+  start: Vertex,
+  direction: Vertex,
+  radius: number,
+  done: (index: number, carved: boolean) => boolean,
+): boolean {
+  const { nx, ny, nz, drilled } = grid
+  const length = Math.hypot(direction.x, direction.y, direction.z) || 1
+  const dx = direction.x / length
+  const dy = direction.y / length
+  const dz = direction.z / length
+  const carvedVoxels: number[] = []
+  const reach = Math.ceil(radius)
+  const maxSteps = (nx + ny + nz) * 2
+  // Once the hole breaks through, keep going for one radius so the rounded tip clears the wall
+  let remaining = -1
+
+  for (let step = 0; step < maxSteps; step++) {
+    const px = start.x + dx * step * 0.5
+    const py = start.y + dy * step * 0.5
+    const pz = start.z + dz * step * 0.5
+    const ci = Math.round(px)
+    const cj = Math.round(py)
+    const ck = Math.round(pz)
+    if (ci < 0 || cj < 0 || ck < 0 || ci >= nx || cj >= ny || ck >= nz) {
+      // The start may lie just outside the grid; only give up once the drill has left it again
+      if (step * 0.5 > radius + 2) break
+      continue
+    }
+
+    if (remaining < 0 && done(ci + nx * (cj + ny * ck), carvedVoxels.length > 0)) {
+      remaining = Math.ceil(radius * 2)
+    }
+    if (remaining === 0) return true
+    if (remaining > 0) remaining--
+
+    for (let k = Math.max(ck - reach, 1); k <= Math.min(ck + reach, nz - 2); k++) {
+      for (let j = Math.max(cj - reach, 1); j <= Math.min(cj + reach, ny - 2); j++) {
+        for (let i = Math.max(ci - reach, 1); i <= Math.min(ci + reach, nx - 2); i++) {
+          const index = i + nx * (j + ny * k)
+          if (drilled[index]) continue
+          if ((i - px) ** 2 + (j - py) ** 2 + (k - pz) ** 2 <= radius * radius) {
+            drilled[index] = 1
+            carvedVoxels.push(index)
+          }
+        }
+      }
+    }
+  }
+
+  if (remaining >= 0) return true
+
+  for (const index of carvedVoxels) drilled[index] = 0
+  return false
+}
+
+/**
+ * Count the solid voxels a drill would pass through before it reaches empty
+ * space or another cavity, or Infinity if it leaves the grid first
+ */
+function measureDrill(grid: HollowGrid, start: Vertex, direction: Vertex, id: number): number {
+  const { nx, ny, nz, data, cavity } = grid
+  const length = Math.hypot(direction.x, direction.y, direction.z)
+  let solid = 0
+
+  for (let step = 1; ; step++) {
+    const i = Math.round(start.x + (direction.x / length) * step * 0.5)
+    const j = Math.round(start.y + (direction.y / length) * step * 0.5)
+    const k = Math.round(start.z + (direction.z / length) * step * 0.5)
+    if (i < 0 || j < 0 || k < 0 || i >= nx || j >= ny || k >= nz) return Number.POSITIVE_INFINITY
+
+    const index = i + nx * (j + ny * k)
+    if (!data[index] || (cavity[index] > 0 && cavity[index] !== id)) return solid
+    if (cavity[index] === 0) solid++
+  }
+}
+
+/**
+ * Drill a hole from the lowest layer of every cavity, along whichever candidate
+ * path crosses the least material, until it reaches empty space or another cavity
+ */
+function drillLowestPoints(grid: HollowGrid, radius: number): number {
+  const { nx, ny, data, cavity } = grid
+  const lowestLayers = new Map<number, number[]>()
+
+  // Voxels are ordered by height, so the first layer seen for a cavity is its lowest
+  for (let index = 0; index < cavity.length; index++) {
+    const id = cavity[index]
+    if (id === 0) continue
+    const layer = Math.floor(index / (nx * ny))
+    const voxels = lowestLayers.get(id)
+    if (!voxels) {
+      lowestLayers.set(id, [index])
+    } else if (Math.floor(voxels[0] / (nx * ny)) === layer) {
+      voxels.push(index)
+    }
+  }
+
+  let drilledHoles = 0
+  for (const [id, voxels] of lowestLayers) {
+    let best: { start: Vertex; direction: Vertex } | null = null
+    let bestCost = Number.POSITIVE_INFINITY
+    const stride = Math.max(1, Math.floor(voxels.length / MAX_DRILL_STARTS))
+
+    for (let v = 0; v < voxels.length; v += stride) {
+      const index = voxels[v]
+      const start = { x: index % nx, y: Math.floor(index / nx) % ny, z: Math.floor(index / (nx * ny)) }
+      for (const direction of DRILL_DIRECTIONS) {
+        const cost = measureDrill(grid, start, direction, id)
+        if (cost < bestCost) {
+          bestCost = cost
+          best = { start, direction }
+        }
+      }
+    }
+    if (!best) continue
+
+    const opened = drillHole(
+      grid,
+      best.start,
+      best.direction,
+      radius,
+      (axis, carved) => carved && (!data[axis] || (cavity[axis] > 0 && cavity[axis] !== id)),
+    )
+    if (opened) drilledHoles++
+  }
+  return drilledHoles
+}
+
+/**
+ * Direction from a point in voxel coordinates to the closest cavity voxel, or null without cavities
+ */
+function nearestCavityDirection(grid: HollowGrid, point: Vertex): Vertex | null {
+  const { nx, ny, cavity } = grid
+  let best: Vertex | null = null
+  let bestDistance = Number.POSITIVE_INFINITY
+
+  for (let index = 0; index < cavity.length; index++) {
+    if (cavity[index] === 0) continue
+    const x = (index % nx) - point.x
+    const y = (Math.floor(index / nx) % ny) - point.y
+    const z = Math.floor(index / (nx * ny)) - point.z
+    const distance = x * x + y * y + z * z
+    if (distance < bestDistance) {
+      bestDistance = distance
+      best = { x, y, z }
+    }
+  }
+  return best
+}
+
+// ============================================================
+// Hollowing Pipeline
+// ============================================================
+
+/**
+ * Hollow a triangle soup, packed nine floats per triangle, into a shell with drain holes
+ * @param options.wallThickness - Minimum wall thickness in output units (default: 2)
+ * @param options.voxelSize - Voxel edge length in output units (default: 0.2)
+ * @param options.maxVoxels - Upper bound on the grid size before the voxel size grows (default: 16M)
+ * @param options.holeDiameter - Drain hole diameter in output units (default: 3)
+ * @param options.autoDrainHoles - Drill a hole from the lowest point of every cavity (default: true)
+ * @param options.drainHoles - Extra holes, drilled from their position until they reach a cavity (default: none)
+ * @param options.minCavityVolume - Cavities smaller than this stay solid, in cubic output units (default: 50)
+ */
+function hollowTriangles(positions: Float32Array, options: HollowOptions = {}): HollowResult {
+  const {
+    wallThickness = 2,
+    voxelSize = 0.2,
+    maxVoxels = 16_000_000,
+    holeDiameter = 3,
+    autoDrainHoles = true,
+    drainHoles = [],
+    minCavityVolume = 50,
+  } = options
+
+  const solid = createSolidGrid(positions, voxelSize, maxVoxels)
+  const size = solid.voxelSize
+  const warnings: string[] = []
+  if (wallThickness < size * 2) {
+    warnings.push(`Wall thickness ${wallThickness} is below two voxels of ${size.toFixed(3)}, walls may break up`)
+  }
+
+  // Depth counts between voxel centres, and the surface is inset half a voxel on either side of the wall
+  const grid = findCavities(solid, wallThickness / size + 1, minCavityVolume / size ** 3)
+  const { nx, ny, nz, origin, data, cavity, drilled } = grid
+  const radius = holeDiameter / size / 2
+
+  let cavities = 0
+  for (let i = 0; i < cavity.length; i++) cavities = Math.max(cavities, cavity[i])
+
+  let holes = autoDrainHoles ? drillLowestPoints(grid, radius) : 0
+
+  for (const hole of drainHoles) {
+    const point = {
+      x: (hole.x - origin.x) / size - 0.5,
+      y: (hole.y - origin.y) / size - 0.5,
+      z: (hole.z - origin.z) / size - 0.5,
+    }
+    // Holes outside this grid belong to another part
+    if (point.x < 0 || point.y < 0 || point.z < 0 || point.x >= nx || point.y >= ny || point.z >= nz) continue
+
+    const direction = hole.direction ?? nearestCavityDirection(grid, point)
+    const length = direction ? Math.hypot(direction.x, direction.y, direction.z) : 0
+    if (!direction || length === 0) {
+      warnings.push(`Drain hole at (${hole.x}, ${hole.y}, ${hole.z}) has no cavity to drain, skipped`)
+      continue
+    }
+
+    // Start one radius outside the surface so the opening is clean
+    const back = (radius + 1) / length
+    const start = {
+      x: point.x - direction.x * back,
+      y: point.y - direction.y * back,
+      z: point.z - direction.z * back,
+    }
+
+    if (drillHole(grid, start, direction, radius, (axis) => cavity[axis] > 0)) {
+      holes++
+    } else {
+      warnings.push(`Drain hole at (${hole.x}, ${hole.y}, ${hole.z}) does not reach a cavity, skipped`)
+    }
+  }
+
+  // The shell is everything solid that is neither cavity nor drilled away
+  const shell = new Uint8Array(data.length)
+  for (let i = 0; i < data.length; i++) {
+    shell[i] = data[i] && cavity[i] === 0 && !drilled[i] ? 1 : 0
+  }
+  const shellGrid: VoxelGrid = { nx, ny, nz, voxelSize: size, origin, data: shell }
+
+  return {
+    triangles: extractSurface(shellGrid, smoothField(shellGrid)),
+    voxelSize: size,
+    dimensions: [nx, ny, nz],
+    cavities,
+    drainHoles: holes,
+    warnings,
+  }
+}
+
+export { depthField, hollowTriangles }
+export type { DrainHole, HollowOptions, HollowResult }
@@ -0,0 +1,141 @@
+/**
+ * Build Plate Layout
+ *
+ * Arranges separately exported parts side by side on a virtual build plate so
+ * they can be printed in one go. Each part's footprint is packed into shelves
+ * across the plate, deepest footprints first, optionally turning parts a
+ * quarter turn about Z to fit. The plate is centred on the origin and parts
+ * keep their print orientation.
+ */
+
+import type { Vertex } from './exporter'
+import { measurePositions } from './sizing'
+
+// ============================================================
+// Type Definitions
+// ============================================================
+
+interface PlateOptions {
+  width?: number
+  depth?: number
+  spacing?: number
+  allowRotation?: boolean
+}
+
+interface Placement {
+  /** Whether the part was turned a quarter turn about Z */
+  rotated: boolean
+  /** Centre of the part's footprint on the plate */
+  center: Vertex
+  /** Whether the footprint lies within the plate */
+  onPlate: boolean
+}
+
+interface PlateLayout {
+  /** Copies of every part, moved to their place on the plate, nine floats per triangle */
+  positions: Float32Array
+  /** Placement of each part, in the order given */
+  placements: Placement[]
+  /** Parts that did not fit and were placed past the far edge */
+  offPlate: number
+}
+
+interface Footprint {
+  index: number
+  width: number
+  depth: number
+  rotated: boolean
+}
+
+// ============================================================
+// Layout
+// ============================================================
+
+/**
+ * Arrange parts on a build plate. Each part is a list of packed triangle buffers,
+ * so parts that belong together, like a model and its supports, move as one.
+ * @param options.width - Plate size along X, in output units (default: 218)
+ * @param options.depth - Plate size along Y, in output units (default: 123)
+ * @param options.spacing - Gap left between parts (default: 5)
+ * @param options.allowRotation - Turn parts a quarter turn about Z where that packs better (default: true)
+ */
+function layoutPlate(parts: Float32Array[][], options: PlateOptions = {}): PlateLayout {
+  const { width = 218, depth = 123, spacing = 5, allowRotation = true } = options
+
+  const bounds = parts.map((buffers) => measurePositions(buffers))
+
+  // Parts share one floor on the plate
+  const floor = bounds.reduce((min, b) => Math.min(min, b ? b.min.z : min), Number.POSITIVE_INFINITY)
+
+  // Long sides run along X to keep shelves shallow, unless only the other way fits
+  const footprints: Footprint[] = bounds.map((b, index) => {
+    const w = b ? b.max.x - b.min.x : 0
+    const d = b ? b.max.y - b.min.y : 0
+    const fits = w <= width && d <= depth
+    const fitsRotated = d <= width && w <= depth
+    const rotated = allowRotation && fitsRotated && (!fits || d > w)
+    return rotated ? { index, width: d, depth: w, rotated } : { index, width: w, depth: d, rotated }
+  })
+
+  // Shelves fill the plate from the near edge; whatever runs past the far edge is off the plate
+  const fitsPlate = (footprint: Footprint): boolean => footprint.width <= width && footprint.depth <= depth
+  const order = [...footprints].sort((a, b) => Number(fitsPlate(b)) - Number(fitsPlate(a)) || b.depth - a.depth)
+
+  const placements: Placement[] = new Array(parts.length)
+  let x = 0
+  let y = 0
+  let shelfDepth = 0
+  let offPlate = 0
+  let overflowing = false
+  for (const footprint of order) {
+    // Parts too big for the plate go past its far edge, leaving the plate to the rest
+    if (!overflowing && !fitsPlate(footprint)) {
+      overflowing = true
+      y = Math.max(y + shelfDepth + spacing, depth + spacing)
+      x = 0
+      shelfDepth = 0
+    } else if (x > 0 && x + footprint.width > width) {
+      y += shelfDepth + spacing
+      x = 0
+      shelfDepth = 0
+    }
+
+    const onPlate = x + footprint.width <= width && y + footprint.depth <= depth
+    if (!onPlate) offPlate++
+    placements[footprint.index] = {
+      rotated: footprint.rotated,
+      center: { x: x + footprint.width / 2 - width / 2, y: y + footprint.depth / 2 - depth / 2, z: floor },
+      onPlate,
+    }
+
+    x += footprint.width + spacing
+    shelfDepth = Math.max(shelfDepth, footprint.depth)
+  }
+
+  const positions = new Float32Array(parts.reduce((sum, buffers) => sum + buffers.reduce((n, b) => n + b.length, 0), 0))
+  let offset = 0
+  parts.forEach((buffers, index) => {
+    const b = bounds[index]
+    if (!b) return
+
+    const cx = (b.min.x + b.max.x) / 2
+    const cy = (b.min.y + b.max.y) / 2
+    const { rotated, center } = placements[index]
+
+    for (const part of buffers) {
+      for (let i = 0; i + 2 < part.length; i += 3) {
+        const x = part[i] - cx
+        const y = part[i + 1] - cy
+        positions[offset] = (rotated ? -y : x) + center.x
+        positions[offset + 1] = (rotated ? x : y) + center.y
+        positions[offset + 2] = part[i + 2] - b.min.z + floor
+        offset += 3
+      }
+    }
+  })
+
+  return { positions, placements, offPlate }
+}
+
+export { layoutPlate }
+export type { Placement, PlateLayout, PlateOptions }
@@ -0,0 +1,175 @@
+/**
+ * Nameplates
+ *
+ * Text stamped into a surface, raised above it (emboss) or cut into it
+ * (engrave). Text is laid out with the bundled block font and meshed as a
+ * relief grid over a patch of the surface, so it joins the surrounding faces
+ * without any boolean operations.
+ */
+
+import type { Triangle, Vertex } from './exporter'
+import { GLYPH_HEIGHT, type TextBitmap, layoutText } from './font'
+
+// ============================================================
+// Type Definitions
+// ============================================================
+
+type NameplateMode = 'emboss' | 'engrave'
+
+type NameplatePlacement = 'top' | 'rim'
+
+interface NameplateOptions {
+  text: string
+  mode?: NameplateMode
+  placement?: NameplatePlacement
+  letterHeight?: number
+  depth?: number
+}
+
+interface ReliefGrid {
+  /** Column boundaries along the surface, ascending */
+  us: number[]
+  /** Row boundaries across the surface, ascending */
+  vs: number[]
+  /** Whether the cell containing a point carries text */
+  ink: (u: number, v: number) => boolean
+}
+
+/**
+ * Maps surface coordinates and an offset along the surface normal to a point.
+ * The normal must follow the right-hand rule from u to v.
+ */
+type SurfaceMap = (u: number, v: number, offset: number) => Vertex
+
+interface TextBlock {
+  bitmap: TextBitmap
+  /** Size of one font cell in mm */
+  cell: number
+  width: number
+  height: number
+}
+
+// Boundaries closer than this are merged into one
+const GRID_EPSILON = 1e-6
+
+// ============================================================
+// Layout
+// ============================================================
+
+/**
+ * Lay out nameplate text, shrinking it until the fit check accepts its size.
+ * Returns null when there is nothing to print or it cannot fit.
+ * @param letterHeight - Preferred capital height in mm
+ * @param minLetterHeight - Smallest capital height worth printing in mm
+ * @param fits - Whether a text block of a width and height, drawn with cells of a size, fits the surface
+ */
+function layoutNameplate(
+  text: string,
+  letterHeight: number,
+  minLetterHeight: number,
+  fits: (width: number, height: number, cell: number) => boolean,
+): TextBlock | null {
+  const bitmap = layoutText(text.trim())
+  if (bitmap.columns === 0) return null
+
+  let cell = letterHeight / GLYPH_HEIGHT
+  while (!fits(bitmap.columns * cell, bitmap.rows * cell, cell)) {
+    cell *= 0.9
+    if (cell * GLYPH_HEIGHT < minLetterHeight) return null
+  }
+
+  return { bitmap, cell, width: bitmap.columns * cell, height: bitmap.rows * cell }
+}
+
+/**
+ * Relief grid for a text block with its bottom-left corner at (left, bottom).
+ * Extra boundaries are merged in, e.g. where the surface itself bends.
+ */
+function textGrid(block: TextBlock, left: number, bottom: number, us: number[], vs: number[]): ReliefGrid {
+  const { bitmap, cell } = block
+  const merge = (extra: number[], start: number, count: number): number[] => {
+    const values = [...extra, ...Array.from({ length: count + 1 }, (_, i) => start + i * cell)].sort((a, b) => a - b)
+    return values.filter((value, i) => i === 0 || value - values[i - 1] > GRID_EPSILON)
+  }
+
+  return {
+    us: merge(us, left, bitmap.columns),
+    vs: merge(vs, bottom, bitmap.rows),
+    ink: (u, v) => {
+      const column = Math.floor((u - left) / cell)
+      const row = Math.floor((v - bottom) / cell)
+      if (column < 0 || row < 0 || column >= bitmap.columns || row >= bitmap.rows) return false
+      return bitmap.cells[row * bitmap.columns + column] === 1
+    },
+  }
+}
+
+// ============================================================
+// Relief Meshing
+// ============================================================
+
+/**
+ * Mesh a relief grid: cells with text sit at the offset, the rest on the
+ * surface, with walls where neighbouring cells differ. The outer ring of cells
+ * must be free of text so the patch meets the surrounding faces at the surface.
+ */
+function addRelief(triangles: Triangle[], grid: ReliefGrid, offset: number, map: SurfaceMap): void {
+  const { us, vs } = grid
+  const columns = us.length - 1
+  const rows = vs.length - 1
+
+  const heights: number[] = []
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < columns; c++) {
+      heights.push(grid.ink((us[c] + us[c + 1]) / 2, (vs[r] + vs[r + 1]) / 2) ? offset : 0)
+    }
+  }
+  const heightAt = (c: number, r: number): number => heights[r * columns + c]
+
+  const quad = (a: Vertex, b: Vertex, c: Vertex, d: Vertex): void => {
+    triangles.push({ v1: a, v2: b, v3: c }, { v1: { ...a }, v2: { ...c }, v3: d })
+  }
+
+  // Cell faces, facing along the surface normal
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < columns; c++) {
+      const h = heightAt(c, r)
+      quad(map(us[c], vs[r], h), map(us[c + 1], vs[r], h), map(us[c + 1], vs[r + 1], h), map(us[c], vs[r + 1], h))
+    }
+  }
+
+  // Steps between neighbouring cells face the lower side
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < columns - 1; c++) {
+      const left = heightAt(c, r)
+      const right = heightAt(c + 1, r)
+      if (left === right) continue
+      const u = us[c + 1]
+      const lo = Math.min(left, right)
+      const hi = Math.max(left, right)
+      if (left > right) {
+        quad(map(u, vs[r], lo), map(u, vs[r + 1], lo), map(u, vs[r + 1], hi), map(u, vs[r], hi))
+      } else {
+        quad(map(u, vs[r], lo), map(u, vs[r], hi), map(u, vs[r + 1], hi), map(u, vs[r + 1], lo))
+      }
+    }
+  }
+  for (let r = 0; r < rows - 1; r++) {
+    for (let c = 0; c < columns; c++) {
+      const below = heightAt(c, r)
+      const above = heightAt(c, r + 1)
+      if (below === above) continue
+      const v = vs[r + 1]
+      const lo = Math.min(below, above)
+      const hi = Math.max(below, above)
+      if (below > above) {
+        quad(map(us[c], v, lo), map(us[c], v, hi), map(us[c + 1], v, hi), map(us[c + 1], v, lo))
+      } else {
+        quad(map(us[c], v, lo), map(us[c + 1], v, lo), map(us[c + 1], v, hi), map(us[c], v, hi))
+      }
+    }
+  }
+}
+
+export { GRID_EPSILON, addRelief, layoutNameplate, textGrid }
+export type { NameplateMode, NameplateOptions, NameplatePlacement, ReliefGrid, SurfaceMap, TextBlock }
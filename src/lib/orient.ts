@@ -0,0 +1,216 @@
+/**
+ * Print Orientation
+ *
+ * Searches rotations of a model for the one that is cheapest to print. Each
+ * candidate is scored on the area that would need supports, with extra weight
+ * where supports would scar visible surfaces (the front of the figure and its
+ * head), and on build height. The model is expected Z up and facing -Y, as the
+ * exporter writes it.
+ */
+
+import type { Triangle, Vertex } from './exporter'
+import { measureBounds } from './sizing'
+
+// ============================================================
+// Type Definitions
+// ============================================================
+
+/** Spin about Z, then tilt about X, in degrees */
+interface Orientation {
+  tilt: number
+  spin: number
+}
+
+interface OrientOptions {
+  overhangAngle?: number
+  tiltStep?: number
+  spinStep?: number
+}
+
+interface OrientationCandidate {
+  orientation: Orientation
+  /** Area of faces that would need supports */
+  supportArea: number
+  /** Part of the support area on visible surfaces */
+  visibleSupportArea: number
+  height: number
+  /** Lower is better */
+  score: number
+}
+
+/** Per-triangle data shared by every candidate */
+interface Facet {
+  normal: Vertex
+  area: number
+  visible: boolean
+}
+
+// Supports on visible surfaces count this many times over
+const VISIBLE_WEIGHT = 4
+
+// Weight of build height, relative to the model size, against the share of surface supported
+const HEIGHT_WEIGHT = 0.1
+
+// The top of the figure counts as the head
+const HEAD_SHARE = 0.2
+
+// Faces this close to the bottom rest on the build plate and never need supports
+const BED_TOLERANCE = 0.1
+
+// ============================================================
+// Rotation
+// ============================================================
+
+/**
+ * Rotate a point or direction about the origin
+ */
+function rotateVector(v: Vertex, orientation: Orientation): Vertex {
+  const spin = (orientation.spin * Math.PI) / 180
+  const tilt = (orientation.tilt * Math.PI) / 180
+  const x = v.x * Math.cos(spin) - v.y * Math.sin(spin)
+  const y = v.x * Math.sin(spin) + v.y * Math.cos(spin)
+  return {
+    x,
+    y: y * Math.cos(tilt) - v.z * Math.sin(tilt),
+    z: y * Math.sin(tilt) + v.z * Math.cos(tilt),
+  }
+}
+
+/**
+ * Rotate triangles in place about a centre point
+ */
+function rotateTriangles(triangles: Triangle[], orientation: Orientation, center: Vertex): Triangle[] {
+  for (const tri of triangles) {
+    for (const v of [tri.v1, tri.v2, tri.v3]) {
+      const rotated = rotateVector({ x: v.x - center.x, y: v.y - center.y, z: v.z - center.z }, orientation)
+      v.x = rotated.x + center.x
+      v.y = rotated.y + center.y
+      v.z = rotated.z + center.z
+    }
+  }
+  return triangles
+}
+
+// ============================================================
+// Scoring
+// ============================================================
+
+/**
+ * Normals, areas and visibility of every triangle in the original pose
+ */
+function measureFacets(triangles: Triangle[]): Facet[] {
+  let minZ = Number.POSITIVE_INFINITY
+  let maxZ = Number.NEGATIVE_INFINITY
+  for (const { v1, v2, v3 } of triangles) {
+    minZ = Math.min(minZ, v1.z, v2.z, v3.z)
+    maxZ = Math.max(maxZ, v1.z, v2.z, v3.z)
+  }
+  const headZ = maxZ - (maxZ - minZ) * HEAD_SHARE
+
+  return triangles.map(({ v1, v2, v3 }) => {
+    const ax = v2.x - v1.x
+    const ay = v2.y - v1.y
+    const az = v2.z - v1.z
+    const bx = v3.x - v1.x
+    const by = v3.y - v1.y
+    const bz = v3.z - v1.z
+    const nx = ay * bz - az * by
+    const ny = az * bx - ax * bz
+    const nz = ax * by - ay * bx
+    const length = Math.hypot(nx, ny, nz)
+    const normal = length > 0 ? { x: nx / length, y: ny / length, z: nz / length } : { x: 0, y: 0, z: 0 }
+
+    // The figure faces -Y, and everything on the head shows
+    const visible = normal.y < -0.5 || (v1.z + v2.z + v3.z) / 3 > headZ
+    return { normal, area: length / 2, visible }
+  })
+}
+
+/**
+ * Score one orientation
+ */
+function scoreOrientation(
+  triangles: Triangle[],
+  facets: Facet[],
+  orientation: Orientation,
+  limit: number,
+  surfaceArea: number,
+  size: number,
+): OrientationCandidate {
+  const spin = (orientation.spin * Math.PI) / 180
+  const tilt = (orientation.tilt * Math.PI) / 180
+  const sinSpin = Math.sin(spin)
+  const cosSpin = Math.cos(spin)
+  const sinTilt = Math.sin(tilt)
+  const cosTilt = Math.cos(tilt)
+
+  // Only the height after rotation matters, which needs just the Z row of the rotation
+  const rotatedZ = (v: Vertex): number => (v.x * sinSpin + v.y * cosSpin) * sinTilt + v.z * cosTilt
+
+  let minZ = Number.POSITIVE_INFINITY
+  let maxZ = Number.NEGATIVE_INFINITY
+  const heights = new Float64Array(triangles.length)
+  for (let i = 0; i < triangles.length; i++) {
+    const { v1, v2, v3 } = triangles[i]
+    const z1 = rotatedZ(v1)
+    const z2 = rotatedZ(v2)
+    const z3 = rotatedZ(v3)
+    minZ = Math.min(minZ, z1, z2, z3)
+    maxZ = Math.max(maxZ, z1, z2, z3)
+    heights[i] = Math.max(z1, z2, z3)
+  }
+
+  let supportArea = 0
+  let visibleSupportArea = 0
+  for (let i = 0; i < facets.length; i++) {
+    const { normal, area, visible } = facets[i]
+    if (heights[i] - minZ < BED_TOLERANCE || -rotatedZ(normal) <= limit) continue
+    supportArea += area
+    if (visible) visibleSupportArea += area
+  }
+
+  const height = maxZ - minZ
+  return {
+    orientation,
+    supportArea,
+    visibleSupportArea,
+    height,
+    score: (supportArea + visibleSupportArea * VISIBLE_WEIGHT) / surfaceArea + (height / size) * HEIGHT_WEIGHT,
+  }
+}
+
+/**
+ * Score candidate orientations of a model, best first
+ * @param options.overhangAngle - Steepest overhang printed without supports, in degrees from vertical (default: 60)
+ * @param options.tiltStep - Tilt between candidates, in degrees (default: 15)
+ * @param options.spinStep - Spin between candidates, in degrees (default: 30)
+ */
+function findOrientations(triangles: Triangle[], options: OrientOptions = {}): OrientationCandidate[] {
+  const { overhangAngle = 60, tiltStep = 15, spinStep = 30 } = options
+  if (triangles.length === 0) return []
+
+  const facets = measureFacets(triangles)
+  const surfaceArea = facets.reduce((sum, facet) => sum + facet.area, 0) || 1
+  const limit = Math.sin((overhangAngle * Math.PI) / 180)
+
+  // Every candidate is measured against the same yardstick, the diagonal in the original pose
+  const bounds = measureBounds(triangles)
+  const size = bounds
+    ? Math.hypot(bounds.max.x - bounds.min.x, bounds.max.y - bounds.min.y, bounds.max.z - bounds.min.z) || 1
+    : 1
+
+  const candidates: OrientationCandidate[] = []
+  for (let tilt = 0; tilt <= 180; tilt += tiltStep) {
+    // Spinning an upright or upside-down model changes nothing
+    const spins =
+      tilt === 0 || tilt === 180 ? [0] : Array.from({ length: Math.ceil(360 / spinStep) }, (_, i) => i * spinStep)
+    for (const spin of spins) {
+      candidates.push(scoreOrientation(triangles, facets, { tilt, spin }, limit, surfaceArea, size))
+    }
+  }
+
+  return candidates.sort((a, b) => a.score - b.score)
+}
+
+export { findOrientations, rotateTriangles }
+export type { Orientation, OrientationCandidate, OrientOptions }
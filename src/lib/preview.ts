@@ -0,0 +1,443 @@
+/**
+ * Preview Renderer
+ *
+ * Draws a preview scene with plain WebGL: every mesh in its own colour,
+ * dropped triangles in red and the bounding box as lines. The camera orbits
+ * the bounding box centre by dragging and zooms with the wheel. Faces are lit
+ * from the camera on both sides, so open meshes and flipped faces show too.
+ */
+
+import type { PreviewScene, Triangle, Vertex } from './exporter'
+
+// ============================================================
+// Type Definitions
+// ============================================================
+
+type Color = [number, number, number]
+
+interface PreviewRenderer {
+  setScene(scene: PreviewScene): void
+  dispose(): void
+}
+
+interface Camera {
+  target: Vertex
+  distance: number
+  /** Angle about Z, in radians */
+  yaw: number
+  /** Angle above the ground plane, in radians */
+  pitch: number
+}
+
+// Position, normal and colour per vertex
+const FLOATS_PER_VERTEX = 9
+
+const SKIPPED_COLOR: Color = [1, 0.15, 0.1]
+const BOX_COLOR: Color = [1, 1, 1]
+const BACKGROUND: Color = [0.1, 0.1, 0.12]
+
+const FIELD_OF_VIEW = (35 * Math.PI) / 180
+
+// Radians of orbit per pixel dragged
+const ORBIT_SPEED = 0.01
+
+const VERTEX_SHADER = `
+attribute vec3 position;
+attribute vec3 normal;
+attribute vec3 color;
+uniform mat4 viewProjection;
+uniform vec3 light;
+uniform float shading;
+varying vec3 vColor;
+
+void main() {
+  float lit = 0.3 + 0.7 * abs(dot(normal, light));
+  vColor = color * mix(1.0, lit, shading);
+  gl_Position = viewProjection * vec4(position, 1.0);
+}
+`
+
+const FRAGMENT_SHADER = `
+precision mediump float;
+varying vec3 vColor;
+
+void main() {
+  gl_FragColor = vec4(vColor, 1.0);
+}
+`
+
+// ============================================================
+// Colours
+// ============================================================
+
+/**
+ * Distinct colour for the mesh at an index, spread around the colour wheel
+ */
+function meshColor(index: number): Color {
+  const hue = (index * 137.508) % 360
+  const saturation = 0.55
+  const lightness = 0.6
+
+  const amount = saturation * Math.min(lightness, 1 - lightness)
+  const channel = (n: number): number => {
+    const k = (n + hue / 30) % 12
+    return lightness - amount * Math.max(-1, Math.min(k - 3, 9 - k, 1))
+  }
+  return [channel(0), channel(8), channel(4)]
+}
+
+// ============================================================
+// Matrices
+// ============================================================
+
+/**
+ * Column-major product of two 4x4 matrices
+ */
+function multiply(a: Float32Array, b: Float32Array): Float32Array {
+  const out = new Float32Array(16)
+  for (let column = 0; column < 4; column++) {
+    for (let row = 0; row < 4; row++) {
+      let sum = 0
+      for (let k = 0; k < 4; k++) sum += a[k * 4 + row] * b[column * 4 + k]
+      out[column * 4 + row] = sum
+    }
+  }
+  return out
+}
+
+/**
+ * Perspective projection, column-major
+ */
+function perspective(fov: number, aspect: number, near: number, far: number): Float32Array {
+  const f = 1 / Math.tan(fov / 2)
+  return new Float32Array([
+    f / aspect,
+    0,
+    0,
+    0,
+    0,
+    f,
+    0,
+    0,
+    0,
+    0,
+    (far + near) / (near - far),
+    -1,
+    0,
+    0,
+    (2 * far * near) / (near - far),
+    0,
+  ])
+}
+
+/**
+ * View matrix of a camera at the eye looking at the target, column-major
+ */
+function lookAt(eye: Vertex, target: Vertex): Float32Array {
+  const normalize = (v: Vertex): Vertex => {
+    const length = Math.hypot(v.x, v.y, v.z) || 1
+    return { x: v.x / length, y: v.y / length, z: v.z / length }
+  }
+  const cross = (a: Vertex, b: Vertex): Vertex => ({
+    x: a.y * b.z - a.z * b.y,
+    y: a.z * b.x - a.x * b.z,
+    z: a.x * b.y - a.y * b.x,
+  })
+  const dot = (a: Vertex, b: Vertex): number => a.x * b.x + a.y * b.y + a.z * b.z
+
+  // Z is up in the output frame
+  const z = normalize({ x: eye.x - target.x, y: eye.y - target.y, z: eye.z - target.z })
+  const x = normalize(cross({ x: 0, y: 0, z: 1 }, z))
+  const y = cross(z, x)
+  return new Float32Array([
+    x.x,
+    y.x,
+    z.x,
+    0,
+    x.y,
+    y.y,
+    z.y,
+    0,
+    x.z,
+    y.z,
+    z.z,
+    0,
+    -dot(x, eye),
+    -dot(y, eye),
+    -dot(z, eye),
+    1,
+  ])
+}
+
+// ============================================================
+// Geometry
+// ============================================================
+
+/**
+ * Interleave triangles with their flat normals and colour
+ */
+function writeTriangles(data: Float32Array, offset: number, triangles: Triangle[], color: Color): number {
+  let index = offset
+  for (const { v1, v2, v3 } of triangles) {
+    const ax = v2.x - v1.x
+    const ay = v2.y - v1.y
+    const az = v2.z - v1.z
+    const bx = v3.x - v1.x
+    const by = v3.y - v1.y
+    const bz = v3.z - v1.z
+    let nx = ay * bz - az * by
+    let ny = az * bx - ax * bz
+    let nz = ax * by - ay * bx
+    const length = Math.hypot(nx, ny, nz)
+    if (length > 0) {
+      nx /= length
+      ny /= length
+      nz /= length
+    } else {
+      nz = 1
+    }
+
+    for (const v of [v1, v2, v3]) {
+      data[index] = v.x
+      data[index + 1] = v.y
+      data[index + 2] = v.z
+      data[index + 3] = nx
+      data[index + 4] = ny
+      data[index + 5] = nz
+      data[index + 6] = color[0]
+      data[index + 7] = color[1]
+      data[index + 8] = color[2]
+      index += FLOATS_PER_VERTEX
+    }
+  }
+  return index
+}
+
+/**
+ * The twelve edges of the bounding box as line vertices
+ */
+function boxLines(min: Vertex, max: Vertex): Float32Array {
+  const corner = (i: number): Vertex => ({
+    x: i & 1 ? max.x : min.x,
+    y: i & 2 ? max.y : min.y,
+    z: i & 4 ? max.z : min.z,
+  })
+  const edges = [
+    [0, 1],
+    [2, 3],
+    [4, 5],
+    [6, 7],
+    [0, 2],
+    [1, 3],
+    [4, 6],
+    [5, 7],
+    [0, 4],
+    [1, 5],
+    [2, 6],
+    [3, 7],
+  ]
+
+  const data = new Float32Array(edges.length * 2 * FLOATS_PER_VERTEX)
+  edges.flat().forEach((i, n) => {
+    const v = corner(i)
+    data.set([v.x, v.y, v.z, 0, 0, 1, ...BOX_COLOR], n * FLOATS_PER_VERTEX)
+  })
+  return data
+}
+
+// ============================================================
+// Renderer
+// ============================================================
+
+/**
+ * Compile and link the preview shaders
+ */
+function compileProgram(gl: WebGLRenderingContext): WebGLProgram | null {
+  const program = gl.createProgram()
+  if (!program) return null
+
+  for (const [type, source] of [
+    [gl.VERTEX_SHADER, VERTEX_SHADER],
+    [gl.FRAGMENT_SHADER, FRAGMENT_SHADER],
+  ] as const) {
+    const shader = gl.createShader(type)
+    if (!shader) return null
+    gl.shaderSource(shader, source)
+    gl.compileShader(shader)
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      console.error('Preview shader failed to compile:', gl.getShaderInfoLog(shader))
+      return null
+    }
+    gl.attachShader(program, shader)
+    gl.deleteShader(shader)
+  }
+
+  gl.linkProgram(program)
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    console.error('Preview shaders failed to link:', gl.getProgramInfoLog(program))
+    return null
+  }
+  return program
+}
+
+/**
+ * Start drawing previews into a canvas
+ * @returns The renderer, or null when WebGL is not available
+ */
+function createPreviewRenderer(canvas: HTMLCanvasElement): PreviewRenderer | null {
+  const gl = canvas.getContext('webgl', { antialias: true })
+  if (!gl) {
+    console.error('WebGL is not available for the preview.')
+    return null
+  }
+
+  const program = compileProgram(gl)
+  if (!program) return null
+
+  const meshBuffer = gl.createBuffer()
+  const boxBuffer = gl.createBuffer()
+  const attributes = (['position', 'normal', 'color'] as const).map((name) => gl.getAttribLocation(program, name))
+  const viewProjection = gl.getUniformLocation(program, 'viewProjection')
+  const light = gl.getUniformLocation(program, 'light')
+  const shading = gl.getUniformLocation(program, 'shading')
+
+  let meshVertices = 0
+  let boxVertices = 0
+  let frame = 0
+  const camera: Camera = { target: { x: 0, y: 0, z: 0 }, distance: 100, yaw: -Math.PI / 2, pitch: 0.35 }
+
+  const bindVertices = (buffer: WebGLBuffer | null): void => {
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer)
+    const stride = FLOATS_PER_VERTEX * 4
+    attributes.forEach((location, i) => {
+      gl.enableVertexAttribArray(location)
+      gl.vertexAttribPointer(location, 3, gl.FLOAT, false, stride, i * 12)
+    })
+  }
+
+  const draw = (): void => {
+    frame = 0
+    const ratio = window.devicePixelRatio || 1
+    const width = Math.max(1, Math.round(canvas.clientWidth * ratio))
+    const height = Math.max(1, Math.round(canvas.clientHeight * ratio))
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width
+      canvas.height = height
+    }
+
+    gl.viewport(0, 0, width, height)
+    gl.clearColor(...BACKGROUND, 1)
+    gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT)
+    gl.enable(gl.DEPTH_TEST)
+    gl.useProgram(program)
+
+    const { target, distance, yaw, pitch } = camera
+    const direction = {
+      x: Math.cos(pitch) * Math.cos(yaw),
+      y: Math.cos(pitch) * Math.sin(yaw),
+      z: Math.sin(pitch),
+    }
+    const eye = {
+      x: target.x + direction.x * distance,
+      y: target.y + direction.y * distance,
+      z: target.z + direction.z * distance,
+    }
+    const projection = perspective(FIELD_OF_VIEW, width / height, distance / 100, distance * 100)
+    gl.uniformMatrix4fv(viewProjection, false, multiply(projection, lookAt(eye, target)))
+    gl.uniform3f(light, direction.x, direction.y, direction.z)
+
+    gl.uniform1f(shading, 1)
+    bindVertices(meshBuffer)
+    gl.drawArrays(gl.TRIANGLES, 0, meshVertices)
+
+    gl.uniform1f(shading, 0)
+    bindVertices(boxBuffer)
+    gl.drawArrays(gl.LINES, 0, boxVertices)
+  }
+
+  const redraw = (): void => {
+    if (frame === 0) frame = requestAnimationFrame(draw)
+  }
+
+  // Orbit by dragging, zoom with the wheel
+  let dragging: { x: number; y: number } | null = null
+  const onPointerDown = (event: PointerEvent): void => {
+    dragging = { x: event.clientX, y: event.clientY }
+    canvas.setPointerCapture(event.pointerId)
+  }
+  const onPointerMove = (event: PointerEvent): void => {
+    if (!dragging) return
+    camera.yaw -= (event.clientX - dragging.x) * ORBIT_SPEED
+    camera.pitch = Math.max(
+      -Math.PI / 2 + 0.01,
+      Math.min(Math.PI / 2 - 0.01, camera.pitch + (event.clientY - dragging.y) * ORBIT_SPEED),
+    )
+    dragging = { x: event.clientX, y: event.clientY }
+    redraw()
+  }
+  const onPointerUp = (event: PointerEvent): void => {
+    dragging = null
+    canvas.releasePointerCapture(event.pointerId)
+  }
+  const onWheel = (event: WheelEvent): void => {
+    event.preventDefault()
+    camera.distance *= Math.exp(event.deltaY * 0.001)
+    redraw()
+  }
+
+  canvas.addEventListener('pointerdown', onPointerDown)
+  canvas.addEventListener('pointermove', onPointerMove)
+  canvas.addEventListener('pointerup', onPointerUp)
+  canvas.addEventListener('wheel', onWheel, { passive: false })
+
+  return {
+    setScene(scene: PreviewScene): void {
+      const total = scene.meshes.reduce((sum, mesh) => sum + mesh.triangles.length, scene.skipped.length)
+      const data = new Float32Array(total * 3 * FLOATS_PER_VERTEX)
+      let offset = 0
+      scene.meshes.forEach((mesh, index) => {
+        offset = writeTriangles(data, offset, mesh.triangles, meshColor(index))
+      })
+      writeTriangles(data, offset, scene.skipped, SKIPPED_COLOR)
+
+      gl.bindBuffer(gl.ARRAY_BUFFER, meshBuffer)
+      gl.bufferData(gl.ARRAY_BUFFER, data, gl.STATIC_DRAW)
+      meshVertices = total * 3
+
+      const box = scene.boundingBox
+      if (box) {
+        const lines = boxLines(box.min, box.max)
+        gl.bindBuffer(gl.ARRAY_BUFFER, boxBuffer)
+        gl.bufferData(gl.ARRAY_BUFFER, lines, gl.STATIC_DRAW)
+        boxVertices = lines.length / FLOATS_PER_VERTEX
+
+        // Frame the included meshes, whatever the dropped triangles do
+        camera.target = {
+          x: (box.min.x + box.max.x) / 2,
+          y: (box.min.y + box.max.y) / 2,
+          z: (box.min.z + box.max.z) / 2,
+        }
+        const radius = Math.hypot(box.max.x - box.min.x, box.max.y - box.min.y, box.max.z - box.min.z) / 2
+        camera.distance = (radius / Math.sin(FIELD_OF_VIEW / 2)) * 1.1 || 100
+      } else {
+        boxVertices = 0
+      }
+
+      redraw()
+    },
+
+    dispose(): void {
+      if (frame !== 0) cancelAnimationFrame(frame)
+      canvas.removeEventListener('pointerdown', onPointerDown)
+      canvas.removeEventListener('pointermove', onPointerMove)
+      canvas.removeEventListener('pointerup', onPointerUp)
+      canvas.removeEventListener('wheel', onWheel)
+      gl.deleteBuffer(meshBuffer)
+      gl.deleteBuffer(boxBuffer)
+      gl.deleteProgram(program)
+    },
+  }
+}
+
+export { SKIPPED_COLOR, createPreviewRenderer, meshColor }
+export type { Color, PreviewRenderer }
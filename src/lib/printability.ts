@@ -0,0 +1,296 @@
+/**
+ * Printability Checks
+ *
+ * Looks for the usual reasons a print fails, on the final geometry at its
+ * physical size. Thin walls are found by voxelising the model as in solidify
+ * and opening it with a ball the size of the minimum wall: solid that the ball
+ * cannot reach is thinner than the printer can hold. Solid voxels are also
+ * grouped into connected islands, and downward-facing triangles are summed up
+ * as overhang area.
+ */
+
+import type { Vertex } from './exporter'
+import { depthField } from './hollow'
+import { type VoxelGrid, createSolidGrid } from './solidify'
+
+// ============================================================
+// Type Definitions
+// ============================================================
+
+interface PrintabilityOptions {
+  minWallThickness?: number
+  overhangAngle?: number
+  maxVoxels?: number
+}
+
+interface ThinRegion {
+  /** Centre of the region, in output units */
+  center: Vertex
+  /** Thickest point of the region, to within a voxel */
+  thickness: number
+  volume: number
+}
+
+interface Island {
+  center: Vertex
+  volume: number
+}
+
+interface PrintabilityReport {
+  /** Walls thinner than the minimum, thinnest first; empty when not checked */
+  thinRegions: ThinRegion[]
+  /** Whether the voxels were fine enough to check wall thickness */
+  wallsChecked: boolean
+  /** Pieces that are not connected to the main body and do not reach the build plate */
+  floatingIslands: Island[]
+  /** Area of faces overhanging further than the overhang angle */
+  overhangArea: number
+  surfaceArea: number
+  voxelSize: number
+}
+
+interface Components {
+  /** Component id per voxel, starting at 1, or 0 outside the set */
+  labels: Int32Array
+  /** Voxel count per component id */
+  sizes: number[]
+}
+
+// Walls are measured with at least this many voxels across the minimum thickness
+const VOXELS_PER_WALL = 4
+
+// Thin regions smaller than this are voxel noise along edges
+const MIN_THIN_VOXELS = 8
+
+// Faces this close to the bottom rest on the build plate and never overhang
+const BED_TOLERANCE = 0.1
+
+// ============================================================
+// Voxel Analysis
+// ============================================================
+
+/**
+ * Label face-connected components of the voxels set in a mask
+ */
+function labelComponents(grid: VoxelGrid, mask: Uint8Array): Components {
+  const { nx, ny, nz } = grid
+  const total = nx * ny * nz
+  const labels = new Int32Array(total)
+  const queue = new Int32Array(total)
+  const sizes = [0]
+
+  for (let seed = 0; seed < total; seed++) {
+    if (!mask[seed] || labels[seed] !== 0) continue
+
+    const id = sizes.length
+    let head = 0
+    let tail = 0
+    labels[seed] = id
+    queue[tail++] = seed
+
+    while (head < tail) {
+      const index = queue[head++]
+      const i = index % nx
+      const j = Math.floor(index / nx) % ny
+      const k = Math.floor(index / (nx * ny))
+
+      const visit = (neighbor: number): void => {
+        if (mask[neighbor] && labels[neighbor] === 0) {
+          labels[neighbor] = id
+          queue[tail++] = neighbor
+        }
+      }
+
+      if (i > 0) visit(index - 1)
+      if (i < nx - 1) visit(index + 1)
+      if (j > 0) visit(index - nx)
+      if (j < ny - 1) visit(index + nx)
+      if (k > 0) visit(index - nx * ny)
+      if (k < nz - 1) visit(index + nx * ny)
+    }
+
+    sizes.push(tail)
+  }
+
+  return { labels, sizes }
+}
+
+/**
+ * Centre of every component, in output units
+ */
+function componentCenters(grid: VoxelGrid, components: Components): Vertex[] {
+  const { nx, ny, voxelSize, origin } = grid
+  const { labels, sizes } = components
+  const sums = sizes.map(() => ({ x: 0, y: 0, z: 0 }))
+
+  for (let index = 0; index < labels.length; index++) {
+    const id = labels[index]
+    if (id === 0) continue
+    sums[id].x += index % nx
+    sums[id].y += Math.floor(index / nx) % ny
+    sums[id].z += Math.floor(index / (nx * ny))
+  }
+
+  return sums.map((sum, id) => ({
+    x: origin.x + (sum.x / Math.max(sizes[id], 1) + 0.5) * voxelSize,
+    y: origin.y + (sum.y / Math.max(sizes[id], 1) + 0.5) * voxelSize,
+    z: origin.z + (sum.z / Math.max(sizes[id], 1) + 0.5) * voxelSize,
+  }))
+}
+
+/**
+ * Find solid that a ball of the minimum wall thickness cannot reach. Voxels
+ * deep enough to hold the ball form the core; solid further than one wall
+ * thickness from the core is reported, which skips the corners of thick parts.
+ */
+function findThinRegions(grid: VoxelGrid, minWallThickness: number): ThinRegion[] {
+  const { voxelSize, data } = grid
+  const radius = minWallThickness / voxelSize / 2
+
+  // Distances run to the first empty voxel centre, past the voxels the surface was rasterised into
+  const depth = depthField(grid)
+  const halfThickness = (index: number): number => Math.max(Math.sqrt(depth[index]) - 1, 0.5)
+
+  const outsideCore = new Uint8Array(data.length)
+  for (let i = 0; i < data.length; i++) {
+    outsideCore[i] = data[i] && halfThickness(i) >= radius ? 0 : 1
+  }
+  const coreDistance = depthField({ ...grid, data: outsideCore })
+
+  const limit = (radius * 2) ** 2
+  const thin = new Uint8Array(data.length)
+  for (let i = 0; i < data.length; i++) {
+    thin[i] = data[i] && coreDistance[i] > limit ? 1 : 0
+  }
+
+  const components = labelComponents(grid, thin)
+  const centers = componentCenters(grid, components)
+  const thickest = components.sizes.map(() => 0)
+  for (let i = 0; i < thin.length; i++) {
+    const id = components.labels[i]
+    if (id !== 0) thickest[id] = Math.max(thickest[id], halfThickness(i))
+  }
+
+  const regions: ThinRegion[] = []
+  for (let id = 1; id < components.sizes.length; id++) {
+    if (components.sizes[id] < MIN_THIN_VOXELS) continue
+    regions.push({
+      center: centers[id],
+      thickness: Math.min(thickest[id] * 2 * voxelSize, minWallThickness),
+      volume: components.sizes[id] * voxelSize ** 3,
+    })
+  }
+
+  return regions.sort((a, b) => a.thickness - b.thickness)
+}
+
+/**
+ * Find solid pieces other than the largest one that do not reach the lowest layer
+ */
+function findFloatingIslands(grid: VoxelGrid): Island[] {
+  const { nx, ny, voxelSize, data } = grid
+  const components = labelComponents(grid, data)
+  const { labels, sizes } = components
+
+  let main = 0
+  for (let id = 1; id < sizes.length; id++) {
+    if (sizes[id] > sizes[main]) main = id
+  }
+
+  // Anything starting within a voxel of the lowest solid layer rests on the plate
+  const lowest = sizes.map(() => Number.POSITIVE_INFINITY)
+  for (let index = 0; index < labels.length; index++) {
+    const id = labels[index]
+    if (id !== 0) lowest[id] = Math.min(lowest[id], Math.floor(index / (nx * ny)))
+  }
+  const bottom = lowest.reduce((a, b) => Math.min(a, b), Number.POSITIVE_INFINITY)
+
+  const centers = componentCenters(grid, components)
+  const islands: Island[] = []
+  for (let id = 1; id < sizes.length; id++) {
+    if (id === main || lowest[id] <= bottom + 1) continue
+    islands.push({ center: centers[id], volume: sizes[id] * voxelSize ** 3 })
+  }
+
+  return islands.sort((a, b) => b.volume - a.volume)
+}
+
+// ============================================================
+// Surface Analysis
+// ============================================================
+
+/**
+ * Total surface area and the area of faces tilted further from vertical than
+ * the overhang angle, leaving out faces that rest on the build plate
+ */
+function measureOverhangs(
+  positions: Float32Array,
+  overhangAngle: number,
+): { overhangArea: number; surfaceArea: number } {
+  let minZ = Number.POSITIVE_INFINITY
+  for (let i = 2; i < positions.length; i += 3) {
+    minZ = Math.min(minZ, positions[i])
+  }
+
+  const limit = Math.sin((overhangAngle * Math.PI) / 180)
+  let overhangArea = 0
+  let surfaceArea = 0
+
+  for (let t = 0; t + 9 <= positions.length; t += 9) {
+    const ax = positions[t + 3] - positions[t]
+    const ay = positions[t + 4] - positions[t + 1]
+    const az = positions[t + 5] - positions[t + 2]
+    const bx = positions[t + 6] - positions[t]
+    const by = positions[t + 7] - positions[t + 1]
+    const bz = positions[t + 8] - positions[t + 2]
+    const nx = ay * bz - az * by
+    const ny = az * bx - ax * bz
+    const nz = ax * by - ay * bx
+    const length = Math.hypot(nx, ny, nz)
+    if (length === 0) continue
+
+    const area = length / 2
+    surfaceArea += area
+
+    const onBed = Math.max(positions[t + 2], positions[t + 5], positions[t + 8]) - minZ < BED_TOLERANCE
+    if (!onBed && -nz / length > limit) overhangArea += area
+  }
+
+  return { overhangArea, surfaceArea }
+}
+
+// ============================================================
+// Printability Report
+// ============================================================
+
+/**
+ * Check a finished mesh, packed nine floats per triangle, for features that are likely to fail in print
+ * @param options.minWallThickness - Thinnest wall the printer holds, in output units (default: 0.8)
+ * @param options.overhangAngle - Steepest printable overhang, in degrees from vertical (default: 60)
+ * @param options.maxVoxels - Upper bound on the grid size before the voxel size grows (default: 8M)
+ */
+function analyzePrintability(positions: Float32Array, options: PrintabilityOptions = {}): PrintabilityReport {
+  const { minWallThickness = 0.8, overhangAngle = 60, maxVoxels = 8_000_000 } = options
+
+  const { overhangArea, surfaceArea } = measureOverhangs(positions, overhangAngle)
+  if (positions.length === 0) {
+    return { thinRegions: [], wallsChecked: false, floatingIslands: [], overhangArea, surfaceArea, voxelSize: 0 }
+  }
+
+  const grid = createSolidGrid(positions, minWallThickness / VOXELS_PER_WALL, maxVoxels)
+
+  // A grid that had to grow coarser than half a wall cannot tell thin walls apart
+  const wallsChecked = grid.voxelSize <= minWallThickness / 2
+
+  return {
+    thinRegions: wallsChecked ? findThinRegions(grid, minWallThickness) : [],
+    wallsChecked,
+    floatingIslands: findFloatingIslands(grid),
+    overhangArea,
+    surfaceArea,
+    voxelSize: grid.voxelSize,
+  }
+}
+
+export { analyzePrintability }
+export type { Island, PrintabilityOptions, PrintabilityReport, ThinRegion }
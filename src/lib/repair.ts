@@ -0,0 +1,435 @@
+/**
+ * Mesh Repair
+ *
+ * Turns the triangle soup produced by the exporter into a cleaner mesh:
+ * welds vertices, removes degenerate and duplicate faces, makes winding
+ * consistent, reports non-manifold edges and boundary loops, and fills
+ * small holes.
+ */
+
+import type { Triangle, Vertex } from './exporter'
+
+// ============================================================
+// Type Definitions
+// ============================================================
+
+interface WeldedMesh {
+  positions: number[]
+  indices: number[]
+}
+
+interface RepairOptions {
+  weldTolerance?: number
+  maxHoleEdges?: number
+}
+
+interface RepairReport {
+  inputTriangles: number
+  outputTriangles: number
+  weldedVertices: number
+  degenerateRemoved: number
+  duplicatesRemoved: number
+  flippedTriangles: number
+  nonManifoldEdges: number
+  boundaryLoops: number
+  holesFilled: number
+}
+
+interface RepairResult {
+  triangles: Triangle[]
+  report: RepairReport
+}
+
+// ============================================================
+// Welding
+// ============================================================
+
+/**
+ * Weld triangle corners that lie within the tolerance of each other
+ */
+function weldTriangles(triangles: Triangle[], tolerance: number): WeldedMesh {
+  const positions: number[] = []
+  const indices: number[] = []
+  const cellSize = tolerance > 0 ? tolerance : 1e-6
+  const grid = new Map<string, number[]>()
+  const toleranceSq = tolerance * tolerance
+
+  const addVertex = (v: Vertex): number => {
+    const cx = Math.floor(v.x / cellSize)
+    const cy = Math.floor(v.y / cellSize)
+    const cz = Math.floor(v.z / cellSize)
+
+    // Look for an existing vertex in the surrounding cells
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          const cell = grid.get(`${cx + dx},${cy + dy},${cz + dz}`)
+          if (!cell) continue
+          for (const index of cell) {
+            const ox = positions[index * 3] - v.x
+            const oy = positions[index * 3 + 1] - v.y
+            const oz = positions[index * 3 + 2] - v.z
+            if (ox * ox + oy * oy + oz * oz <= toleranceSq) {
+              return index
+            }
+          }
+        }
+      }
+    }
+
+    const index = positions.length / 3
+    positions.push(v.x, v.y, v.z)
+    const key = `${cx},${cy},${cz}`
+    const cell = grid.get(key)
+    if (cell) {
+      cell.push(index)
+    } else {
+      grid.set(key, [index])
+    }
+    return index
+  }
+
+  for (const tri of triangles) {
+    indices.push(addVertex(tri.v1), addVertex(tri.v2), addVertex(tri.v3))
+  }
+
+  return { positions, indices }
+}
+
+/**
+ * Convert a welded mesh back into triangles.
+ * Every corner gets its own vertex object so later in-place transforms stay safe.
+ */
+function weldedToTriangles(mesh: WeldedMesh): Triangle[] {
+  const { positions, indices } = mesh
+  const getVertex = (idx: number): Vertex => ({
+    x: positions[idx * 3],
+    y: positions[idx * 3 + 1],
+    z: positions[idx * 3 + 2],
+  })
+
+  const triangles: Triangle[] = []
+  for (let i = 0; i < indices.length; i += 3) {
+    triangles.push({ v1: getVertex(indices[i]), v2: getVertex(indices[i + 1]), v3: getVertex(indices[i + 2]) })
+  }
+  return triangles
+}
+
+/**
+ * Pack triangles into flat positions, nine floats per triangle
+ */
+function packTriangles(triangles: Triangle[]): Float32Array {
+  const positions = new Float32Array(triangles.length * 9)
+  triangles.forEach(({ v1, v2, v3 }, t) => {
+    const offset = t * 9
+    positions[offset] = v1.x
+    positions[offset + 1] = v1.y
+    positions[offset + 2] = v1.z
+    positions[offset + 3] = v2.x
+    positions[offset + 4] = v2.y
+    positions[offset + 5] = v2.z
+    positions[offset + 6] = v3.x
+    positions[offset + 7] = v3.y
+    positions[offset + 8] = v3.z
+  })
+  return positions
+}
+
+/**
+ * Unpack flat positions into triangles, with a vertex object per corner
+ */
+function unpackTriangles(positions: Float32Array): Triangle[] {
+  const getVertex = (offset: number): Vertex => ({
+    x: positions[offset],
+    y: positions[offset + 1],
+    z: positions[offset + 2],
+  })
+
+  const triangles: Triangle[] = []
+  for (let offset = 0; offset + 9 <= positions.length; offset += 9) {
+    triangles.push({ v1: getVertex(offset), v2: getVertex(offset + 3), v3: getVertex(offset + 6) })
+  }
+  return triangles
+}
+
+// ============================================================
+// Cleanup
+// ============================================================
+
+/**
+ * Twice the area of a welded triangle
+ */
+function triangleArea2(positions: number[], a: number, b: number, c: number): number {
+  const ax = positions[b * 3] - positions[a * 3]
+  const ay = positions[b * 3 + 1] - positions[a * 3 + 1]
+  const az = positions[b * 3 + 2] - positions[a * 3 + 2]
+  const bx = positions[c * 3] - positions[a * 3]
+  const by = positions[c * 3 + 1] - positions[a * 3 + 1]
+  const bz = positions[c * 3 + 2] - positions[a * 3 + 2]
+  const nx = ay * bz - az * by
+  const ny = az * bx - ax * bz
+  const nz = ax * by - ay * bx
+  return Math.sqrt(nx * nx + ny * ny + nz * nz)
+}
+
+/**
+ * Remove degenerate triangles and duplicates of the same vertex set
+ */
+function removeBadTriangles(mesh: WeldedMesh): { indices: number[]; degenerate: number; duplicates: number } {
+  const { positions } = mesh
+  const indices: number[] = []
+  const seen = new Set<string>()
+  let degenerate = 0
+  let duplicates = 0
+
+  for (let i = 0; i < mesh.indices.length; i += 3) {
+    const a = mesh.indices[i]
+    const b = mesh.indices[i + 1]
+    const c = mesh.indices[i + 2]
+
+    if (a === b || b === c || a === c || triangleArea2(positions, a, b, c) <= 1e-12) {
+      degenerate++
+      continue
+    }
+
+    const key = [a, b, c].sort((x, y) => x - y).join(',')
+    if (seen.has(key)) {
+      duplicates++
+      continue
+    }
+    seen.add(key)
+
+    indices.push(a, b, c)
+  }
+
+  return { indices, degenerate, duplicates }
+}
+
+/**
+ * Map each undirected edge to the triangles that use it
+ */
+function buildEdgeMap(indices: number[]): Map<string, number[]> {
+  const edges = new Map<string, number[]>()
+  for (let t = 0; t < indices.length / 3; t++) {
+    for (let e = 0; e < 3; e++) {
+      const a = indices[t * 3 + e]
+      const b = indices[t * 3 + ((e + 1) % 3)]
+      const key = a < b ? `${a},${b}` : `${b},${a}`
+      const faces = edges.get(key)
+      if (faces) {
+        faces.push(t)
+      } else {
+        edges.set(key, [t])
+      }
+    }
+  }
+  return edges
+}
+
+/**
+ * Check whether a triangle traverses the edge a -> b in that direction
+ */
+function hasDirectedEdge(indices: number[], t: number, a: number, b: number): boolean {
+  for (let e = 0; e < 3; e++) {
+    if (indices[t * 3 + e] === a && indices[t * 3 + ((e + 1) % 3)] === b) {
+      return true
+    }
+  }
+  return false
+}
+
+/**
+ * Flip a triangle in place
+ */
+function flipTriangle(indices: number[], t: number): void {
+  const tmp = indices[t * 3 + 1]
+  indices[t * 3 + 1] = indices[t * 3 + 2]
+  indices[t * 3 + 2] = tmp
+}
+
+/**
+ * Make winding consistent across manifold edges, then orient each connected
+ * component so its signed volume is positive (normals facing outwards)
+ */
+function unifyWinding(positions: number[], indices: number[]): number {
+  const triangleCount = indices.length / 3
+  const edges = buildEdgeMap(indices)
+  const visited = new Uint8Array(triangleCount)
+  const flipped = new Uint8Array(triangleCount)
+
+  for (let start = 0; start < triangleCount; start++) {
+    if (visited[start]) continue
+
+    const component: number[] = []
+    const queue = [start]
+    visited[start] = 1
+
+    while (queue.length > 0) {
+      const t = queue.pop() as number
+      component.push(t)
+
+      for (let e = 0; e < 3; e++) {
+        const a = indices[t * 3 + e]
+        const b = indices[t * 3 + ((e + 1) % 3)]
+        const faces = edges.get(a < b ? `${a},${b}` : `${b},${a}`)
+        if (!faces || faces.length !== 2) continue
+
+        const neighbor = faces[0] === t ? faces[1] : faces[0]
+        if (visited[neighbor]) continue
+        visited[neighbor] = 1
+
+        // A consistently wound neighbor traverses the shared edge as b -> a
+        if (hasDirectedEdge(indices, neighbor, a, b)) {
+          flipTriangle(indices, neighbor)
+          flipped[neighbor] ^= 1
+        }
+        queue.push(neighbor)
+      }
+    }
+
+    let volume = 0
+    for (const t of component) {
+      const a = indices[t * 3] * 3
+      const b = indices[t * 3 + 1] * 3
+      const c = indices[t * 3 + 2] * 3
+      volume +=
+        positions[a] * (positions[b + 1] * positions[c + 2] - positions[b + 2] * positions[c + 1]) -
+        positions[a + 1] * (positions[b] * positions[c + 2] - positions[b + 2] * positions[c]) +
+        positions[a + 2] * (positions[b] * positions[c + 1] - positions[b + 1] * positions[c])
+    }
+
+    if (volume < 0) {
+      for (const t of component) {
+        flipTriangle(indices, t)
+        flipped[t] ^= 1
+      }
+    }
+  }
+
+  return flipped.reduce((sum, value) => sum + value, 0)
+}
+
+// ============================================================
+// Boundary Analysis and Hole Filling
+// ============================================================
+
+/**
+ * Trace boundary edges into loops that follow the triangle winding
+ */
+function findBoundaryLoops(indices: number[], edges: Map<string, number[]>): number[][] {
+  const next = new Map<number, number[]>()
+
+  for (const faces of edges.values()) {
+    if (faces.length !== 1) continue
+    const t = faces[0]
+    for (let e = 0; e < 3; e++) {
+      const a = indices[t * 3 + e]
+      const b = indices[t * 3 + ((e + 1) % 3)]
+      const key = a < b ? `${a},${b}` : `${b},${a}`
+      if (edges.get(key) === faces) {
+        const targets = next.get(a)
+        if (targets) {
+          targets.push(b)
+        } else {
+          next.set(a, [b])
+        }
+      }
+    }
+  }
+
+  const loops: number[][] = []
+  for (const start of next.keys()) {
+    while ((next.get(start)?.length ?? 0) > 0) {
+      const loop = [start]
+      let current = (next.get(start) as number[]).pop() as number
+
+      while (current !== start) {
+        loop.push(current)
+        const targets = next.get(current)
+        if (!targets || targets.length === 0) break
+        current = targets.pop() as number
+      }
+
+      if (current === start && loop.length >= 3) {
+        loops.push(loop)
+      }
+    }
+  }
+
+  return loops
+}
+
+/**
+ * Close a boundary loop with a fan around its centroid
+ */
+function fillLoop(positions: number[], indices: number[], loop: number[]): void {
+  let cx = 0
+  let cy = 0
+  let cz = 0
+  for (const v of loop) {
+    cx += positions[v * 3]
+    cy += positions[v * 3 + 1]
+    cz += positions[v * 3 + 2]
+  }
+
+  const center = positions.length / 3
+  positions.push(cx / loop.length, cy / loop.length, cz / loop.length)
+
+  // Boundary edges run a -> b in their triangle, so the cap must run b -> a
+  for (let i = 0; i < loop.length; i++) {
+    const a = loop[i]
+    const b = loop[(i + 1) % loop.length]
+    indices.push(b, a, center)
+  }
+}
+
+// ============================================================
+// Repair Pipeline
+// ============================================================
+
+/**
+ * Repair a triangle soup so slicers see a cleaner, consistently wound mesh
+ * @param options.weldTolerance - Distance below which vertices are merged (default: 0.001)
+ * @param options.maxHoleEdges - Largest boundary loop that gets filled (default: 32)
+ */
+function repairTriangles(triangles: Triangle[], options: RepairOptions = {}): RepairResult {
+  const { weldTolerance = 0.001, maxHoleEdges = 32 } = options
+
+  const welded = weldTriangles(triangles, weldTolerance)
+  const { positions } = welded
+  const { indices, degenerate, duplicates } = removeBadTriangles(welded)
+  const flippedTriangles = unifyWinding(positions, indices)
+
+  const edges = buildEdgeMap(indices)
+  let nonManifoldEdges = 0
+  for (const faces of edges.values()) {
+    if (faces.length > 2) nonManifoldEdges++
+  }
+
+  const loops = findBoundaryLoops(indices, edges)
+  let holesFilled = 0
+  for (const loop of loops) {
+    if (loop.length <= maxHoleEdges && new Set(loop).size === loop.length) {
+      fillLoop(positions, indices, loop)
+      holesFilled++
+    }
+  }
+
+  return {
+    triangles: weldedToTriangles({ positions, indices }),
+    report: {
+      inputTriangles: triangles.length,
+      outputTriangles: indices.length / 3,
+      weldedVertices: triangles.length * 3 - (positions.length / 3 - holesFilled),
+      degenerateRemoved: degenerate,
+      duplicatesRemoved: duplicates,
+      flippedTriangles,
+      nonManifoldEdges,
+      boundaryLoops: loops.length,
+      holesFilled,
+    },
+  }
+}
+
+export { packTriangles, repairTriangles, unpackTriangles, weldTriangles, weldedToTriangles }
+export type { RepairOptions, RepairReport, RepairResult, WeldedMesh }
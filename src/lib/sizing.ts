@@ -0,0 +1,159 @@
+/**
+ * Sizing
+ *
+ * Works out the scale factor that gives a figure a real-world size in
+ * millimetres: a total height, a miniature scale, an eye height or a base
+ * diameter. Measurements are taken on HeroForge geometry (Y up) before the
+ * exporter scales and rotates it.
+ */
+
+import type { Triangle, Vertex } from './exporter'
+
+// ============================================================
+// Type Definitions
+// ============================================================
+
+type MiniatureScale = '28mm' | '32mm' | '54mm' | '75mm'
+
+interface Bounds {
+  min: Vertex
+  max: Vertex
+}
+
+interface SizingOptions {
+  scale?: number
+  targetHeight?: number
+  miniatureScale?: MiniatureScale
+  eyeHeight?: number
+  baseDiameter?: number
+}
+
+/** Packed triangle positions, nine floats per triangle */
+interface SizingInput {
+  character: Float32Array
+  base: Float32Array
+  /** Head slot triangles, used to locate the eyes when available */
+  head: Float32Array
+}
+
+interface SizingResult {
+  scale: number
+  /** Sizing targets that had nothing to measure and were ignored */
+  warnings: string[]
+}
+
+// Miniature scales are measured from the feet to the eyes
+const MINIATURE_EYE_HEIGHTS: Record<MiniatureScale, number> = {
+  '28mm': 28,
+  '32mm': 32,
+  '54mm': 54,
+  '75mm': 75,
+}
+
+// Eyes sit about halfway down a head that is an eighth of the body height
+const EYE_HEIGHT_RATIO = 15 / 16
+
+// ============================================================
+// Measurement
+// ============================================================
+
+/**
+ * Axis-aligned bounds of a set of triangles, or null when there are none
+ */
+function measureBounds(triangles: Triangle[]): Bounds | null {
+  if (triangles.length === 0) return null
+
+  const min = { x: Number.POSITIVE_INFINITY, y: Number.POSITIVE_INFINITY, z: Number.POSITIVE_INFINITY }
+  const max = { x: Number.NEGATIVE_INFINITY, y: Number.NEGATIVE_INFINITY, z: Number.NEGATIVE_INFINITY }
+  for (const tri of triangles) {
+    for (const v of [tri.v1, tri.v2, tri.v3]) {
+      min.x = Math.min(min.x, v.x)
+      min.y = Math.min(min.y, v.y)
+      min.z = Math.min(min.z, v.z)
+      max.x = Math.max(max.x, v.x)
+      max.y = Math.max(max.y, v.y)
+      max.z = Math.max(max.z, v.z)
+    }
+  }
+  return { min, max }
+}
+
+/**
+ * Axis-aligned bounds of packed triangle positions, taken over every buffer, or null when they are empty
+ */
+function measurePositions(buffers: Float32Array[]): Bounds | null {
+  const min = { x: Number.POSITIVE_INFINITY, y: Number.POSITIVE_INFINITY, z: Number.POSITIVE_INFINITY }
+  const max = { x: Number.NEGATIVE_INFINITY, y: Number.NEGATIVE_INFINITY, z: Number.NEGATIVE_INFINITY }
+  let empty = true
+  for (const positions of buffers) {
+    for (let i = 0; i + 2 < positions.length; i += 3) {
+      empty = false
+      min.x = Math.min(min.x, positions[i])
+      min.y = Math.min(min.y, positions[i + 1])
+      min.z = Math.min(min.z, positions[i + 2])
+      max.x = Math.max(max.x, positions[i])
+      max.y = Math.max(max.y, positions[i + 1])
+      max.z = Math.max(max.z, positions[i + 2])
+    }
+  }
+  return empty ? null : { min, max }
+}
+
+/**
+ * Height of the eyes above the feet, in HeroForge units. Uses the middle of the
+ * head slot when there is one, and standard proportions otherwise.
+ */
+function measureEyeHeight(character: Bounds, head: Bounds | null): number {
+  const height = character.max.y - character.min.y
+  if (head && head.min.y > character.min.y) {
+    return (head.min.y + head.max.y) / 2 - character.min.y
+  }
+  return height * EYE_HEIGHT_RATIO
+}
+
+// ============================================================
+// Scale Resolution
+// ============================================================
+
+/**
+ * Pick the scale factor for the first sizing target that is set, in the order
+ * targetHeight, eyeHeight, miniatureScale, baseDiameter, falling back to scale
+ * @param options.scale - Plain scale factor used when no target applies (default: 10)
+ * @param options.targetHeight - Figure height from feet to the top of the character, in mm
+ * @param options.miniatureScale - Standard miniature scale, measured to eye level
+ * @param options.eyeHeight - Height from the feet to the eyes, in mm
+ * @param options.baseDiameter - Widest extent of the base, in mm
+ */
+function resolveScale(input: SizingInput, options: SizingOptions): SizingResult {
+  const { scale = 10, targetHeight, miniatureScale, eyeHeight, baseDiameter } = options
+  const character = measurePositions([input.character])
+  const warnings: string[] = []
+
+  if (targetHeight !== undefined) {
+    if (character && character.max.y > character.min.y) {
+      return { scale: targetHeight / (character.max.y - character.min.y), warnings }
+    }
+    warnings.push('No character geometry to measure, ignoring target height')
+  }
+
+  const eyeTarget = eyeHeight ?? (miniatureScale ? MINIATURE_EYE_HEIGHTS[miniatureScale] : undefined)
+  if (eyeTarget !== undefined) {
+    if (character && character.max.y > character.min.y) {
+      return { scale: eyeTarget / measureEyeHeight(character, measurePositions([input.head])), warnings }
+    }
+    warnings.push('No character geometry to measure, ignoring eye height')
+  }
+
+  if (baseDiameter !== undefined) {
+    const base = measurePositions([input.base])
+    if (base) {
+      return { scale: baseDiameter / Math.max(base.max.x - base.min.x, base.max.z - base.min.z), warnings }
+    }
+    warnings.push('No base to measure, ignoring base diameter')
+  }
+
+  return { scale, warnings }
+}
+
+export { MINIATURE_EYE_HEIGHTS, measureBounds, measurePositions, resolveScale }
+export type { Bounds, MiniatureScale, SizingOptions, SizingResult }
@@ -0,0 +1,54 @@
+import { describe, expect, test } from 'bun:test'
+import type { Triangle } from './exporter'
+import { solidifyTriangles } from './solidify'
+
+/**
+ * Packed triangles of a closed box spanning the given corners
+ */
+function box(min: [number, number, number], max: [number, number, number]): number[] {
+  const corner = (i: number): number[] => [i & 1 ? max[0] : min[0], i & 2 ? max[1] : min[1], i & 4 ? max[2] : min[2]]
+  const faces = [
+    0, 2, 1, 1, 2, 3, 4, 5, 6, 5, 7, 6, 0, 1, 4, 1, 5, 4, 2, 6, 3, 3, 6, 7, 0, 4, 2, 2, 4, 6, 1, 3, 5, 3, 7, 5,
+  ]
+  return faces.flatMap(corner)
+}
+
+/**
+ * Edges not shared by exactly two triangles, with corners welded at 0.001
+ */
+function countBadEdges(triangles: Triangle[]): number {
+  const key = (v: { x: number; y: number; z: number }): string =>
+    `${Math.round(v.x * 1000)},${Math.round(v.y * 1000)},${Math.round(v.z * 1000)}`
+  const edges = new Map<string, number>()
+  for (const { v1, v2, v3 } of triangles) {
+    const corners = [key(v1), key(v2), key(v3)]
+    for (let i = 0; i < 3; i++) {
+      const edge = [corners[i], corners[(i + 1) % 3]].sort().join('|')
+      edges.set(edge, (edges.get(edge) ?? 0) + 1)
+    }
+  }
+  return [...edges.values()].filter((count) => count !== 2).length
+}
+
+describe('solidifyTriangles', () => {
+  test('keeps the size of a box to within a voxel', () => {
+    const { triangles } = solidifyTriangles(new Float32Array(box([0.1, 0.1, 0.1], [10.1, 6.1, 4.1])), {
+      voxelSize: 0.5,
+    })
+
+    expect(countBadEdges(triangles)).toBe(0)
+    const xs = triangles.flatMap(({ v1, v2, v3 }) => [v1.x, v2.x, v3.x])
+    const zs = triangles.flatMap(({ v1, v2, v3 }) => [v1.z, v2.z, v3.z])
+    expect(Math.max(...xs) - Math.min(...xs)).toBeGreaterThan(10 - 0.5)
+    expect(Math.max(...xs) - Math.min(...xs)).toBeLessThan(10 + 0.5)
+    expect(Math.max(...zs) - Math.min(...zs)).toBeLessThan(4 + 0.5)
+  })
+
+  test('stays manifold where voxels of two shells only meet along an edge', () => {
+    const positions = new Float32Array([...box([0.1, 0.1, 0.1], [2.9, 2.9, 3]), ...box([3.2, 3.2, 0.1], [6, 6, 3])])
+    const { triangles } = solidifyTriangles(positions, { voxelSize: 0.5 })
+
+    expect(triangles.length).toBeGreaterThan(0)
+    expect(countBadEdges(triangles)).toBe(0)
+  })
+})
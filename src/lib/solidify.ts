@@ -0,0 +1,493 @@
+/**
+ * Voxel Solidify
+ *
+ * Unions overlapping, open or intersecting shells into a single watertight
+ * surface. Triangles are rasterised into a voxel grid, everything not reachable
+ * from outside is treated as solid, and an iso-surface is extracted with
+ * surface nets.
+ */
+
+import type { Triangle, Vertex } from './exporter'
+
+// ============================================================
+// Type Definitions
+// ============================================================
+
+interface VoxelGrid {
+  nx: number
+  ny: number
+  nz: number
+  voxelSize: number
+  origin: Vertex
+  /** 1 for solid voxels, 0 for empty ones */
+  data: Uint8Array
+}
+
+interface SolidifyOptions {
+  voxelSize?: number
+  maxVoxels?: number
+}
+
+interface SolidifyResult {
+  triangles: Triangle[]
+  voxelSize: number
+  dimensions: [number, number, number]
+}
+
+// Empty voxels around the model so the surface never touches the grid border
+const GRID_PADDING = 3
+
+// Sample offsets of a cell's corners, bit 0 along X, bit 1 along Y and bit 2 along Z
+const CELL_CORNERS: [number, number, number][] = [
+  [0, 0, 0],
+  [1, 0, 0],
+  [0, 1, 0],
+  [1, 1, 0],
+  [0, 0, 1],
+  [1, 0, 1],
+  [0, 1, 1],
+  [1, 1, 1],
+]
+
+// Corners around the three faces of a cell that touch its lowest corner, in order around each face
+const CELL_FACES = [
+  [0, 1, 3, 2],
+  [0, 1, 5, 4],
+  [0, 2, 6, 4],
+]
+
+// ============================================================
+// Voxelisation
+// ============================================================
+
+/**
+ * Create an empty grid covering the packed triangles, growing the voxel size if
+ * the grid would exceed maxVoxels. Callers tell from the grid's voxel size.
+ */
+function createGrid(positions: Float32Array, voxelSize: number, maxVoxels: number): VoxelGrid {
+  let minX = Number.POSITIVE_INFINITY
+  let minY = Number.POSITIVE_INFINITY
+  let minZ = Number.POSITIVE_INFINITY
+  let maxX = Number.NEGATIVE_INFINITY
+  let maxY = Number.NEGATIVE_INFINITY
+  let maxZ = Number.NEGATIVE_INFINITY
+
+  for (let i = 0; i + 2 < positions.length; i += 3) {
+    minX = Math.min(minX, positions[i])
+    minY = Math.min(minY, positions[i + 1])
+    minZ = Math.min(minZ, positions[i + 2])
+    maxX = Math.max(maxX, positions[i])
+    maxY = Math.max(maxY, positions[i + 1])
+    maxZ = Math.max(maxZ, positions[i + 2])
+  }
+
+  let size = voxelSize
+  const dims = (): [number, number, number] => [
+    Math.ceil((maxX - minX) / size) + GRID_PADDING * 2 + 1,
+    Math.ceil((maxY - minY) / size) + GRID_PADDING * 2 + 1,
+    Math.ceil((maxZ - minZ) / size) + GRID_PADDING * 2 + 1,
+  ]
+
+  let [nx, ny, nz] = dims()
+  if (nx * ny * nz > maxVoxels) {
+    size *= Math.cbrt((nx * ny * nz) / maxVoxels) * 1.01
+    ;[nx, ny, nz] = dims()
+  }
+
+  // The lowest faces land mid-voxel, as a face anywhere else does on average, so the inset suits them too
+  const start = (GRID_PADDING - 0.5) * size
+  return {
+    nx,
+    ny,
+    nz,
+    voxelSize: size,
+    origin: { x: minX - start, y: minY - start, z: minZ - start },
+    data: new Uint8Array(nx * ny * nz),
+  }
+}
+
+/**
+ * Mark every voxel touched by a packed triangle by sampling its surface at half the voxel size
+ */
+function rasterizeTriangles(grid: VoxelGrid, positions: Float32Array): void {
+  const { nx, ny, nz, voxelSize, origin, data } = grid
+  const step = voxelSize * 0.5
+
+  const mark = (x: number, y: number, z: number): void => {
+    const i = Math.floor((x - origin.x) / voxelSize)
+    const j = Math.floor((y - origin.y) / voxelSize)
+    const k = Math.floor((z - origin.z) / voxelSize)
+    if (i >= 0 && j >= 0 && k >= 0 && i < nx && j < ny && k < nz) {
+      data[i + nx * (j + ny * k)] = 1
+    }
+  }
+
+  for (let t = 0; t + 9 <= positions.length; t += 9) {
+    const x1 = positions[t]
+    const y1 = positions[t + 1]
+    const z1 = positions[t + 2]
+    const x2 = positions[t + 3]
+    const y2 = positions[t + 4]
+    const z2 = positions[t + 5]
+    const x3 = positions[t + 6]
+    const y3 = positions[t + 7]
+    const z3 = positions[t + 8]
+    const longest = Math.max(
+      Math.hypot(x2 - x1, y2 - y1, z2 - z1),
+      Math.hypot(x3 - x2, y3 - y2, z3 - z2),
+      Math.hypot(x1 - x3, y1 - y3, z1 - z3),
+    )
+    const n = Math.max(1, Math.ceil(longest / step))
+
+    for (let a = 0; a <= n; a++) {
+      for (let b = 0; b <= n - a; b++) {
+        const u = a / n
+        const v = b / n
+        const w = 1 - u - v
+        mark(x1 * w + x2 * u + x3 * v, y1 * w + y2 * u + y3 * v, z1 * w + z2 * u + z3 * v)
+      }
+    }
+  }
+}
+
+/**
+ * Flood fill empty space from the grid corner; everything unreached becomes solid
+ */
+function fillInterior(grid: VoxelGrid): void {
+  const { nx, ny, nz, data } = grid
+  const total = nx * ny * nz
+  const exterior = new Uint8Array(total)
+  const queue = new Int32Array(total)
+  let head = 0
+  let tail = 0
+
+  exterior[0] = 1
+  queue[tail++] = 0
+
+  while (head < tail) {
+    const index = queue[head++]
+    const i = index % nx
+    const j = Math.floor(index / nx) % ny
+    const k = Math.floor(index / (nx * ny))
+
+    const visit = (neighbor: number): void => {
+      if (!exterior[neighbor] && !data[neighbor]) {
+        exterior[neighbor] = 1
+        queue[tail++] = neighbor
+      }
+    }
+
+    if (i > 0) visit(index - 1)
+    if (i < nx - 1) visit(index + 1)
+    if (j > 0) visit(index - nx)
+    if (j < ny - 1) visit(index + nx)
+    if (k > 0) visit(index - nx * ny)
+    if (k < nz - 1) visit(index + nx * ny)
+  }
+
+  for (let i = 0; i < total; i++) {
+    data[i] = exterior[i] ? 0 : 1
+  }
+}
+
+/**
+ * Build a solid voxel grid from a packed triangle soup, nine floats per triangle.
+ * Overlapping shells merge, and gaps smaller than a voxel are closed.
+ */
+function createSolidGrid(positions: Float32Array, voxelSize: number, maxVoxels = 16_000_000): VoxelGrid {
+  const grid = createGrid(positions, voxelSize, maxVoxels)
+  rasterizeTriangles(grid, positions)
+  fillInterior(grid)
+  return grid
+}
+
+// ============================================================
+// Surface Extraction
+// ============================================================
+
+/**
+ * Convert the occupancy grid into a smooth scalar field with a [1, 2, 1] blur per axis
+ */
+function smoothField(grid: VoxelGrid): Float32Array {
+  const { nx, ny, nz, data } = grid
+  let field = Float32Array.from(data)
+  const strides = [1, nx, nx * ny]
+  const sizes = [nx, ny, nz]
+
+  for (let axis = 0; axis < 3; axis++) {
+    const stride = strides[axis]
+    const size = sizes[axis]
+    const result = new Float32Array(field.length)
+
+    for (let index = 0; index < field.length; index++) {
+      const coord = Math.floor(index / stride) % size
+      const prev = coord > 0 ? field[index - stride] : 0
+      const next = coord < size - 1 ? field[index + stride] : 0
+      result[index] = (prev + field[index] * 2 + next) / 4
+    }
+
+    field = result
+  }
+
+  return field
+}
+
+/**
+ * Raise samples just above the iso level until every cell holds a single sheet
+ * of the surface. Surface nets places one vertex per cell, so a face whose
+ * inside samples sit on a diagonal, or a cell whose only inside (or outside)
+ * samples are opposite corners, would join two sheets there and leave edges
+ * shared by four triangles. Raising samples only ever joins parts of the model.
+ */
+function resolveAmbiguousCells(grid: VoxelGrid, field: Float32Array, iso: number): void {
+  const { nx, ny, nz } = grid
+  const offsets = CELL_CORNERS.map(([x, y, z]) => x + nx * (y + ny * z))
+  const raised = iso + 0.01
+
+  // Cells are keyed by their lowest sample; raising a sample re-checks only the cells around it
+  const pending = new Int32Array(nx * ny * nz)
+  const queued = new Uint8Array(nx * ny * nz)
+  let count = 0
+  for (let k = nz - 2; k >= 0; k--) {
+    for (let j = ny - 2; j >= 0; j--) {
+      for (let i = nx - 2; i >= 0; i--) {
+        const base = i + nx * (j + ny * k)
+        pending[count++] = base
+        queued[base] = 1
+      }
+    }
+  }
+
+  while (count > 0) {
+    const base = pending[--count]
+    queued[base] = 0
+    const corner = ambiguousCorner(field, base, offsets, iso)
+    if (corner < 0) continue
+
+    const sample = base + offsets[corner]
+    field[sample] = raised
+    const i = sample % nx
+    const j = Math.floor(sample / nx) % ny
+    const k = Math.floor(sample / (nx * ny))
+    for (const [x, y, z] of CELL_CORNERS) {
+      if (i - x < 0 || j - y < 0 || k - z < 0 || i - x >= nx - 1 || j - y >= ny - 1 || k - z >= nz - 1) continue
+      const cell = sample - x - nx * (y + ny * z)
+      if (queued[cell]) continue
+      pending[count++] = cell
+      queued[cell] = 1
+    }
+  }
+}
+
+/**
+ * Whether a corner is set in a mask of cell corners
+ */
+function hasCorner(mask: number, corner: number): boolean {
+  return (mask & (1 << corner)) !== 0
+}
+
+/**
+ * Corner of a cell to raise so it holds a single sheet of the surface, or -1
+ * if it already does
+ */
+function ambiguousCorner(field: Float32Array, base: number, offsets: number[], iso: number): number {
+  let inside = 0
+  let count = 0
+  for (let corner = 0; corner < 8; corner++) {
+    if (field[base + offsets[corner]] > iso) {
+      inside |= 1 << corner
+      count++
+    }
+  }
+
+  for (const [a, b, c, d] of CELL_FACES) {
+    if (
+      hasCorner(inside, a) === hasCorner(inside, c) &&
+      hasCorner(inside, b) === hasCorner(inside, d) &&
+      hasCorner(inside, a) !== hasCorner(inside, b)
+    ) {
+      return hasCorner(inside, a) ? b : a
+    }
+  }
+
+  if (count !== 2 && count !== 6) return -1
+  for (let corner = 0; corner < 4; corner++) {
+    if (count === 2 && hasCorner(inside, corner) && hasCorner(inside, 7 - corner)) return corner ^ 1
+    if (count === 6 && !hasCorner(inside, corner) && !hasCorner(inside, 7 - corner)) return corner
+  }
+  return -1
+}
+
+/**
+ * Extract the iso-surface of a scalar field sampled at voxel centres using
+ * surface nets. Values above the iso level are inside. The result is a closed,
+ * manifold surface as long as the field is below the iso level at the grid
+ * border. Samples may be raised to keep the surface manifold.
+ *
+ * Voxels touched by a triangle count as solid, which puts the surface half a
+ * voxel outside the triangles it came from; vertices are moved back along their
+ * normals by `inset` voxels to make up for it.
+ */
+function extractSurface(grid: VoxelGrid, field: Float32Array, iso = 0.5, inset = 0.5): Triangle[] {
+  const { nx, ny, nz, voxelSize, origin } = grid
+  const cellIndex = new Int32Array(nx * ny * nz).fill(-1)
+  const vertices: number[] = []
+  const faces: number[] = []
+
+  resolveAmbiguousCells(grid, field, iso)
+
+  const sample = (i: number, j: number, k: number): number => field[i + nx * (j + ny * k)]
+
+  // Cube edges between the cell corners
+  const cubeEdges = [
+    [0, 1],
+    [2, 3],
+    [4, 5],
+    [6, 7],
+    [0, 2],
+    [1, 3],
+    [4, 6],
+    [5, 7],
+    [0, 4],
+    [1, 5],
+    [2, 6],
+    [3, 7],
+  ]
+
+  // Place one vertex per cell that straddles the surface
+  const values = new Float32Array(8)
+  for (let k = 0; k < nz - 1; k++) {
+    for (let j = 0; j < ny - 1; j++) {
+      for (let i = 0; i < nx - 1; i++) {
+        let inside = 0
+        for (let c = 0; c < 8; c++) {
+          values[c] = sample(i + CELL_CORNERS[c][0], j + CELL_CORNERS[c][1], k + CELL_CORNERS[c][2])
+          if (values[c] > iso) inside++
+        }
+        if (inside === 0 || inside === 8) continue
+
+        let sx = 0
+        let sy = 0
+        let sz = 0
+        let crossings = 0
+        for (const [a, b] of cubeEdges) {
+          if (values[a] > iso === values[b] > iso) continue
+          // Keep crossings off the corners so neighbouring cells never share a vertex position
+          const t = Math.min(Math.max((iso - values[a]) / (values[b] - values[a]), 0.05), 0.95)
+          sx += CELL_CORNERS[a][0] + (CELL_CORNERS[b][0] - CELL_CORNERS[a][0]) * t
+          sy += CELL_CORNERS[a][1] + (CELL_CORNERS[b][1] - CELL_CORNERS[a][1]) * t
+          sz += CELL_CORNERS[a][2] + (CELL_CORNERS[b][2] - CELL_CORNERS[a][2]) * t
+          crossings++
+        }
+
+        cellIndex[i + nx * (j + ny * k)] = vertices.length / 3
+        vertices.push(
+          origin.x + (i + 0.5 + sx / crossings) * voxelSize,
+          origin.y + (j + 0.5 + sy / crossings) * voxelSize,
+          origin.z + (k + 0.5 + sz / crossings) * voxelSize,
+        )
+      }
+    }
+  }
+
+  const distance = (a: number, b: number): number =>
+    Math.hypot(
+      vertices[a * 3] - vertices[b * 3],
+      vertices[a * 3 + 1] - vertices[b * 3 + 1],
+      vertices[a * 3 + 2] - vertices[b * 3 + 2],
+    )
+
+  const addQuad = (a: number, b: number, c: number, d: number, flip: boolean): void => {
+    const [p0, p1, p2, p3] = (flip ? [d, c, b, a] : [a, b, c, d]).map((cell) => cellIndex[cell])
+    // Split along the shorter diagonal
+    if (distance(p0, p2) <= distance(p1, p3)) {
+      faces.push(p0, p1, p2, p0, p2, p3)
+    } else {
+      faces.push(p0, p1, p3, p1, p2, p3)
+    }
+  }
+
+  const cell = (i: number, j: number, k: number): number => i + nx * (j + ny * k)
+
+  // Connect the cells around every sample edge that crosses the surface
+  for (let k = 1; k < nz - 1; k++) {
+    for (let j = 1; j < ny - 1; j++) {
+      for (let i = 1; i < nx - 1; i++) {
+        const inside = sample(i, j, k) > iso
+
+        if (inside !== sample(i + 1, j, k) > iso) {
+          addQuad(cell(i, j - 1, k - 1), cell(i, j, k - 1), cell(i, j, k), cell(i, j - 1, k), !inside)
+        }
+        if (inside !== sample(i, j + 1, k) > iso) {
+          addQuad(cell(i - 1, j, k - 1), cell(i - 1, j, k), cell(i, j, k), cell(i, j, k - 1), !inside)
+        }
+        if (inside !== sample(i, j, k + 1) > iso) {
+          addQuad(cell(i - 1, j - 1, k), cell(i, j - 1, k), cell(i, j, k), cell(i - 1, j, k), !inside)
+        }
+      }
+    }
+  }
+
+  // Area-weighted vertex normals, then every vertex moves in along its normal
+  const normals = new Float32Array(vertices.length)
+  for (let f = 0; f < faces.length; f += 3) {
+    const [a, b, c] = [faces[f] * 3, faces[f + 1] * 3, faces[f + 2] * 3]
+    const ux = vertices[b] - vertices[a]
+    const uy = vertices[b + 1] - vertices[a + 1]
+    const uz = vertices[b + 2] - vertices[a + 2]
+    const vx = vertices[c] - vertices[a]
+    const vy = vertices[c + 1] - vertices[a + 1]
+    const vz = vertices[c + 2] - vertices[a + 2]
+    const n = [uy * vz - uz * vy, uz * vx - ux * vz, ux * vy - uy * vx]
+    for (const v of [a, b, c]) {
+      normals[v] += n[0]
+      normals[v + 1] += n[1]
+      normals[v + 2] += n[2]
+    }
+  }
+  for (let v = 0; v < vertices.length; v += 3) {
+    const length = Math.hypot(normals[v], normals[v + 1], normals[v + 2])
+    if (length === 0) continue
+    const step = (inset * voxelSize) / length
+    vertices[v] -= normals[v] * step
+    vertices[v + 1] -= normals[v + 1] * step
+    vertices[v + 2] -= normals[v + 2] * step
+  }
+
+  // Every triangle gets corners of its own, so moving one never moves another
+  const vertex = (index: number): Vertex => ({
+    x: vertices[index * 3],
+    y: vertices[index * 3 + 1],
+    z: vertices[index * 3 + 2],
+  })
+  const triangles: Triangle[] = new Array(faces.length / 3)
+  for (let f = 0; f < faces.length; f += 3) {
+    triangles[f / 3] = { v1: vertex(faces[f]), v2: vertex(faces[f + 1]), v3: vertex(faces[f + 2]) }
+  }
+  return triangles
+}
+
+// ============================================================
+// Solidify Pipeline
+// ============================================================
+
+/**
+ * Union all triangles, packed nine floats per triangle, into one watertight shell
+ * @param options.voxelSize - Voxel edge length in output units (default: 0.2)
+ * @param options.maxVoxels - Upper bound on the grid size before the voxel size grows (default: 16M)
+ */
+function solidifyTriangles(positions: Float32Array, options: SolidifyOptions = {}): SolidifyResult {
+  const { voxelSize = 0.2, maxVoxels = 16_000_000 } = options
+
+  const grid = createSolidGrid(positions, voxelSize, maxVoxels)
+  const surface = extractSurface(grid, smoothField(grid))
+
+  return {
+    triangles: surface,
+    voxelSize: grid.voxelSize,
+    dimensions: [grid.nx, grid.ny, grid.nz],
+  }
+}
+
+export { createSolidGrid, extractSurface, smoothField, solidifyTriangles }
+export type { SolidifyOptions, SolidifyResult, VoxelGrid }
@@ -0,0 +1,165 @@
+/**
+ * Loop Subdivision
+ *
+ * Smooths low-poly facets by splitting every triangle into four and moving
+ * vertices towards the limit surface. Open borders and non-manifold edges are
+ * treated as creases so part outlines stay in place.
+ */
+
+import type { Triangle } from './exporter'
+import { type WeldedMesh, weldTriangles, weldedToTriangles } from './repair'
+
+// ============================================================
+// Type Definitions
+// ============================================================
+
+interface SubdivideOptions {
+  iterations?: number
+  weldTolerance?: number
+}
+
+interface EdgeInfo {
+  a: number
+  b: number
+  /** Vertices opposite the edge in each adjacent triangle */
+  opposite: number[]
+  midpoint: number
+}
+
+// ============================================================
+// Subdivision
+// ============================================================
+
+/**
+ * Run a single Loop subdivision step on a welded mesh
+ */
+function subdivideOnce(mesh: WeldedMesh): WeldedMesh {
+  const { positions, indices } = mesh
+  const vertexCount = positions.length / 3
+  const edges = new Map<string, EdgeInfo>()
+  const neighbors: Set<number>[] = Array.from({ length: vertexCount }, () => new Set())
+
+  for (let t = 0; t < indices.length; t += 3) {
+    for (let e = 0; e < 3; e++) {
+      const a = indices[t + e]
+      const b = indices[t + ((e + 1) % 3)]
+      const c = indices[t + ((e + 2) % 3)]
+      const key = a < b ? `${a},${b}` : `${b},${a}`
+      const edge = edges.get(key)
+      if (edge) {
+        edge.opposite.push(c)
+      } else {
+        edges.set(key, { a, b, opposite: [c], midpoint: -1 })
+      }
+      neighbors[a].add(b)
+      neighbors[b].add(a)
+    }
+  }
+
+  // Crease vertices sit on open or non-manifold edges and only follow their crease neighbours
+  const creaseNeighbors: number[][] = Array.from({ length: vertexCount }, () => [])
+  for (const edge of edges.values()) {
+    if (edge.opposite.length !== 2) {
+      creaseNeighbors[edge.a].push(edge.b)
+      creaseNeighbors[edge.b].push(edge.a)
+    }
+  }
+
+  const result: number[] = new Array(vertexCount * 3)
+
+  // Reposition original vertices
+  for (let v = 0; v < vertexCount; v++) {
+    const crease = creaseNeighbors[v]
+    let x = positions[v * 3]
+    let y = positions[v * 3 + 1]
+    let z = positions[v * 3 + 2]
+
+    if (crease.length === 2) {
+      const [n0, n1] = crease
+      x = x * 0.75 + (positions[n0 * 3] + positions[n1 * 3]) * 0.125
+      y = y * 0.75 + (positions[n0 * 3 + 1] + positions[n1 * 3 + 1]) * 0.125
+      z = z * 0.75 + (positions[n0 * 3 + 2] + positions[n1 * 3 + 2]) * 0.125
+    } else if (crease.length === 0 && neighbors[v].size >= 3) {
+      const n = neighbors[v].size
+      const beta = n === 3 ? 3 / 16 : 3 / (8 * n)
+      let sx = 0
+      let sy = 0
+      let sz = 0
+      for (const neighbor of neighbors[v]) {
+        sx += positions[neighbor * 3]
+        sy += positions[neighbor * 3 + 1]
+        sz += positions[neighbor * 3 + 2]
+      }
+      x = x * (1 - n * beta) + sx * beta
+      y = y * (1 - n * beta) + sy * beta
+      z = z * (1 - n * beta) + sz * beta
+    }
+    // Corners where creases meet keep their position
+
+    result[v * 3] = x
+    result[v * 3 + 1] = y
+    result[v * 3 + 2] = z
+  }
+
+  // Insert one vertex per edge
+  for (const edge of edges.values()) {
+    const { a, b, opposite } = edge
+    edge.midpoint = result.length / 3
+
+    for (let axis = 0; axis < 3; axis++) {
+      const pa = positions[a * 3 + axis]
+      const pb = positions[b * 3 + axis]
+      if (opposite.length === 2) {
+        const pc = positions[opposite[0] * 3 + axis]
+        const pd = positions[opposite[1] * 3 + axis]
+        result.push((pa + pb) * 0.375 + (pc + pd) * 0.125)
+      } else {
+        result.push((pa + pb) * 0.5)
+      }
+    }
+  }
+
+  // Split every triangle into four
+  const midpoint = (a: number, b: number): number => (edges.get(a < b ? `${a},${b}` : `${b},${a}`) as EdgeInfo).midpoint
+  const newIndices: number[] = []
+  for (let t = 0; t < indices.length; t += 3) {
+    const a = indices[t]
+    const b = indices[t + 1]
+    const c = indices[t + 2]
+    const ab = midpoint(a, b)
+    const bc = midpoint(b, c)
+    const ca = midpoint(c, a)
+    newIndices.push(a, ab, ca, ab, b, bc, ca, bc, c, ab, bc, ca)
+  }
+
+  return { positions: result, indices: newIndices }
+}
+
+/**
+ * Smooth a triangle soup with Loop subdivision
+ * @param options.iterations - Number of subdivision steps, each multiplying triangles by four (default: 1)
+ * @param options.weldTolerance - Distance used to weld the soup before subdividing (default: 0.00001)
+ */
+function subdivideTriangles(triangles: Triangle[], options: SubdivideOptions = {}): Triangle[] {
+  const { iterations = 1, weldTolerance = 0.00001 } = options
+  if (iterations <= 0 || triangles.length === 0) return triangles
+
+  const welded = weldTriangles(triangles, weldTolerance)
+  const indices: number[] = []
+  for (let t = 0; t < welded.indices.length; t += 3) {
+    const [a, b, c] = welded.indices.slice(t, t + 3)
+    if (a !== b && b !== c && a !== c) {
+      indices.push(a, b, c)
+    }
+  }
+
+  let mesh: WeldedMesh = { positions: welded.positions, indices }
+  for (let i = 0; i < iterations; i++) {
+    mesh = subdivideOnce(mesh)
+  }
+
+  return weldedToTriangles(mesh)
+}
+
+export { subdivideTriangles }
+export type { SubdivideOptions }
@@ -0,0 +1,442 @@
+/**
+ * Tree Supports
+ *
+ * Pre-supports an oriented model for resin printing. The model is raised off
+ * the build plate, and vertical columns are cast up into it on a staggered
+ * grid: wherever the first surface a column meets overhangs too far, a support
+ * tip goes there. Local low points, where islands start, always get a tip.
+ * Nearby tips branch into a shared trunk when the branches clear the model,
+ * and trunks stand on feet or on a raft.
+ */
+
+import type { Triangle, Vertex } from './exporter'
+import { weldTriangles } from './repair'
+
+// ============================================================
+// Type Definitions
+// ============================================================
+
+interface SupportOptions {
+  tipDiameter?: number
+  spacing?: number
+  overhangAngle?: number
+  raft?: boolean
+  lift?: number
+  ground?: number
+}
+
+interface SupportResult {
+  triangles: Triangle[]
+  tips: number
+  trunks: number
+  /** Distance the model was moved up, negative when it started higher */
+  lift: number
+}
+
+/** Triangles binned by their footprint on the build plate, for vertical ray casting */
+interface ColumnIndex {
+  triangles: Triangle[]
+  cellSize: number
+  minX: number
+  minY: number
+  nx: number
+  ny: number
+  cells: number[][]
+}
+
+interface SurfaceHit {
+  z: number
+  triangle: number
+}
+
+// Sides on every support tube
+const TUBE_SEGMENTS = 8
+
+// Length of the cone that narrows to the tip, and how far the tip sinks into the model
+const TIP_LENGTH = 1.5
+const TIP_EMBED = 0.2
+
+// Branches are never thinner than this, whatever the tip size
+const MIN_BRANCH_DIAMETER = 0.8
+
+// Trunks grow with the branches they carry, up to this
+const MAX_TRUNK_DIAMETER = 3
+
+// Shortest trunk worth branching from
+const MIN_TRUNK_LENGTH = 1
+
+// Free space kept between a branch and the model
+const BRANCH_CLEARANCE = 0.3
+
+// Feet spread trunks on the build plate when there is no raft
+const FOOT_HEIGHT = 0.8
+
+const RAFT_THICKNESS = 1
+const RAFT_MARGIN = 1
+
+// ============================================================
+// Column Casting
+// ============================================================
+
+/**
+ * Bin triangles by the grid cells their footprint touches
+ */
+function buildColumnIndex(triangles: Triangle[], cellSize: number): ColumnIndex {
+  let minX = Number.POSITIVE_INFINITY
+  let minY = Number.POSITIVE_INFINITY
+  let maxX = Number.NEGATIVE_INFINITY
+  let maxY = Number.NEGATIVE_INFINITY
+  for (const { v1, v2, v3 } of triangles) {
+    minX = Math.min(minX, v1.x, v2.x, v3.x)
+    minY = Math.min(minY, v1.y, v2.y, v3.y)
+    maxX = Math.max(maxX, v1.x, v2.x, v3.x)
+    maxY = Math.max(maxY, v1.y, v2.y, v3.y)
+  }
+
+  const nx = Math.floor((maxX - minX) / cellSize) + 1
+  const ny = Math.floor((maxY - minY) / cellSize) + 1
+  const cells: number[][] = Array.from({ length: nx * ny }, () => [])
+
+  triangles.forEach(({ v1, v2, v3 }, t) => {
+    const i0 = Math.floor((Math.min(v1.x, v2.x, v3.x) - minX) / cellSize)
+    const i1 = Math.floor((Math.max(v1.x, v2.x, v3.x) - minX) / cellSize)
+    const j0 = Math.floor((Math.min(v1.y, v2.y, v3.y) - minY) / cellSize)
+    const j1 = Math.floor((Math.max(v1.y, v2.y, v3.y) - minY) / cellSize)
+    for (let j = j0; j <= j1; j++) {
+      for (let i = i0; i <= i1; i++) cells[i + j * nx].push(t)
+    }
+  })
+
+  return { triangles, cellSize, minX, minY, nx, ny, cells }
+}
+
+/**
+ * The first surface a vertical column at (x, y) meets coming up from below
+ */
+function lowestSurface(index: ColumnIndex, x: number, y: number): SurfaceHit | null {
+  const { triangles, cellSize, minX, minY, nx, ny, cells } = index
+  const i = Math.floor((x - minX) / cellSize)
+  const j = Math.floor((y - minY) / cellSize)
+  if (i < 0 || j < 0 || i >= nx || j >= ny) return null
+
+  let hit: SurfaceHit | null = null
+  for (const t of cells[i + j * nx]) {
+    const { v1, v2, v3 } = triangles[t]
+    const det = (v2.y - v3.y) * (v1.x - v3.x) + (v3.x - v2.x) * (v1.y - v3.y)
+    if (Math.abs(det) < 1e-12) continue
+    const a = ((v2.y - v3.y) * (x - v3.x) + (v3.x - v2.x) * (y - v3.y)) / det
+    const b = ((v3.y - v1.y) * (x - v3.x) + (v1.x - v3.x) * (y - v3.y)) / det
+    const c = 1 - a - b
+    if (a < 0 || b < 0 || c < 0) continue
+
+    const z = a * v1.z + b * v2.z + c * v3.z
+    if (!hit || z < hit.z) hit = { z, triangle: t }
+  }
+  return hit
+}
+
+/**
+ * Whether a straight support from one point to another stays clear of the model
+ */
+function isClear(index: ColumnIndex, from: Vertex, to: Vertex, radius: number): boolean {
+  const length = Math.hypot(to.x - from.x, to.y - from.y, to.z - from.z)
+  const steps = Math.max(1, Math.ceil(length / (index.cellSize / 2)))
+  const around = [
+    [0, 0],
+    [radius, 0],
+    [-radius, 0],
+    [0, radius],
+    [0, -radius],
+  ]
+
+  for (let s = 0; s <= steps; s++) {
+    const f = s / steps
+    const x = from.x + (to.x - from.x) * f
+    const y = from.y + (to.y - from.y) * f
+    const z = from.z + (to.z - from.z) * f
+    for (const [dx, dy] of around) {
+      const hit = lowestSurface(index, x + dx, y + dy)
+      if (hit && hit.z < z + BRANCH_CLEARANCE) return false
+    }
+  }
+  return true
+}
+
+// ============================================================
+// Support Points
+// ============================================================
+
+/**
+ * Tips where the first surface above a staggered grid of columns overhangs
+ */
+function overhangTips(index: ColumnIndex, spacing: number, limit: number): Vertex[] {
+  const { triangles, cellSize, minX, minY, nx, ny } = index
+  const maxX = minX + nx * cellSize
+  const maxY = minY + ny * cellSize
+
+  const overhangs = triangles.map(({ v1, v2, v3 }) => {
+    const nz = (v2.x - v1.x) * (v3.y - v1.y) - (v2.y - v1.y) * (v3.x - v1.x)
+    const length = Math.hypot(
+      (v2.y - v1.y) * (v3.z - v1.z) - (v2.z - v1.z) * (v3.y - v1.y),
+      (v2.z - v1.z) * (v3.x - v1.x) - (v2.x - v1.x) * (v3.z - v1.z),
+      nz,
+    )
+    return length > 0 && -nz / length > limit
+  })
+
+  const tips: Vertex[] = []
+  const rowHeight = (spacing * Math.sqrt(3)) / 2
+  for (let row = 0; minY + (row + 0.5) * rowHeight < maxY; row++) {
+    const y = minY + (row + 0.5) * rowHeight
+    for (let x = minX + (row % 2 === 0 ? spacing / 2 : spacing); x < maxX; x += spacing) {
+      const hit = lowestSurface(index, x, y)
+      if (hit && overhangs[hit.triangle]) tips.push({ x, y, z: hit.z })
+    }
+  }
+  return tips
+}
+
+/**
+ * Vertices with no lower neighbour, where a new island starts printing. Flat
+ * bottoms count too, and spacing out the tips leaves a few of their vertices.
+ * Only those reachable from below and not already near a tip are returned.
+ */
+function islandTips(index: ColumnIndex, tips: Vertex[], spacing: number): Vertex[] {
+  const { positions, indices } = weldTriangles(index.triangles, 0.0001)
+  const vertexCount = positions.length / 3
+  const lowest = new Uint8Array(vertexCount).fill(1)
+
+  for (let t = 0; t < indices.length; t += 3) {
+    for (let e = 0; e < 3; e++) {
+      const a = indices[t + e]
+      const b = indices[t + ((e + 1) % 3)]
+      const za = positions[a * 3 + 2]
+      const zb = positions[b * 3 + 2]
+      if (za > zb) lowest[a] = 0
+      if (zb > za) lowest[b] = 0
+    }
+  }
+
+  const islands: Vertex[] = []
+  for (let v = 0; v < vertexCount; v++) {
+    if (!lowest[v]) continue
+    const point = { x: positions[v * 3], y: positions[v * 3 + 1], z: positions[v * 3 + 2] }
+    const hit = lowestSurface(index, point.x, point.y)
+    if (!hit || hit.z < point.z - 0.01) continue
+
+    const covered = [...tips, ...islands].some(
+      (tip) => Math.hypot(tip.x - point.x, tip.y - point.y) < spacing / 2 && Math.abs(tip.z - point.z) < spacing / 2,
+    )
+    if (!covered) islands.push(point)
+  }
+  return islands
+}
+
+// ============================================================
+// Support Meshing
+// ============================================================
+
+/**
+ * Closed tube between two points, tapering from one radius to the other
+ */
+function addTube(triangles: Triangle[], a: Vertex, b: Vertex, ra: number, rb: number): void {
+  const length = Math.hypot(b.x - a.x, b.y - a.y, b.z - a.z)
+  if (length === 0) return
+  const axis = { x: (b.x - a.x) / length, y: (b.y - a.y) / length, z: (b.z - a.z) / length }
+
+  // Any frame with u x v = axis keeps the walls facing out
+  const helper = Math.abs(axis.z) < 0.9 ? { x: 0, y: 0, z: 1 } : { x: 1, y: 0, z: 0 }
+  const ux = axis.y * helper.z - axis.z * helper.y
+  const uy = axis.z * helper.x - axis.x * helper.z
+  const uz = axis.x * helper.y - axis.y * helper.x
+  const ul = Math.hypot(ux, uy, uz)
+  const u = { x: ux / ul, y: uy / ul, z: uz / ul }
+  const v = {
+    x: axis.y * u.z - axis.z * u.y,
+    y: axis.z * u.x - axis.x * u.z,
+    z: axis.x * u.y - axis.y * u.x,
+  }
+
+  const ring = (center: Vertex, radius: number): Vertex[] =>
+    Array.from({ length: TUBE_SEGMENTS }, (_, i) => {
+      const angle = (2 * Math.PI * i) / TUBE_SEGMENTS
+      const c = Math.cos(angle) * radius
+      const s = Math.sin(angle) * radius
+      return { x: center.x + u.x * c + v.x * s, y: center.y + u.y * c + v.y * s, z: center.z + u.z * c + v.z * s }
+    })
+  const lower = ring(a, ra)
+  const upper = ring(b, rb)
+
+  for (let i = 0; i < TUBE_SEGMENTS; i++) {
+    const j = (i + 1) % TUBE_SEGMENTS
+    triangles.push(
+      { v1: { ...lower[i] }, v2: { ...lower[j] }, v3: { ...upper[j] } },
+      { v1: { ...lower[i] }, v2: { ...upper[j] }, v3: { ...upper[i] } },
+      { v1: { ...a }, v2: { ...lower[j] }, v3: { ...lower[i] } },
+      { v1: { ...b }, v2: { ...upper[i] }, v3: { ...upper[j] } },
+    )
+  }
+}
+
+/**
+ * Flat slab with chamfered sides, from the build plate up to a thickness
+ */
+function addRaft(triangles: Triangle[], min: Vertex, max: Vertex): void {
+  const t = RAFT_THICKNESS
+  const bottom = [
+    { x: min.x, y: min.y, z: min.z },
+    { x: max.x, y: min.y, z: min.z },
+    { x: max.x, y: max.y, z: min.z },
+    { x: min.x, y: max.y, z: min.z },
+  ]
+  const top = [
+    { x: min.x + t, y: min.y + t, z: min.z + t },
+    { x: max.x - t, y: min.y + t, z: min.z + t },
+    { x: max.x - t, y: max.y - t, z: min.z + t },
+    { x: min.x + t, y: max.y - t, z: min.z + t },
+  ]
+
+  const quad = (a: Vertex, b: Vertex, c: Vertex, d: Vertex): void => {
+    triangles.push({ v1: { ...a }, v2: { ...b }, v3: { ...c } }, { v1: { ...a }, v2: { ...c }, v3: { ...d } })
+  }
+  quad(bottom[0], bottom[3], bottom[2], bottom[1])
+  quad(top[0], top[1], top[2], top[3])
+  for (let i = 0; i < 4; i++) {
+    const j = (i + 1) % 4
+    quad(bottom[i], bottom[j], top[j], top[i])
+  }
+}
+
+// ============================================================
+// Support Generation
+// ============================================================
+
+/**
+ * Raise a model off the build plate and build tree supports under it. The
+ * model triangles are moved in place; the supports are returned separately.
+ * @param options.tipDiameter - Diameter where a support touches the model (default: 0.4)
+ * @param options.spacing - Distance between support points under overhangs; smaller is denser (default: 2.5)
+ * @param options.overhangAngle - Steepest overhang printed without supports, in degrees from vertical (default: 60)
+ * @param options.raft - Stand the supports on a raft instead of separate feet (default: true)
+ * @param options.lift - Gap between the lowest point of the model and the raft or build plate (default: 5)
+ * @param options.ground - Height of the build plate (default: 0)
+ */
+function generateSupports(triangles: Triangle[], options: SupportOptions = {}): SupportResult {
+  const { tipDiameter = 0.4, spacing = 2.5, overhangAngle = 60, raft = true, lift = 5, ground = 0 } = options
+  const supports: Triangle[] = []
+  if (triangles.length === 0) return { triangles: supports, tips: 0, trunks: 0, lift: 0 }
+
+  // Raise the model so the lowest point sits the lift above the raft
+  const floor = ground + (raft ? RAFT_THICKNESS : 0)
+  let minZ = Number.POSITIVE_INFINITY
+  for (const { v1, v2, v3 } of triangles) {
+    minZ = Math.min(minZ, v1.z, v2.z, v3.z)
+  }
+  const raise = floor + lift - minZ
+  for (const tri of triangles) {
+    for (const v of [tri.v1, tri.v2, tri.v3]) {
+      v.z += raise
+    }
+  }
+
+  const index = buildColumnIndex(triangles, Math.max(spacing / 2, tipDiameter))
+  const overhangs = overhangTips(index, spacing, Math.sin((overhangAngle * Math.PI) / 180))
+  const tips = [...overhangs, ...islandTips(index, overhangs, spacing)]
+
+  const tipRadius = tipDiameter / 2
+  const branchRadius = Math.max(tipDiameter * 2, MIN_BRANCH_DIAMETER) / 2
+
+  // Each tip narrows from the model down to branch thickness, overlapping the branch below
+  const joints = tips.map((tip) => {
+    addTube(
+      supports,
+      { x: tip.x, y: tip.y, z: tip.z - TIP_LENGTH - branchRadius },
+      { ...tip, z: tip.z + TIP_EMBED },
+      branchRadius,
+      tipRadius,
+    )
+    return { x: tip.x, y: tip.y, z: tip.z - TIP_LENGTH }
+  })
+
+  const addTrunk = (top: Vertex, carried: number): void => {
+    const radius = Math.min(branchRadius * Math.sqrt(carried), MAX_TRUNK_DIAMETER / 2)
+    // Trunks sink into the raft, or spread into a foot on the build plate
+    if (raft) {
+      addTube(supports, { ...top, z: ground + RAFT_THICKNESS / 2 }, { ...top, z: top.z + branchRadius }, radius, radius)
+    } else {
+      addTube(supports, { ...top, z: ground }, { ...top, z: ground + FOOT_HEIGHT }, radius * 2, radius)
+      addTube(supports, { ...top, z: ground + FOOT_HEIGHT / 2 }, { ...top, z: top.z + branchRadius }, radius, radius)
+    }
+  }
+
+  // Group nearby tips so they can share a trunk
+  const clusterSize = spacing * 2
+  const clusters = new Map<string, number[]>()
+  joints.forEach((joint, i) => {
+    const key = `${Math.floor(joint.x / clusterSize)},${Math.floor(joint.y / clusterSize)}`
+    const cluster = clusters.get(key)
+    if (cluster) {
+      cluster.push(i)
+    } else {
+      clusters.set(key, [i])
+    }
+  })
+
+  let trunks = 0
+  const feet: Vertex[] = []
+  for (const members of clusters.values()) {
+    const x = members.reduce((sum, i) => sum + joints[i].x, 0) / members.length
+    const y = members.reduce((sum, i) => sum + joints[i].y, 0) / members.length
+
+    // Branches fall at least as steeply as 45 degrees
+    const top = {
+      x,
+      y,
+      z: Math.min(...members.map((i) => joints[i].z - Math.hypot(joints[i].x - x, joints[i].y - y))),
+    }
+    const shared =
+      members.length > 1 &&
+      top.z - floor >= MIN_TRUNK_LENGTH &&
+      isClear(index, top, { ...top, z: floor }, branchRadius) &&
+      members.every((i) => isClear(index, joints[i], top, branchRadius))
+
+    if (shared) {
+      for (const i of members) {
+        // Branches start a little way out from the trunk axis so their ends never coincide
+        const joint = joints[i]
+        const length = Math.hypot(joint.x - top.x, joint.y - top.y, joint.z - top.z)
+        if (length === 0) continue
+        const f = branchRadius / 2 / length
+        const start = {
+          x: top.x + (joint.x - top.x) * f,
+          y: top.y + (joint.y - top.y) * f,
+          z: top.z + (joint.z - top.z) * f,
+        }
+        addTube(supports, start, joint, branchRadius, branchRadius)
+      }
+      addTrunk(top, members.length)
+      feet.push(top)
+      trunks++
+    } else {
+      for (const i of members) {
+        addTrunk(joints[i], 1)
+        feet.push(joints[i])
+        trunks++
+      }
+    }
+  }
+
+  if (raft && feet.length > 0) {
+    const margin = MAX_TRUNK_DIAMETER / 2 + RAFT_MARGIN + RAFT_THICKNESS
+    addRaft(
+      supports,
+      { x: Math.min(...feet.map((p) => p.x)) - margin, y: Math.min(...feet.map((p) => p.y)) - margin, z: ground },
+      { x: Math.max(...feet.map((p) => p.x)) + margin, y: Math.max(...feet.map((p) => p.y)) + margin, z: ground },
+    )
+  }
+
+  return { triangles: supports, tips: tips.length, trunks, lift: raise }
+}
+
+export { generateSupports }
+export type { SupportOptions, SupportResult }
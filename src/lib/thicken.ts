@@ -0,0 +1,266 @@
+/**
+ * Thickening
+ *
+ * Grows features that are too thin to print, such as blades, bowstrings and
+ * ears. The local thickness at every vertex is measured by casting a ray
+ * inwards until it leaves the mesh on the far side; where that is closer than
+ * the minimum, both sides are pushed outwards along their normals by half the
+ * difference. Vertices that are thick enough stay where they are.
+ */
+
+import type { Triangle } from './exporter'
+import { type WeldedMesh, weldTriangles, weldedToTriangles } from './repair'
+
+// ============================================================
+// Type Definitions
+// ============================================================
+
+interface ThickenOptions {
+  minThickness: number
+  weldTolerance?: number
+  maxCells?: number
+}
+
+interface ThickenResult {
+  triangles: Triangle[]
+  /** Vertices that were moved */
+  vertices: number
+  /** Largest distance a vertex was moved */
+  maxOffset: number
+}
+
+/** Uniform grid of triangle indices for ray casting */
+interface TriangleGrid {
+  cellSize: number
+  origin: [number, number, number]
+  dims: [number, number, number]
+  cells: Map<number, number[]>
+}
+
+// Offsets are spread over this many rings of neighbours so thickened areas blend in
+const BLEND_PASSES = 2
+
+// Hits closer than this fraction of the minimum thickness are the vertex's own surface
+const SELF_HIT = 1e-4
+
+// ============================================================
+// Ray Casting
+// ============================================================
+
+/**
+ * Bucket every triangle into the grid cells its bounding box touches
+ */
+function buildTriangleGrid(mesh: WeldedMesh, cellSize: number, maxCells: number): TriangleGrid {
+  const { positions, indices } = mesh
+  const min = [Number.POSITIVE_INFINITY, Number.POSITIVE_INFINITY, Number.POSITIVE_INFINITY]
+  const max = [Number.NEGATIVE_INFINITY, Number.NEGATIVE_INFINITY, Number.NEGATIVE_INFINITY]
+  for (let i = 0; i < positions.length; i++) {
+    min[i % 3] = Math.min(min[i % 3], positions[i])
+    max[i % 3] = Math.max(max[i % 3], positions[i])
+  }
+
+  let size = cellSize
+  const dims = (): [number, number, number] => [
+    Math.floor((max[0] - min[0]) / size) + 1,
+    Math.floor((max[1] - min[1]) / size) + 1,
+    Math.floor((max[2] - min[2]) / size) + 1,
+  ]
+  let [nx, ny, nz] = dims()
+  if (nx * ny * nz > maxCells) {
+    size *= Math.cbrt((nx * ny * nz) / maxCells) * 1.01
+    ;[nx, ny, nz] = dims()
+  }
+
+  const cells = new Map<number, number[]>()
+  const cellOf = (value: number, axis: number): number => Math.floor((value - min[axis]) / size)
+
+  for (let t = 0; t < indices.length; t += 3) {
+    const lo = [0, 1, 2].map((axis) =>
+      cellOf(Math.min(...[0, 1, 2].map((corner) => positions[indices[t + corner] * 3 + axis])), axis),
+    )
+    const hi = [0, 1, 2].map((axis) =>
+      cellOf(Math.max(...[0, 1, 2].map((corner) => positions[indices[t + corner] * 3 + axis])), axis),
+    )
+    for (let k = lo[2]; k <= hi[2]; k++) {
+      for (let j = lo[1]; j <= hi[1]; j++) {
+        for (let i = lo[0]; i <= hi[0]; i++) {
+          const key = i + nx * (j + ny * k)
+          const cell = cells.get(key)
+          if (cell) {
+            cell.push(t)
+          } else {
+            cells.set(key, [t])
+          }
+        }
+      }
+    }
+  }
+
+  return { cellSize: size, origin: [min[0], min[1], min[2]], dims: [nx, ny, nz], cells }
+}
+
+/**
+ * Distance along a ray to the nearest triangle it leaves the mesh through,
+ * ignoring triangles that share the start vertex. Returns Infinity when there
+ * is none within the length.
+ */
+function castInward(
+  mesh: WeldedMesh,
+  grid: TriangleGrid,
+  vertex: number,
+  direction: [number, number, number],
+  length: number,
+): number {
+  const { positions, indices } = mesh
+  const { cellSize, origin, dims, cells } = grid
+  const start = [positions[vertex * 3], positions[vertex * 3 + 1], positions[vertex * 3 + 2]]
+  const end = start.map((value, axis) => value + direction[axis] * length)
+
+  const lo = [0, 1, 2].map((axis) =>
+    Math.max(Math.floor((Math.min(start[axis], end[axis]) - origin[axis]) / cellSize), 0),
+  )
+  const hi = [0, 1, 2].map((axis) =>
+    Math.min(Math.floor((Math.max(start[axis], end[axis]) - origin[axis]) / cellSize), dims[axis] - 1),
+  )
+
+  let nearest = Number.POSITIVE_INFINITY
+  const seen = new Set<number>()
+
+  for (let k = lo[2]; k <= hi[2]; k++) {
+    for (let j = lo[1]; j <= hi[1]; j++) {
+      for (let i = lo[0]; i <= hi[0]; i++) {
+        for (const t of cells.get(i + dims[0] * (j + dims[1] * k)) ?? []) {
+          if (seen.has(t)) continue
+          seen.add(t)
+
+          const a = indices[t]
+          const b = indices[t + 1]
+          const c = indices[t + 2]
+          if (a === vertex || b === vertex || c === vertex) continue
+
+          // Moller-Trumbore intersection
+          const e1 = [0, 1, 2].map((axis) => positions[b * 3 + axis] - positions[a * 3 + axis])
+          const e2 = [0, 1, 2].map((axis) => positions[c * 3 + axis] - positions[a * 3 + axis])
+          const p = [
+            direction[1] * e2[2] - direction[2] * e2[1],
+            direction[2] * e2[0] - direction[0] * e2[2],
+            direction[0] * e2[1] - direction[1] * e2[0],
+          ]
+          const det = e1[0] * p[0] + e1[1] * p[1] + e1[2] * p[2]
+
+          // Only triangles seen from behind are where the ray leaves the mesh
+          if (det >= -1e-12) continue
+
+          const s = [0, 1, 2].map((axis) => start[axis] - positions[a * 3 + axis])
+          const u = (s[0] * p[0] + s[1] * p[1] + s[2] * p[2]) / det
+          if (u < 0 || u > 1) continue
+          const q = [s[1] * e1[2] - s[2] * e1[1], s[2] * e1[0] - s[0] * e1[2], s[0] * e1[1] - s[1] * e1[0]]
+          const v = (direction[0] * q[0] + direction[1] * q[1] + direction[2] * q[2]) / det
+          if (v < 0 || u + v > 1) continue
+          const distance = (e2[0] * q[0] + e2[1] * q[1] + e2[2] * q[2]) / det
+
+          if (distance > length * SELF_HIT && distance < nearest) nearest = distance
+        }
+      }
+    }
+  }
+
+  return nearest <= length ? nearest : Number.POSITIVE_INFINITY
+}
+
+// ============================================================
+// Thickening
+// ============================================================
+
+/**
+ * Area-weighted vertex normals of a welded mesh
+ */
+function vertexNormals(mesh: WeldedMesh): Float64Array {
+  const { positions, indices } = mesh
+  const normals = new Float64Array(positions.length)
+
+  for (let t = 0; t < indices.length; t += 3) {
+    const [a, b, c] = [indices[t], indices[t + 1], indices[t + 2]]
+    const e1 = [0, 1, 2].map((axis) => positions[b * 3 + axis] - positions[a * 3 + axis])
+    const e2 = [0, 1, 2].map((axis) => positions[c * 3 + axis] - positions[a * 3 + axis])
+    const n = [e1[1] * e2[2] - e1[2] * e2[1], e1[2] * e2[0] - e1[0] * e2[2], e1[0] * e2[1] - e1[1] * e2[0]]
+    for (const corner of [a, b, c]) {
+      for (let axis = 0; axis < 3; axis++) normals[corner * 3 + axis] += n[axis]
+    }
+  }
+
+  for (let i = 0; i < normals.length; i += 3) {
+    const length = Math.hypot(normals[i], normals[i + 1], normals[i + 2])
+    if (length > 0) {
+      normals[i] /= length
+      normals[i + 1] /= length
+      normals[i + 2] /= length
+    }
+  }
+
+  return normals
+}
+
+/**
+ * Thicken the parts of a triangle soup that are thinner than the minimum
+ * @param options.minThickness - Thinnest wall to leave, in the units of the triangles
+ * @param options.weldTolerance - Distance used to weld the soup before measuring (default: 0.00001)
+ * @param options.maxCells - Upper bound on the ray casting grid before its cells grow (default: 2M)
+ */
+function thickenTriangles(triangles: Triangle[], options: ThickenOptions): ThickenResult {
+  const { minThickness, weldTolerance = 0.00001, maxCells = 2_000_000 } = options
+  if (minThickness <= 0 || triangles.length === 0) return { triangles, vertices: 0, maxOffset: 0 }
+
+  const mesh = weldTriangles(triangles, weldTolerance)
+  const { positions, indices } = mesh
+  const vertexCount = positions.length / 3
+  const normals = vertexNormals(mesh)
+  const grid = buildTriangleGrid(mesh, minThickness, maxCells)
+
+  const offsets = new Float64Array(vertexCount)
+  for (let vertex = 0; vertex < vertexCount; vertex++) {
+    const inward: [number, number, number] = [-normals[vertex * 3], -normals[vertex * 3 + 1], -normals[vertex * 3 + 2]]
+    if (inward[0] === 0 && inward[1] === 0 && inward[2] === 0) continue
+
+    const thickness = castInward(mesh, grid, vertex, inward, minThickness)
+    if (thickness < minThickness) offsets[vertex] = (minThickness - thickness) / 2
+  }
+
+  // Let the neighbours of moved vertices follow part of the way
+  const neighbors: Set<number>[] = Array.from({ length: vertexCount }, () => new Set())
+  for (let t = 0; t < indices.length; t += 3) {
+    for (let e = 0; e < 3; e++) {
+      const a = indices[t + e]
+      const b = indices[t + ((e + 1) % 3)]
+      neighbors[a].add(b)
+      neighbors[b].add(a)
+    }
+  }
+  for (let pass = 0; pass < BLEND_PASSES; pass++) {
+    const previous = offsets.slice()
+    for (let vertex = 0; vertex < vertexCount; vertex++) {
+      if (neighbors[vertex].size === 0) continue
+      let sum = 0
+      for (const neighbor of neighbors[vertex]) sum += previous[neighbor]
+      offsets[vertex] = Math.max(previous[vertex], sum / neighbors[vertex].size)
+    }
+  }
+
+  let moved = 0
+  let maxOffset = 0
+  for (let vertex = 0; vertex < vertexCount; vertex++) {
+    const offset = offsets[vertex]
+    if (offset <= 0) continue
+    for (let axis = 0; axis < 3; axis++) {
+      positions[vertex * 3 + axis] += normals[vertex * 3 + axis] * offset
+    }
+    moved++
+    maxOffset = Math.max(maxOffset, offset)
+  }
+
+  if (moved === 0) return { triangles, vertices: 0, maxOffset: 0 }
+  return { triangles: weldedToTriangles(mesh), vertices: moved, maxOffset }
+}
+
+export { thickenTriangles }
+export type { ThickenOptions, ThickenResult }
@@ -0,0 +1,27 @@
+/**
+ * Export Worker
+ *
+ * Runs the export pipeline off the main thread, so the page stays responsive
+ * while detailed characters are processed. The page poses the character and
+ * sends the mesh snapshots; the worker posts progress as it goes and the
+ * written file when done. It says when it is ready, so a page that refuses
+ * workers can fall back to exporting on the main thread.
+ */
+
+import { type ExportWorkerMessage, type ExportWorkerRequest, runExport } from './exporter'
+
+const post = (message: ExportWorkerMessage): void => {
+  self.postMessage(message)
+}
+
+self.addEventListener('message', async (event: MessageEvent<ExportWorkerRequest>) => {
+  const { snapshots, options } = event.data
+  try {
+    const output = await runExport(snapshots, options, (progress) => post({ type: 'progress', progress }))
+    post({ type: 'done', output })
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) })
+  }
+})
+
+post({ type: 'ready' })
@@ -1,47 +1,335 @@
-import { createSignal, onCleanup, onMount } from 'solid-js'
-import { exportCharacter } from './lib/exporter'
+import { For, Show, createEffect, createSignal, onCleanup, onMount } from 'solid-js'
+import { BASE_DIAMETERS, type BaseShape } from './lib/base'
+import {
+  type CutPlane,
+  type DrainHole,
+  type ExportFormat,
+  type ExportOptions,
+  type ExportProgress,
+  type ExportResult,
+  type ExportStage,
+  type ExportStats,
+  type MeshListing,
+  type MeshOverride,
+  type MiniatureScale,
+  type Orientation,
+  type OrientationCandidate,
+  type PreviewScene,
+  type UpAxis,
+  exportCharacter,
+  listMeshes,
+  previewCharacter,
+  suggestOrientations,
+} from './lib/exporter'
+import type { NameplateMode, NameplatePlacement } from './lib/nameplate'
+import { type Color, type PreviewRenderer, SKIPPED_COLOR, createPreviewRenderer, meshColor } from './lib/preview'
+import ExportWorker from './lib/worker?worker&inline'
 import s from './widget.module.css'
 
+type SizingMode = 'scale' | 'height' | 'miniature' | 'eyes' | 'base'
+
+const STAGE_LABELS: Record<ExportStage, string> = {
+  posing: 'Posing',
+  collecting: 'Collecting',
+  placing: 'Placing',
+  finishing: 'Cleaning up',
+  cutting: 'Cutting',
+  checking: 'Checking',
+  supporting: 'Adding supports',
+  writing: 'Writing',
+}
+
+/**
+ * Map the selected sizing mode onto the matching export option
+ */
+const sizingOptions = (mode: SizingMode, scale: number, size: number, miniature: MiniatureScale): ExportOptions => {
+  switch (mode) {
+    case 'height':
+      return { targetHeight: size }
+    case 'miniature':
+      return { miniatureScale: miniature }
+    case 'eyes':
+      return { eyeHeight: size }
+    case 'base':
+      return { baseDiameter: size }
+    default:
+      return { scale: 10 * scale }
+  }
+}
+
+/**
+ * Parse drain hole positions written as "x, y, z" groups separated by semicolons
+ */
+const parseDrainHoles = (text: string): DrainHole[] =>
+  text
+    .split(';')
+    .map((group) => group.split(',').map((value) => Number(value.trim())))
+    .filter((values) => values.length === 3 && values.every((value) => Number.isFinite(value)))
+    .map(([x, y, z]) => ({ x, y, z }))
+
+/**
+ * Parse cut planes written as "axis=position" groups separated by semicolons,
+ * each plane square to that axis
+ */
+const parseCutPlanes = (text: string): CutPlane[] =>
+  text
+    .split(';')
+    .map((group) => group.split('=').map((value) => value.trim().toLowerCase()))
+    .filter(([axis, value]) => ['x', 'y', 'z'].includes(axis) && value !== '' && Number.isFinite(Number(value)))
+    .map(([axis, value]) => ({
+      x: axis === 'x' ? Number(value) : 0,
+      y: axis === 'y' ? Number(value) : 0,
+      z: axis === 'z' ? Number(value) : 0,
+      normal: { x: axis === 'x' ? 1 : 0, y: axis === 'y' ? 1 : 0, z: axis === 'z' ? 1 : 0 },
+    }))
+
+/**
+ * CSS colour for a preview colour
+ */
+const toCss = ([r, g, b]: Color): string =>
+  `rgb(${Math.round(r * 255)}, ${Math.round(g * 255)}, ${Math.round(b * 255)})`
+
 export const Widget = () => {
   let ref!: HTMLDivElement
+  let content!: HTMLDivElement
 
   const [open, setOpen] = createSignal(false)
+  const [sizingMode, setSizingMode] = createSignal<SizingMode>('scale')
   const [scale, setScale] = createSignal(1)
+  const [size, setSize] = createSignal(32)
+  const [miniatureScale, setMiniatureScale] = createSignal<MiniatureScale>('32mm')
   const [separateBase, setSeparateBase] = createSignal(false)
+  const [splitSlots, setSplitSlots] = createSignal(false)
+  const [meshes, setMeshes] = createSignal<MeshListing[]>([])
+  const [meshOverrides, setMeshOverrides] = createSignal<Record<string, MeshOverride>>({})
+  const [sharedFrame, setSharedFrame] = createSignal(false)
+  const [centerXY, setCenterXY] = createSignal(false)
+  const [upAxis, setUpAxis] = createSignal<UpAxis>('z')
+  const [groundOffset, setGroundOffset] = createSignal(2.5)
+  const [repair, setRepair] = createSignal(false)
+  const [solidify, setSolidify] = createSignal(false)
+  const [voxelSize, setVoxelSize] = createSignal(0.2)
+  const [replaceBase, setReplaceBase] = createSignal(false)
+  const [baseShape, setBaseShape] = createSignal<BaseShape>('round')
+  const [baseSize, setBaseSize] = createSignal(25)
+  const [baseHeight, setBaseHeight] = createSignal(4)
+  const [baseBevel, setBaseBevel] = createSignal(1)
+  const [magnetDiameter, setMagnetDiameter] = createSignal(0)
+  const [magnetDepth, setMagnetDepth] = createSignal(2)
+  const [pegDiameter, setPegDiameter] = createSignal(0)
+  const [nameplate, setNameplate] = createSignal(false)
+  const [nameplateText, setNameplateText] = createSignal('')
+  const [nameplateMode, setNameplateMode] = createSignal<NameplateMode>('emboss')
+  const [nameplatePlacement, setNameplatePlacement] = createSignal<NameplatePlacement>('top')
+  const [hollow, setHollow] = createSignal(false)
+  const [wallThickness, setWallThickness] = createSignal(2)
+  const [drainHoleDiameter, setDrainHoleDiameter] = createSignal(3)
+  const [autoDrainHoles, setAutoDrainHoles] = createSignal(true)
+  const [drainHoles, setDrainHoles] = createSignal('')
+  const [cutPlanes, setCutPlanes] = createSignal('')
+  const [pinDiameter, setPinDiameter] = createSignal(4)
+  const [pinTolerance, setPinTolerance] = createSignal(0.2)
+  const [simplify, setSimplify] = createSignal(false)
+  const [targetTriangles, setTargetTriangles] = createSignal(100000)
+  const [maxError, setMaxError] = createSignal(0)
+  const [subdivisions, setSubdivisions] = createSignal(0)
+  const [checkPrintability, setCheckPrintability] = createSignal(true)
+  const [thicken, setThicken] = createSignal(false)
+  const [minWallThickness, setMinWallThickness] = createSignal(0.8)
+  const [overhangAngle, setOverhangAngle] = createSignal(60)
+  const [orientation, setOrientation] = createSignal('posed')
+  const [orientations, setOrientations] = createSignal<OrientationCandidate[]>([])
+  const [supports, setSupports] = createSignal(false)
+  const [supportTipDiameter, setSupportTipDiameter] = createSignal(0.4)
+  const [supportSpacing, setSupportSpacing] = createSignal(2.5)
+  const [supportRaft, setSupportRaft] = createSignal(true)
+  const [plate, setPlate] = createSignal(false)
+  const [plateWidth, setPlateWidth] = createSignal(218)
+  const [plateDepth, setPlateDepth] = createSignal(123)
+  const [plateSpacing, setPlateSpacing] = createSignal(5)
+  const [plateRotation, setPlateRotation] = createSignal(true)
+  const [preview, setPreview] = createSignal<PreviewScene | null>(null)
+  const [stats, setStats] = createSignal<ExportStats | null>(null)
+  const [progress, setProgress] = createSignal<ExportProgress | null>(null)
+  const [issues, setIssues] = createSignal<string[]>([])
+  const [error, setError] = createSignal<string | null>(null)
   const [filename, setFilename] = createSignal('hero')
+  const [format, setFormat] = createSignal<ExportFormat>('stl')
+
+  const updatePosition = () => {
+    const viewportHeight = document.documentElement.clientHeight
+    const height = open() ? Math.min(48 + content.scrollHeight, viewportHeight - 50) : 48
+    ref.style.top = `${Math.max(viewportHeight - height - 25, 25)}px`
+  }
 
   const handleToggle = () => {
     setOpen(!open())
-
-    if (open()) {
-      ref.style.top = `${Math.max(document.documentElement.clientHeight - 258 - 25, 25)}px`
-    } else {
-      ref.style.top = `${Math.max(document.documentElement.clientHeight - 48 - 25, 25)}px`
-    }
+    updatePosition()
   }
 
   const fixPosition = () => {
-    ref.style.top = `${Math.max(document.documentElement.clientHeight - ref.clientHeight - 25, 25)}px`
+    updatePosition()
     ref.style.left = '25px'
   }
 
+  const resizeObserver = new ResizeObserver(updatePosition)
+
   onMount(() => {
     window.addEventListener('resize', fixPosition)
+    resizeObserver.observe(content)
     fixPosition()
   })
 
+  // Aborting a running export stops its worker
+  let exportController: AbortController | null = null
+
   onCleanup(() => {
     window.removeEventListener('resize', fixPosition)
+    resizeObserver.disconnect()
+    exportController?.abort()
+  })
+
+  // Listings keep the name-based choices; the user's changes are kept apart as overrides
+  const handleListMeshes = () => {
+    setMeshes(listMeshes())
+  }
+
+  const overrideMesh = (id: string, change: MeshOverride) => {
+    setMeshOverrides({ ...meshOverrides(), [id]: { ...meshOverrides()[id], ...change } })
+  }
+
+  const handleSuggestOrientations = () => {
+    const candidates = suggestOrientations({
+      ...sizingOptions(sizingMode(), scale(), size(), miniatureScale()),
+      overhangAngle: overhangAngle(),
+      meshOverrides: meshOverrides(),
+    }).slice(0, 5)
+    setOrientations(candidates)
+    setOrientation(candidates.length > 0 ? '0' : 'posed')
+  }
+
+  // The renderer lives as long as its canvas, and picks up every new scene
+  let renderer: PreviewRenderer | null = null
+  createEffect(() => {
+    const scene = preview()
+    if (scene && renderer) renderer.setScene(scene)
   })
 
-  const handleExport = (e: Event) => {
+  const handlePreview = () => {
+    setPreview(
+      previewCharacter({
+        ...sizingOptions(sizingMode(), scale(), size(), miniatureScale()),
+        groundOffset: groundOffset(),
+        meshOverrides: meshOverrides(),
+      }),
+    )
+  }
+
+  // 'posed' and 'auto' are passed through, anything else picks a suggested candidate
+  const selectedOrientation = (): Orientation | 'auto' | undefined => {
+    const choice = orientation()
+    if (choice === 'posed') return undefined
+    if (choice === 'auto') return 'auto'
+    return orientations()[Number(choice)]?.orientation
+  }
+
+  const handleExport = async (e: Event) => {
     e.preventDefault()
+    if (exportController) return
 
-    exportCharacter({
-      scale: 10 * scale(),
+    const options: ExportOptions = {
+      ...sizingOptions(sizingMode(), scale(), size(), miniatureScale()),
       filename: filename(),
       separateBase: separateBase(),
-    })
+      splitSlots: splitSlots(),
+      meshOverrides: meshOverrides(),
+      sharedFrame: sharedFrame(),
+      centerXY: centerXY(),
+      upAxis: upAxis(),
+      groundOffset: groundOffset(),
+      repair: repair(),
+      solidify: solidify(),
+      voxelSize: voxelSize(),
+      generatedBase: replaceBase()
+        ? {
+            shape: baseShape(),
+            diameter: baseSize(),
+            height: baseHeight(),
+            bevel: baseBevel(),
+            magnetDiameter: magnetDiameter() || undefined,
+            magnetDepth: magnetDepth(),
+            pegDiameter: pegDiameter() || undefined,
+          }
+        : undefined,
+      // Stamp the filename unless other text is given
+      nameplate:
+        replaceBase() && nameplate()
+          ? {
+              text: nameplateText() || filename(),
+              mode: nameplateMode(),
+              placement: nameplatePlacement(),
+            }
+          : undefined,
+      hollow: hollow(),
+      wallThickness: wallThickness(),
+      drainHoleDiameter: drainHoleDiameter(),
+      autoDrainHoles: autoDrainHoles(),
+      drainHoles: parseDrainHoles(drainHoles()),
+      cutPlanes: parseCutPlanes(cutPlanes()),
+      pinDiameter: pinDiameter(),
+      pinTolerance: pinTolerance(),
+      // Zero leaves that limit off
+      targetTriangles: simplify() && targetTriangles() > 0 ? targetTriangles() : undefined,
+      maxError: simplify() && maxError() > 0 ? maxError() : undefined,
+      subdivisions: subdivisions(),
+      thicken: thicken(),
+      checkPrintability: checkPrintability(),
+      minWallThickness: minWallThickness(),
+      overhangAngle: overhangAngle(),
+      orientation: selectedOrientation(),
+      supports: supports(),
+      supportTipDiameter: supportTipDiameter(),
+      supportSpacing: supportSpacing(),
+      supportRaft: supportRaft(),
+      plate: plate()
+        ? { width: plateWidth(), depth: plateDepth(), spacing: plateSpacing(), allowRotation: plateRotation() }
+        : undefined,
+      format: format(),
+    }
+
+    const controller = new AbortController()
+    exportController = controller
+    setProgress({ stage: 'posing', fraction: 0 })
+
+    // The button leaves its cancel state however the export ends
+    let result: ExportResult
+    try {
+      result = await exportCharacter(options, {
+        onProgress: setProgress,
+        signal: controller.signal,
+        createWorker: () => new ExportWorker(),
+      })
+    } finally {
+      exportController = null
+      setProgress(null)
+    }
+
+    if (!result.ok) {
+      // A cancelled export keeps the previous results on show
+      if (result.error.code === 'cancelled') return
+      setStats(null)
+      setError(result.error.message)
+      setIssues(result.warnings.map((warning) => warning.message))
+      return
+    }
+
+    setError(null)
+    setStats(result.stats)
+    setIssues(result.warnings.map((warning) => warning.message))
+  }
+
+  const handleCancelExport = () => {
+    exportController?.abort()
   }
 
   return (
@@ -65,20 +353,68 @@ export const Widget = () => {
           </svg>
         </button>
       </div>
-      <div class={s.content}>
+      <div class={s.content} ref={content}>
         <div class={s.field}>
-          <label for="scale">Scale</label>
-          <input
+          <label for="sizingMode">Size by</label>
+          <select
             class={s.input}
-            type="number"
-            min={0.1}
-            max={5}
-            step={0.1}
-            id="scale"
-            value={scale()}
-            onInput={(e) => setScale(Number((e.target as HTMLInputElement).value))}
-          />
+            id="sizingMode"
+            value={sizingMode()}
+            onInput={(e) => setSizingMode((e.target as HTMLSelectElement).value as SizingMode)}
+          >
+            <option value="scale">Scale factor</option>
+            <option value="miniature">Miniature scale</option>
+            <option value="height">Figure height</option>
+            <option value="eyes">Eye height</option>
+            <option value="base">Base diameter</option>
+          </select>
         </div>
+        <Show when={sizingMode() === 'scale'}>
+          <div class={s.field}>
+            <label for="scale">Scale</label>
+            <input
+              class={s.input}
+              type="number"
+              min={0.1}
+              max={5}
+              step={0.1}
+              id="scale"
+              value={scale()}
+              onInput={(e) => setScale(Number((e.target as HTMLInputElement).value))}
+            />
+          </div>
+        </Show>
+        <Show when={sizingMode() === 'miniature'}>
+          <div class={s.field}>
+            <label for="miniatureScale">Miniature scale</label>
+            <select
+              class={s.input}
+              id="miniatureScale"
+              value={miniatureScale()}
+              onInput={(e) => setMiniatureScale((e.target as HTMLSelectElement).value as MiniatureScale)}
+            >
+              <option value="28mm">28mm</option>
+              <option value="32mm">32mm heroic</option>
+              <option value="54mm">54mm</option>
+              <option value="75mm">75mm</option>
+            </select>
+          </div>
+        </Show>
+        <Show when={sizingMode() === 'height' || sizingMode() === 'eyes' || sizingMode() === 'base'}>
+          <div class={s.field}>
+            <label for="size">Size (mm)</label>
+            <input
+              class={s.input}
+              type="number"
+              min={1}
+              max={500}
+              step={1}
+              id="size"
+              value={size()}
+              onInput={(e) => setSize(Number((e.target as HTMLInputElement).value))}
+            />
+          </div>
+        </Show>
         <div class={s.field}>
           <label for="filename">Filename</label>
           <input
@@ -89,6 +425,52 @@ export const Widget = () => {
             onInput={(e) => setFilename((e.target as HTMLInputElement).value)}
           />
         </div>
+        <div class={s.field}>
+          <label for="format">Format</label>
+          <select
+            class={s.input}
+            id="format"
+            value={format()}
+            onInput={(e) => setFormat((e.target as HTMLSelectElement).value as ExportFormat)}
+          >
+            <option value="stl">STL</option>
+            <option value="3mf">3MF</option>
+            <option value="obj">OBJ</option>
+            <option value="glb">GLB (rigged)</option>
+          </select>
+        </div>
+        <input class={s.button} type="button" value="List meshes" onClick={handleListMeshes} />
+        <Show when={meshes().length > 0}>
+          <ul class={s.meshes}>
+            <For each={meshes()}>
+              {(listing) => (
+                <li class={s.mesh}>
+                  <div class={s.checkbox}>
+                    <input
+                      type="checkbox"
+                      id={`mesh-${listing.id}`}
+                      checked={meshOverrides()[listing.id]?.include ?? listing.included}
+                      onInput={(e) => overrideMesh(listing.id, { include: (e.target as HTMLInputElement).checked })}
+                    />
+                  </div>
+                  <label for={`mesh-${listing.id}`} title={listing.id}>
+                    {listing.slotName} / {listing.name || 'unnamed'} ({listing.triangles.toLocaleString()})
+                  </label>
+                  <select
+                    class={s.input}
+                    value={(meshOverrides()[listing.id]?.isBase ?? listing.isBase) ? 'base' : 'character'}
+                    onInput={(e) =>
+                      overrideMesh(listing.id, { isBase: (e.target as HTMLSelectElement).value === 'base' })
+                    }
+                  >
+                    <option value="character">Character</option>
+                    <option value="base">Base</option>
+                  </select>
+                </li>
+              )}
+            </For>
+          </ul>
+        </Show>
         <div classList={{ [s.field]: true, [s.row]: true }}>
           <label for="separateBase">Separate base</label>
           <div class={s.checkbox}>
@@ -100,7 +482,673 @@ export const Widget = () => {
             />
           </div>
         </div>
-        <input class={s.button} type="submit" value="Export" onClick={handleExport} />
+        <div classList={{ [s.field]: true, [s.row]: true }}>
+          <label for="replaceBase">Replace base</label>
+          <div class={s.checkbox}>
+            <input
+              type="checkbox"
+              id="replaceBase"
+              checked={replaceBase()}
+              onInput={(e) => setReplaceBase((e.target as HTMLInputElement).checked)}
+            />
+          </div>
+        </div>
+        <Show when={replaceBase()}>
+          <div class={s.field}>
+            <label for="baseShape">Base shape</label>
+            <select
+              class={s.input}
+              id="baseShape"
+              value={baseShape()}
+              onInput={(e) => setBaseShape((e.target as HTMLSelectElement).value as BaseShape)}
+            >
+              <option value="round">Round</option>
+              <option value="oval">Oval</option>
+              <option value="square">Square</option>
+              <option value="hex">Hex</option>
+            </select>
+          </div>
+          <div class={s.field}>
+            <label for="baseSize">Base size (mm)</label>
+            <select
+              class={s.input}
+              id="baseSize"
+              value={baseSize()}
+              onInput={(e) => setBaseSize(Number((e.target as HTMLSelectElement).value))}
+            >
+              <For each={BASE_DIAMETERS}>{(diameter) => <option value={diameter}>{diameter}mm</option>}</For>
+            </select>
+          </div>
+          <div class={s.field}>
+            <label for="baseHeight">Base height (mm)</label>
+            <input
+              class={s.input}
+              type="number"
+              min={1}
+              max={20}
+              step={0.5}
+              id="baseHeight"
+              value={baseHeight()}
+              onInput={(e) => setBaseHeight(Number((e.target as HTMLInputElement).value))}
+            />
+          </div>
+          <div class={s.field}>
+            <label for="baseBevel">Bevel (mm)</label>
+            <input
+              class={s.input}
+              type="number"
+              min={0}
+              max={5}
+              step={0.25}
+              id="baseBevel"
+              value={baseBevel()}
+              onInput={(e) => setBaseBevel(Number((e.target as HTMLInputElement).value))}
+            />
+          </div>
+          <div class={s.field}>
+            <label for="magnetDiameter">Magnet diameter (mm, 0 for none)</label>
+            <input
+              class={s.input}
+              type="number"
+              min={0}
+              max={20}
+              step={0.5}
+              id="magnetDiameter"
+              value={magnetDiameter()}
+              onInput={(e) => setMagnetDiameter(Number((e.target as HTMLInputElement).value))}
+            />
+          </div>
+          <Show when={magnetDiameter() > 0}>
+            <div class={s.field}>
+              <label for="magnetDepth">Magnet depth (mm)</label>
+              <input
+                class={s.input}
+                type="number"
+                min={0.5}
+                max={10}
+                step={0.5}
+                id="magnetDepth"
+                value={magnetDepth()}
+                onInput={(e) => setMagnetDepth(Number((e.target as HTMLInputElement).value))}
+              />
+            </div>
+          </Show>
+          <div class={s.field}>
+            <label for="pegDiameter">Foot peg diameter (mm, 0 for none)</label>
+            <input
+              class={s.input}
+              type="number"
+              min={0}
+              max={10}
+              step={0.5}
+              id="pegDiameter"
+              value={pegDiameter()}
+              onInput={(e) => setPegDiameter(Number((e.target as HTMLInputElement).value))}
+            />
+          </div>
+          <div classList={{ [s.field]: true, [s.row]: true }}>
+            <label for="nameplate">Nameplate</label>
+            <div class={s.checkbox}>
+              <input
+                type="checkbox"
+                id="nameplate"
+                checked={nameplate()}
+                onInput={(e) => setNameplate((e.target as HTMLInputElement).checked)}
+              />
+            </div>
+          </div>
+          <Show when={nameplate()}>
+            <div class={s.field}>
+              <label for="nameplateText">Nameplate text</label>
+              <input
+                class={s.input}
+                type="text"
+                id="nameplateText"
+                placeholder={filename()}
+                value={nameplateText()}
+                onInput={(e) => setNameplateText((e.target as HTMLInputElement).value)}
+              />
+            </div>
+            <div class={s.field}>
+              <label for="nameplateMode">Lettering</label>
+              <select
+                class={s.input}
+                id="nameplateMode"
+                value={nameplateMode()}
+                onInput={(e) => setNameplateMode((e.target as HTMLSelectElement).value as NameplateMode)}
+              >
+                <option value="emboss">Embossed</option>
+                <option value="engrave">Engraved</option>
+              </select>
+            </div>
+            <div class={s.field}>
+              <label for="nameplatePlacement">Placement</label>
+              <select
+                class={s.input}
+                id="nameplatePlacement"
+                value={nameplatePlacement()}
+                onInput={(e) => setNameplatePlacement((e.target as HTMLSelectElement).value as NameplatePlacement)}
+              >
+                <option value="top">Top, in front of the figure</option>
+                <option value="rim">Rim, at the front</option>
+              </select>
+            </div>
+          </Show>
+        </Show>
+        <div classList={{ [s.field]: true, [s.row]: true }}>
+          <label for="splitSlots">Split by slot</label>
+          <div class={s.checkbox}>
+            <input
+              type="checkbox"
+              id="splitSlots"
+              checked={splitSlots()}
+              onInput={(e) => setSplitSlots((e.target as HTMLInputElement).checked)}
+            />
+          </div>
+        </div>
+        <div classList={{ [s.field]: true, [s.row]: true }}>
+          <label for="sharedFrame">Keep parts aligned</label>
+          <div class={s.checkbox}>
+            <input
+              type="checkbox"
+              id="sharedFrame"
+              checked={sharedFrame()}
+              onInput={(e) => setSharedFrame((e.target as HTMLInputElement).checked)}
+            />
+          </div>
+        </div>
+        <div classList={{ [s.field]: true, [s.row]: true }}>
+          <label for="centerXY">Centre on origin</label>
+          <div class={s.checkbox}>
+            <input
+              type="checkbox"
+              id="centerXY"
+              checked={centerXY()}
+              onInput={(e) => setCenterXY((e.target as HTMLInputElement).checked)}
+            />
+          </div>
+        </div>
+        <div class={s.field}>
+          <label for="upAxis">Up axis</label>
+          <select
+            class={s.input}
+            id="upAxis"
+            value={upAxis()}
+            onInput={(e) => setUpAxis((e.target as HTMLSelectElement).value as UpAxis)}
+          >
+            <option value="z">Z up</option>
+            <option value="y">Y up</option>
+          </select>
+        </div>
+        <div class={s.field}>
+          <label for="groundOffset">Ground offset (mm)</label>
+          <input
+            class={s.input}
+            type="number"
+            min={0}
+            step={0.5}
+            id="groundOffset"
+            value={groundOffset()}
+            onInput={(e) => setGroundOffset(Number((e.target as HTMLInputElement).value))}
+          />
+        </div>
+        <div classList={{ [s.field]: true, [s.row]: true }}>
+          <label for="repair">Repair mesh</label>
+          <div class={s.checkbox}>
+            <input
+              type="checkbox"
+              id="repair"
+              checked={repair()}
+              onInput={(e) => setRepair((e.target as HTMLInputElement).checked)}
+            />
+          </div>
+        </div>
+        <div classList={{ [s.field]: true, [s.row]: true }}>
+          <label for="solidify">Solidify</label>
+          <div class={s.checkbox}>
+            <input
+              type="checkbox"
+              id="solidify"
+              checked={solidify()}
+              onInput={(e) => setSolidify((e.target as HTMLInputElement).checked)}
+            />
+          </div>
+        </div>
+        <div classList={{ [s.field]: true, [s.row]: true }}>
+          <label for="hollow">Hollow</label>
+          <div class={s.checkbox}>
+            <input
+              type="checkbox"
+              id="hollow"
+              checked={hollow()}
+              onInput={(e) => setHollow((e.target as HTMLInputElement).checked)}
+            />
+          </div>
+        </div>
+        <Show when={hollow()}>
+          <div class={s.field}>
+            <label for="wallThickness">Wall thickness (mm)</label>
+            <input
+              class={s.input}
+              type="number"
+              min={0.5}
+              max={10}
+              step={0.1}
+              id="wallThickness"
+              value={wallThickness()}
+              onInput={(e) => setWallThickness(Number((e.target as HTMLInputElement).value))}
+            />
+          </div>
+          <div class={s.field}>
+            <label for="drainHoleDiameter">Drain hole diameter (mm)</label>
+            <input
+              class={s.input}
+              type="number"
+              min={0.5}
+              max={10}
+              step={0.5}
+              id="drainHoleDiameter"
+              value={drainHoleDiameter()}
+              onInput={(e) => setDrainHoleDiameter(Number((e.target as HTMLInputElement).value))}
+            />
+          </div>
+          <div classList={{ [s.field]: true, [s.row]: true }}>
+            <label for="autoDrainHoles">Drain holes at lowest points</label>
+            <div class={s.checkbox}>
+              <input
+                type="checkbox"
+                id="autoDrainHoles"
+                checked={autoDrainHoles()}
+                onInput={(e) => setAutoDrainHoles((e.target as HTMLInputElement).checked)}
+              />
+            </div>
+          </div>
+          <div class={s.field}>
+            <label for="drainHoles">Extra holes (x, y, z in mm, Z up, before centring; ...)</label>
+            <input
+              class={s.input}
+              type="text"
+              id="drainHoles"
+              placeholder="0, 0, 40"
+              value={drainHoles()}
+              onInput={(e) => setDrainHoles((e.target as HTMLInputElement).value)}
+            />
+          </div>
+        </Show>
+        <Show when={solidify() || hollow()}>
+          <div class={s.field}>
+            <label for="voxelSize">Voxel size (mm)</label>
+            <input
+              class={s.input}
+              type="number"
+              min={0.05}
+              max={2}
+              step={0.05}
+              id="voxelSize"
+              value={voxelSize()}
+              onInput={(e) => setVoxelSize(Number((e.target as HTMLInputElement).value))}
+            />
+          </div>
+        </Show>
+        <div class={s.field}>
+          <label for="cutPlanes">Cut at (axis=mm, Z up, before centring; ...)</label>
+          <input
+            class={s.input}
+            type="text"
+            id="cutPlanes"
+            placeholder="z=60"
+            value={cutPlanes()}
+            onInput={(e) => setCutPlanes((e.target as HTMLInputElement).value)}
+          />
+        </div>
+        <Show when={parseCutPlanes(cutPlanes()).length > 0}>
+          <div class={s.field}>
+            <label for="pinDiameter">Alignment pin diameter (mm, 0 for none)</label>
+            <input
+              class={s.input}
+              type="number"
+              min={0}
+              max={20}
+              step={0.5}
+              id="pinDiameter"
+              value={pinDiameter()}
+              onInput={(e) => setPinDiameter(Number((e.target as HTMLInputElement).value))}
+            />
+          </div>
+          <div class={s.field}>
+            <label for="pinTolerance">Pin tolerance (mm)</label>
+            <input
+              class={s.input}
+              type="number"
+              min={0}
+              max={1}
+              step={0.05}
+              id="pinTolerance"
+              value={pinTolerance()}
+              onInput={(e) => setPinTolerance(Number((e.target as HTMLInputElement).value))}
+            />
+          </div>
+        </Show>
+        <div class={s.field}>
+          <label for="subdivisions">Smoothing</label>
+          <select
+            class={s.input}
+            id="subdivisions"
+            value={subdivisions()}
+            onInput={(e) => setSubdivisions(Number((e.target as HTMLSelectElement).value))}
+          >
+            <option value="0">Off</option>
+            <option value="1">1 iteration</option>
+            <option value="2">2 iterations</option>
+            <option value="3">3 iterations</option>
+          </select>
+        </div>
+        <div classList={{ [s.field]: true, [s.row]: true }}>
+          <label for="simplify">Simplify</label>
+          <div class={s.checkbox}>
+            <input
+              type="checkbox"
+              id="simplify"
+              checked={simplify()}
+              onInput={(e) => setSimplify((e.target as HTMLInputElement).checked)}
+            />
+          </div>
+        </div>
+        <Show when={simplify()}>
+          <div class={s.field}>
+            <label for="targetTriangles">Target triangles (0 = no limit)</label>
+            <input
+              class={s.input}
+              type="number"
+              min={0}
+              step={1000}
+              id="targetTriangles"
+              value={targetTriangles()}
+              onInput={(e) => setTargetTriangles(Number((e.target as HTMLInputElement).value))}
+            />
+          </div>
+          <div class={s.field}>
+            <label for="maxError">Max deviation (mm, 0 = no limit)</label>
+            <input
+              class={s.input}
+              type="number"
+              min={0}
+              step={0.01}
+              id="maxError"
+              value={maxError()}
+              onInput={(e) => setMaxError(Number((e.target as HTMLInputElement).value))}
+            />
+          </div>
+        </Show>
+        <div classList={{ [s.field]: true, [s.row]: true }}>
+          <label for="checkPrintability">Check printability</label>
+          <div class={s.checkbox}>
+            <input
+              type="checkbox"
+              id="checkPrintability"
+              checked={checkPrintability()}
+              onInput={(e) => setCheckPrintability((e.target as HTMLInputElement).checked)}
+            />
+          </div>
+        </div>
+        <div classList={{ [s.field]: true, [s.row]: true }}>
+          <label for="thicken">Thicken thin features</label>
+          <div class={s.checkbox}>
+            <input
+              type="checkbox"
+              id="thicken"
+              checked={thicken()}
+              onInput={(e) => setThicken((e.target as HTMLInputElement).checked)}
+            />
+          </div>
+        </div>
+        <Show when={checkPrintability() || thicken()}>
+          <div class={s.field}>
+            <label for="minWallThickness">Minimum wall (mm)</label>
+            <input
+              class={s.input}
+              type="number"
+              min={0.2}
+              max={5}
+              step={0.1}
+              id="minWallThickness"
+              value={minWallThickness()}
+              onInput={(e) => setMinWallThickness(Number((e.target as HTMLInputElement).value))}
+            />
+          </div>
+        </Show>
+        <Show when={checkPrintability() || supports()}>
+          <div class={s.field}>
+            <label for="overhangAngle">Maximum overhang (° from vertical)</label>
+            <input
+              class={s.input}
+              type="number"
+              min={30}
+              max={89}
+              step={5}
+              id="overhangAngle"
+              value={overhangAngle()}
+              onInput={(e) => setOverhangAngle(Number((e.target as HTMLInputElement).value))}
+            />
+          </div>
+        </Show>
+        <div class={s.field}>
+          <label for="orientation">Print orientation</label>
+          <select
+            class={s.input}
+            id="orientation"
+            value={orientation()}
+            onInput={(e) => setOrientation((e.target as HTMLSelectElement).value)}
+          >
+            <option value="posed">As posed</option>
+            <option value="auto">Best found</option>
+            <For each={orientations()}>
+              {(candidate, index) => (
+                <option value={String(index())}>
+                  Tilt {candidate.orientation.tilt}°, spin {candidate.orientation.spin}° (
+                  {candidate.supportArea.toFixed(0)} mm² supported, {candidate.height.toFixed(0)} mm tall)
+                </option>
+              )}
+            </For>
+          </select>
+        </div>
+        <input class={s.button} type="button" value="Suggest orientations" onClick={handleSuggestOrientations} />
+        <div classList={{ [s.field]: true, [s.row]: true }}>
+          <label for="supports">Supports</label>
+          <div class={s.checkbox}>
+            <input
+              type="checkbox"
+              id="supports"
+              checked={supports()}
+              onInput={(e) => setSupports((e.target as HTMLInputElement).checked)}
+            />
+          </div>
+        </div>
+        <Show when={supports()}>
+          <div class={s.field}>
+            <label for="supportTipDiameter">Support tip diameter (mm)</label>
+            <input
+              class={s.input}
+              type="number"
+              min={0.2}
+              max={2}
+              step={0.1}
+              id="supportTipDiameter"
+              value={supportTipDiameter()}
+              onInput={(e) => setSupportTipDiameter(Number((e.target as HTMLInputElement).value))}
+            />
+          </div>
+          <div class={s.field}>
+            <label for="supportSpacing">Support spacing (mm)</label>
+            <input
+              class={s.input}
+              type="number"
+              min={1}
+              max={10}
+              step={0.5}
+              id="supportSpacing"
+              value={supportSpacing()}
+              onInput={(e) => setSupportSpacing(Number((e.target as HTMLInputElement).value))}
+            />
+          </div>
+          <div classList={{ [s.field]: true, [s.row]: true }}>
+            <label for="supportRaft">Raft</label>
+            <div class={s.checkbox}>
+              <input
+                type="checkbox"
+                id="supportRaft"
+                checked={supportRaft()}
+                onInput={(e) => setSupportRaft((e.target as HTMLInputElement).checked)}
+              />
+            </div>
+          </div>
+        </Show>
+        <div classList={{ [s.field]: true, [s.row]: true }}>
+          <label for="plate">Lay out parts on a build plate</label>
+          <div class={s.checkbox}>
+            <input
+              type="checkbox"
+              id="plate"
+              checked={plate()}
+              onInput={(e) => setPlate((e.target as HTMLInputElement).checked)}
+            />
+          </div>
+        </div>
+        <Show when={plate()}>
+          <div class={s.field}>
+            <label for="plateWidth">Plate width (mm)</label>
+            <input
+              class={s.input}
+              type="number"
+              min={10}
+              step={1}
+              id="plateWidth"
+              value={plateWidth()}
+              onInput={(e) => setPlateWidth(Number((e.target as HTMLInputElement).value))}
+            />
+          </div>
+          <div class={s.field}>
+            <label for="plateDepth">Plate depth (mm)</label>
+            <input
+              class={s.input}
+              type="number"
+              min={10}
+              step={1}
+              id="plateDepth"
+              value={plateDepth()}
+              onInput={(e) => setPlateDepth(Number((e.target as HTMLInputElement).value))}
+            />
+          </div>
+          <div class={s.field}>
+            <label for="plateSpacing">Part spacing (mm)</label>
+            <input
+              class={s.input}
+              type="number"
+              min={0}
+              max={50}
+              step={1}
+              id="plateSpacing"
+              value={plateSpacing()}
+              onInput={(e) => setPlateSpacing(Number((e.target as HTMLInputElement).value))}
+            />
+          </div>
+          <div classList={{ [s.field]: true, [s.row]: true }}>
+            <label for="plateRotation">Allow rotation</label>
+            <div class={s.checkbox}>
+              <input
+                type="checkbox"
+                id="plateRotation"
+                checked={plateRotation()}
+                onInput={(e) => setPlateRotation((e.target as HTMLInputElement).checked)}
+              />
+            </div>
+          </div>
+        </Show>
+        <input class={s.button} type="button" value="Preview" onClick={handlePreview} />
+        <Show when={preview()}>
+          {(scene) => (
+            <div class={s.preview}>
+              <canvas
+                class={s.canvas}
+                ref={(canvas) => {
+                  renderer = createPreviewRenderer(canvas)
+                  onCleanup(() => {
+                    renderer?.dispose()
+                    renderer = null
+                  })
+                }}
+              />
+              <Show when={scene().boundingBox}>
+                {(box) => (
+                  <div class={s.stats}>
+                    {(box().max.x - box().min.x).toFixed(1)} × {(box().max.y - box().min.y).toFixed(1)} ×{' '}
+                    {(box().max.z - box().min.z).toFixed(1)} mm
+                  </div>
+                )}
+              </Show>
+              <ul class={s.meshes}>
+                <For each={scene().meshes}>
+                  {(mesh, index) => (
+                    <li class={s.mesh}>
+                      <span class={s.swatch} style={{ 'background-color': toCss(meshColor(index())) }} />
+                      <span>
+                        {mesh.slotName} / {mesh.name || 'unnamed'} ({mesh.triangles.length.toLocaleString()})
+                      </span>
+                    </li>
+                  )}
+                </For>
+                <Show when={scene().skipped.length > 0}>
+                  <li class={s.mesh}>
+                    <span class={s.swatch} style={{ 'background-color': toCss(SKIPPED_COLOR) }} />
+                    <span>Skipped ({scene().skipped.length.toLocaleString()})</span>
+                  </li>
+                </Show>
+              </ul>
+              <input class={s.button} type="button" value="Hide preview" onClick={() => setPreview(null)} />
+            </div>
+          )}
+        </Show>
+        <Show
+          when={progress()}
+          fallback={<input class={s.button} type="submit" value="Export" onClick={handleExport} />}
+        >
+          {(current) => (
+            <input
+              class={s.button}
+              type="button"
+              value={`${STAGE_LABELS[current().stage]}… ${Math.round(current().fraction * 100)}% (cancel)`}
+              onClick={handleCancelExport}
+            />
+          )}
+        </Show>
+        <Show when={error()}>{(message) => <div class={s.error}>{message()}</div>}</Show>
+        <Show when={stats()}>
+          {(result) => (
+            <div class={s.stats}>
+              {result().inputTriangles.toLocaleString()} → {result().outputTriangles.toLocaleString()} triangles
+              <Show when={result().boundingBox}>
+                {(box) => (
+                  <div>
+                    {(box().max.x - box().min.x).toFixed(1)} × {(box().max.y - box().min.y).toFixed(1)} ×{' '}
+                    {(box().max.z - box().min.z).toFixed(1)} mm
+                  </div>
+                )}
+              </Show>
+              <Show
+                when={issues().length > 0}
+                fallback={
+                  <Show when={result().printability.length > 0}>
+                    <div>No printability issues found</div>
+                  </Show>
+                }
+              >
+                <ul class={s.issues}>
+                  <For each={issues()}>{(issue) => <li>{issue}</li>}</For>
+                </ul>
+              </Show>
+            </div>
+          )}
+        </Show>
       </div>
     </div>
   )